@@ -11,6 +11,10 @@ var defaultMetricStore = process.env.METRIC_STORE || 'atlas';
 var canaryStagesEnabled = process.env.CANARY_STAGES_ENABLED === 'true';
 var templatesEnabled = process.env.TEMPLATES_ENABLED === 'true';
 var atlasWebComponentsUrl = process.env.ATLAS_WEB_COMPONENTS_URL;
+var atlasBackends = process.env.ATLAS_BACKENDS ? process.env.ATLAS_BACKENDS.split(',') : [];
+var metricLibraryEndpoint = process.env.METRIC_LIBRARY_ENDPOINT;
+var graphImplementations = process.env.GRAPH_IMPLEMENTATIONS ? process.env.GRAPH_IMPLEMENTATIONS.split(',') : ['chartjs', 'plotly'];
+var stubMetricPreview = process.env.STUB_METRIC_PREVIEW === 'true';
 var canaryAccount = process.env.CANARY_ACCOUNT || 'my-google-account';
 
 window.spinnakerSettings = {
@@ -86,7 +90,11 @@ window.spinnakerSettings = {
     metricStore: defaultMetricStore,
     stagesEnabled: canaryStagesEnabled,
     atlasWebComponentsUrl: atlasWebComponentsUrl,
+    atlasBackends: atlasBackends,
+    metricLibraryEndpoint: metricLibraryEndpoint,
+    graphImplementations: graphImplementations,
     templatesEnabled: templatesEnabled,
+    stubMetricPreview: stubMetricPreview,
     showAllConfigs: true,
   },
   feature: {
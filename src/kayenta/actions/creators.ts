@@ -3,9 +3,20 @@ import { Action } from 'redux';
 
 import * as Actions from './index';
 import { ConfigJsonModalTabState } from 'kayenta/edit/configJsonModal';
+import { ConfigDetailTabState } from 'kayenta/edit/configDetail';
 import { IUpdateListPayload } from 'kayenta/layout/list';
 import { GraphType } from 'kayenta/report/detail/graph/metricSetPairGraph.service';
-import { IKayentaAccount, IMetricsServiceMetadata, ICanaryExecutionStatusResult, IMetricSetPair, IJudge, ICanaryConfigSummary, ICanaryConfig, ICanaryMetricConfig } from 'kayenta/domain';
+import { IConfigDraft } from 'kayenta/service/configDraft.service';
+import { MergeSide } from 'kayenta/service/configMerge.service';
+import { IConfigRevision } from 'kayenta/service/configRevision.service';
+import { ConfigFormat } from 'kayenta/service/configFormat.service';
+import { IMetricPreview, IMetricPreviewParams } from 'kayenta/service/metricPreview.service';
+import { IRunAnalysisParams, IRunAnalysisScopeParams } from 'kayenta/service/canaryRun.service';
+import { IMetricLibraryEntry } from 'kayenta/service/metricLibrary.service';
+import { IComparedRunParams } from 'kayenta/service/runComparison.service';
+import { IExecutionListParams } from 'kayenta/service/executionList.service';
+import { IKayentaAccount, IMetricsServiceMetadata, ICanaryExecutionStatusResult, IMetricSetPair, IJudge, ICanaryConfigSummary, ICanaryConfig, ICanaryMetricConfig, ICanaryMetricSetQueryConfig, ICanaryClassifierThresholdsConfig } from 'kayenta/domain';
+import { IUpdateKeyValueListPayload } from 'kayenta/layout/keyValueList';
 
 export interface IKayentaAction<T> extends Action {
   payload: T;
@@ -25,10 +36,11 @@ export const saveConfig = createAction(Actions.SAVE_CONFIG_REQUEST);
 export const dismissSaveConfigError = createAction(Actions.DISMISS_SAVE_CONFIG_ERROR);
 export const setConfigJsonModalTabState = createAction<{state: ConfigJsonModalTabState}>(Actions.SET_CONFIG_JSON_MODAL_TAB_STATE);
 export const setConfigJson = createAction<{json: string}>(Actions.SET_CONFIG_JSON);
+export const setConfigYaml = createAction<{yaml: string}>(Actions.SET_CONFIG_YAML);
 export const deleteConfigSuccess = createAction(Actions.DELETE_CONFIG_SUCCESS);
 export const loadConfigRequest = createAction<{id: string}>(Actions.LOAD_CONFIG_REQUEST);
 export const saveConfigSuccess = createAction<{id: string}>(Actions.SAVE_CONFIG_SUCCESS);
-export const selectConfig = createAction<{config: ICanaryConfig}>(Actions.SELECT_CONFIG);
+export const selectConfig = createAction<{config: ICanaryConfig, undoable?: boolean}>(Actions.SELECT_CONFIG);
 export const clearSelectedConfig = createAction(Actions.CLEAR_SELECTED_CONFIG);
 export const renameMetric = createAction<{id: string, name: string}>(Actions.RENAME_METRIC);
 export const selectGroup = createAction<{name: string}>(Actions.SELECT_GROUP);
@@ -89,3 +101,95 @@ export const loadKayentaAccountsRequest = createAction(Actions.LOAD_KAYENTA_ACCO
 export const loadKayentaAccountsSuccess = createAction<{accounts: IKayentaAccount[]}>(Actions.LOAD_KAYENTA_ACCOUNTS_SUCCESS);
 export const loadKayentaAccountsFailure = createAction<{error: Error}>(Actions.LOAD_KAYENTA_ACCOUNTS_FAILURE);
 export const selectMetricStore = createAction<{store: string}>(Actions.SELECT_METRIC_STORE);
+export const undoConfigEdit = createAction(Actions.UNDO_CONFIG_EDIT);
+export const redoConfigEdit = createAction(Actions.REDO_CONFIG_EDIT);
+export const configDraftFound = createAction<{draft: IConfigDraft}>(Actions.CONFIG_DRAFT_FOUND);
+export const restoreConfigDraft = createAction<{draft: IConfigDraft}>(Actions.RESTORE_CONFIG_DRAFT);
+export const discardConfigDraft = createAction<{id: string}>(Actions.DISCARD_CONFIG_DRAFT);
+export const toggleConfigDraftDiff = createAction(Actions.TOGGLE_CONFIG_DRAFT_DIFF);
+export const saveConfigConflict = createAction<{base: ICanaryConfig, theirs: ICanaryConfig, mine: ICanaryConfig}>(Actions.SAVE_CONFIG_CONFLICT);
+export const selectConfigMergeResolution = createAction<{key: string, side: MergeSide}>(Actions.SELECT_CONFIG_MERGE_RESOLUTION);
+export const confirmConfigMerge = createAction(Actions.CONFIRM_CONFIG_MERGE);
+export const cancelConfigMerge = createAction(Actions.CANCEL_CONFIG_MERGE);
+export const configMerged = createAction<{theirs: ICanaryConfig, merged: ICanaryConfig}>(Actions.CONFIG_MERGED);
+export const loadConfigRevisionsRequest = createAction<{id: string}>(Actions.LOAD_CONFIG_REVISIONS_REQUEST);
+export const loadConfigRevisionsSuccess = createAction<{revisions: IConfigRevision[]}>(Actions.LOAD_CONFIG_REVISIONS_SUCCESS);
+export const loadConfigRevisionsFailure = createAction<{error: Error}>(Actions.LOAD_CONFIG_REVISIONS_FAILURE);
+export const selectConfigRevision = createAction<{updatedTimestampIso: string}>(Actions.SELECT_CONFIG_REVISION);
+export const restoreConfigRevision = createAction<{revision: IConfigRevision}>(Actions.RESTORE_CONFIG_REVISION);
+export const setConfigDetailTabState = createAction<{state: ConfigDetailTabState}>(Actions.SET_CONFIG_DETAIL_TAB_STATE);
+export const setConfigExportMode = createAction<{enabled: boolean}>(Actions.SET_CONFIG_EXPORT_MODE);
+export const selectConfigForExport = createAction<{id: string, selected: boolean}>(Actions.SELECT_CONFIG_FOR_EXPORT);
+export const exportConfigsRequest = createAction<{format: ConfigFormat}>(Actions.EXPORT_CONFIGS_REQUEST);
+export const exportConfigsSuccess = createAction(Actions.EXPORT_CONFIGS_SUCCESS);
+export const exportConfigsFailure = createAction<{error: Error}>(Actions.EXPORT_CONFIGS_FAILURE);
+export const openConfigImportModal = createAction(Actions.CONFIG_IMPORT_MODAL_OPEN);
+export const closeConfigImportModal = createAction(Actions.CONFIG_IMPORT_MODAL_CLOSE);
+export const loadConfigBundle = createAction<{contents: string, fileName: string}>(Actions.LOAD_CONFIG_BUNDLE);
+export const toggleImportedConfig = createAction<{index: number}>(Actions.TOGGLE_IMPORTED_CONFIG);
+export const renameImportedConfig = createAction<{index: number, name: string}>(Actions.RENAME_IMPORTED_CONFIG);
+export const importConfigsRequest = createAction(Actions.IMPORT_CONFIGS_REQUEST);
+export const importConfigSuccess = createAction<{index: number, id: string}>(Actions.IMPORT_CONFIG_SUCCESS);
+export const importConfigFailure = createAction<{index: number, error: Error}>(Actions.IMPORT_CONFIG_FAILURE);
+export const importConfigsComplete = createAction(Actions.IMPORT_CONFIGS_COMPLETE);
+export const updatePrometheusResourceType = createAction<{resourceType: string}>(Actions.UPDATE_PROMETHEUS_RESOURCE_TYPE);
+export const updatePrometheusAggregation = createAction<{aggregation: string}>(Actions.UPDATE_PROMETHEUS_AGGREGATION);
+export const updatePrometheusRangeFunction = createAction<{rangeFunction: string}>(Actions.UPDATE_PROMETHEUS_RANGE_FUNCTION);
+export const updatePrometheusRangeWindow = createAction<{rangeWindow: string}>(Actions.UPDATE_PROMETHEUS_RANGE_WINDOW);
+export const updatePrometheusInlineTemplate = createAction<{customInlineTemplate: string}>(Actions.UPDATE_PROMETHEUS_INLINE_TEMPLATE);
+export const updateDatadogMetricDescriptorFilter = createAction<{filter: string}>(Actions.UPDATE_DATADOG_METRIC_DESCRIPTOR_FILTER);
+export const updateDatadogTagFilters = createAction<IUpdateListPayload>(Actions.UPDATE_DATADOG_TAG_FILTERS);
+export const updateNewRelicSelect = createAction<{select: string}>(Actions.UPDATE_NEW_RELIC_SELECT);
+export const updateNewRelicWhere = createAction<{q: string}>(Actions.UPDATE_NEW_RELIC_WHERE);
+export const updateSignalFxMetricName = createAction<{metricName: string}>(Actions.UPDATE_SIGNAL_FX_METRIC_NAME);
+export const updateSignalFxQueryPairs = createAction<IUpdateKeyValueListPayload>(Actions.UPDATE_SIGNAL_FX_QUERY_PAIRS);
+export const updateSignalFxAggregationMethod = createAction<{aggregationMethod: string}>(Actions.UPDATE_SIGNAL_FX_AGGREGATION_METHOD);
+export const updateGraphiteMetricDescriptorFilter = createAction<{filter: string}>(Actions.UPDATE_GRAPHITE_METRIC_DESCRIPTOR_FILTER);
+export const updateGraphiteTarget = createAction<{metricName: string}>(Actions.UPDATE_GRAPHITE_TARGET);
+export const updateInfluxDbMetricDescriptorFilter = createAction<{filter: string}>(Actions.UPDATE_INFLUXDB_METRIC_DESCRIPTOR_FILTER);
+export const updateInfluxDbMeasurement = createAction<{metricName: string}>(Actions.UPDATE_INFLUXDB_MEASUREMENT);
+export const updateInfluxDbFields = createAction<IUpdateListPayload>(Actions.UPDATE_INFLUXDB_FIELDS);
+export const updateInfluxDbTagFilters = createAction<IUpdateKeyValueListPayload>(Actions.UPDATE_INFLUXDB_TAG_FILTERS);
+export const updateMetricQuery = createAction<{query: ICanaryMetricSetQueryConfig}>(Actions.UPDATE_METRIC_QUERY);
+export const updateMetricStore = createAction<{store: string}>(Actions.UPDATE_METRIC_STORE);
+export const updateMetricPreviewParams = createAction<{params: Partial<IMetricPreviewParams>}>(Actions.UPDATE_METRIC_PREVIEW_PARAMS);
+export const loadMetricPreviewRequest = createAction(Actions.LOAD_METRIC_PREVIEW_REQUEST);
+export const loadMetricPreviewSuccess = createAction<{preview: IMetricPreview}>(Actions.LOAD_METRIC_PREVIEW_SUCCESS);
+export const loadMetricPreviewFailure = createAction<{error: Error}>(Actions.LOAD_METRIC_PREVIEW_FAILURE);
+export const openRunAnalysisModal = createAction<{scopeNames: string[], thresholds: ICanaryClassifierThresholdsConfig}>(Actions.RUN_ANALYSIS_MODAL_OPEN);
+export const closeRunAnalysisModal = createAction(Actions.RUN_ANALYSIS_MODAL_CLOSE);
+export const updateRunAnalysisParams = createAction<{params: Partial<IRunAnalysisParams>}>(Actions.UPDATE_RUN_ANALYSIS_PARAMS);
+export const updateRunAnalysisScope = createAction<{scopeName: string, scope: Partial<IRunAnalysisScopeParams>}>(Actions.UPDATE_RUN_ANALYSIS_SCOPE);
+export const runAnalysisRequest = createAction(Actions.RUN_ANALYSIS_REQUEST);
+export const runAnalysisStarted = createAction<{executionId: string}>(Actions.RUN_ANALYSIS_STARTED);
+export const runAnalysisSuccess = createAction(Actions.RUN_ANALYSIS_SUCCESS);
+export const runAnalysisFailure = createAction<{error: Error}>(Actions.RUN_ANALYSIS_FAILURE);
+export const loadMetricLibraryRequest = createAction(Actions.LOAD_METRIC_LIBRARY_REQUEST);
+export const loadMetricLibrarySuccess = createAction<{entries: IMetricLibraryEntry[]}>(Actions.LOAD_METRIC_LIBRARY_SUCCESS);
+export const loadMetricLibraryFailure = createAction<{error: Error}>(Actions.LOAD_METRIC_LIBRARY_FAILURE);
+export const openMetricLibraryModal = createAction(Actions.METRIC_LIBRARY_MODAL_OPEN);
+export const closeMetricLibraryModal = createAction(Actions.METRIC_LIBRARY_MODAL_CLOSE);
+export const updateMetricLibrarySearch = createAction<{text: string}>(Actions.UPDATE_METRIC_LIBRARY_SEARCH);
+export const insertLibraryMetric = createAction<{entry: IMetricLibraryEntry}>(Actions.INSERT_LIBRARY_METRIC);
+export const deleteMetricLibraryEntryRequest = createAction<{id: string}>(Actions.DELETE_METRIC_LIBRARY_ENTRY_REQUEST);
+export const deleteMetricLibraryEntrySuccess = createAction<{id: string}>(Actions.DELETE_METRIC_LIBRARY_ENTRY_SUCCESS);
+export const deleteMetricLibraryEntryFailure = createAction<{error: Error}>(Actions.DELETE_METRIC_LIBRARY_ENTRY_FAILURE);
+export const openSaveToMetricLibraryModal = createAction<{id: string}>(Actions.SAVE_TO_METRIC_LIBRARY_MODAL_OPEN);
+export const closeSaveToMetricLibraryModal = createAction(Actions.SAVE_TO_METRIC_LIBRARY_MODAL_CLOSE);
+export const saveToMetricLibraryRequest = createAction<{id: string, global: boolean, entryId: string}>(Actions.SAVE_TO_METRIC_LIBRARY_REQUEST);
+export const saveToMetricLibrarySuccess = createAction<{id: string, entry: IMetricLibraryEntry}>(Actions.SAVE_TO_METRIC_LIBRARY_SUCCESS);
+export const saveToMetricLibraryFailure = createAction<{error: Error}>(Actions.SAVE_TO_METRIC_LIBRARY_FAILURE);
+export const openMetricLibraryUpdateModal = createAction<{id: string}>(Actions.METRIC_LIBRARY_UPDATE_MODAL_OPEN);
+export const closeMetricLibraryUpdateModal = createAction(Actions.METRIC_LIBRARY_UPDATE_MODAL_CLOSE);
+export const applyMetricLibraryUpdate = createAction<{id: string, entry: IMetricLibraryEntry}>(Actions.APPLY_METRIC_LIBRARY_UPDATE);
+export const dismissMetricLibraryUpdate = createAction<{id: string, entry: IMetricLibraryEntry}>(Actions.DISMISS_METRIC_LIBRARY_UPDATE);
+export const loadRunComparisonRequest = createAction<{left: IComparedRunParams, right: IComparedRunParams}>(Actions.LOAD_RUN_COMPARISON_REQUEST);
+export const loadRunComparisonSuccess = createAction<{left: ICanaryExecutionStatusResult, right: ICanaryExecutionStatusResult}>(Actions.LOAD_RUN_COMPARISON_SUCCESS);
+export const loadRunComparisonFailure = createAction<{error: Error}>(Actions.LOAD_RUN_COMPARISON_FAILURE);
+export const selectComparisonMetric = createAction<{key: string}>(Actions.SELECT_COMPARISON_METRIC);
+export const loadComparisonMetricSetPairsSuccess = createAction<{left: IMetricSetPair, right: IMetricSetPair}>(Actions.LOAD_COMPARISON_METRIC_SET_PAIRS_SUCCESS);
+export const loadComparisonMetricSetPairsFailure = createAction<{error: Error}>(Actions.LOAD_COMPARISON_METRIC_SET_PAIRS_FAILURE);
+export const setComparisonOverlay = createAction<{overlay: boolean}>(Actions.SET_COMPARISON_OVERLAY);
+export const updateExecutionListParams = createAction<{params: Partial<IExecutionListParams>}>(Actions.UPDATE_EXECUTION_LIST_PARAMS);
+export const loadMoreExecutions = createAction(Actions.LOAD_MORE_EXECUTIONS);
+export const selectReportScope = createAction<{scope: string}>(Actions.SELECT_REPORT_SCOPE);
@@ -78,3 +78,96 @@ export const LOAD_KAYENTA_ACCOUNTS_REQUEST = 'load_kayenta_accounts_request';
 export const LOAD_KAYENTA_ACCOUNTS_SUCCESS = 'load_kayenta_accounts_success';
 export const LOAD_KAYENTA_ACCOUNTS_FAILURE = 'load_kayenta_accounts_failure';
 export const SELECT_METRIC_STORE = 'select_metric_store';
+export const UNDO_CONFIG_EDIT = 'undo_config_edit';
+export const REDO_CONFIG_EDIT = 'redo_config_edit';
+export const CONFIG_DRAFT_FOUND = 'config_draft_found';
+export const RESTORE_CONFIG_DRAFT = 'restore_config_draft';
+export const DISCARD_CONFIG_DRAFT = 'discard_config_draft';
+export const TOGGLE_CONFIG_DRAFT_DIFF = 'toggle_config_draft_diff';
+export const SAVE_CONFIG_CONFLICT = 'save_config_conflict';
+export const SELECT_CONFIG_MERGE_RESOLUTION = 'select_config_merge_resolution';
+export const CONFIRM_CONFIG_MERGE = 'confirm_config_merge';
+export const CANCEL_CONFIG_MERGE = 'cancel_config_merge';
+export const CONFIG_MERGED = 'config_merged';
+export const LOAD_CONFIG_REVISIONS_REQUEST = 'load_config_revisions_request';
+export const LOAD_CONFIG_REVISIONS_SUCCESS = 'load_config_revisions_success';
+export const LOAD_CONFIG_REVISIONS_FAILURE = 'load_config_revisions_failure';
+export const SELECT_CONFIG_REVISION = 'select_config_revision';
+export const RESTORE_CONFIG_REVISION = 'restore_config_revision';
+export const SET_CONFIG_DETAIL_TAB_STATE = 'set_config_detail_tab_state';
+export const SET_CONFIG_EXPORT_MODE = 'set_config_export_mode';
+export const SELECT_CONFIG_FOR_EXPORT = 'select_config_for_export';
+export const EXPORT_CONFIGS_REQUEST = 'export_configs_request';
+export const EXPORT_CONFIGS_SUCCESS = 'export_configs_success';
+export const EXPORT_CONFIGS_FAILURE = 'export_configs_failure';
+export const CONFIG_IMPORT_MODAL_OPEN = 'config_import_modal_open';
+export const CONFIG_IMPORT_MODAL_CLOSE = 'config_import_modal_close';
+export const LOAD_CONFIG_BUNDLE = 'load_config_bundle';
+export const TOGGLE_IMPORTED_CONFIG = 'toggle_imported_config';
+export const RENAME_IMPORTED_CONFIG = 'rename_imported_config';
+export const IMPORT_CONFIGS_REQUEST = 'import_configs_request';
+export const IMPORT_CONFIG_SUCCESS = 'import_config_success';
+export const IMPORT_CONFIG_FAILURE = 'import_config_failure';
+export const IMPORT_CONFIGS_COMPLETE = 'import_configs_complete';
+export const SET_CONFIG_YAML = 'set_config_yaml';
+export const UPDATE_PROMETHEUS_RESOURCE_TYPE = 'update_prometheus_resource_type';
+export const UPDATE_PROMETHEUS_AGGREGATION = 'update_prometheus_aggregation';
+export const UPDATE_PROMETHEUS_RANGE_FUNCTION = 'update_prometheus_range_function';
+export const UPDATE_PROMETHEUS_RANGE_WINDOW = 'update_prometheus_range_window';
+export const UPDATE_PROMETHEUS_INLINE_TEMPLATE = 'update_prometheus_inline_template';
+export const UPDATE_DATADOG_METRIC_DESCRIPTOR_FILTER = 'update_datadog_metric_descriptor_filter';
+export const UPDATE_DATADOG_TAG_FILTERS = 'update_datadog_tag_filters';
+export const UPDATE_NEW_RELIC_SELECT = 'update_new_relic_select';
+export const UPDATE_NEW_RELIC_WHERE = 'update_new_relic_where';
+export const UPDATE_SIGNAL_FX_METRIC_NAME = 'update_signal_fx_metric_name';
+export const UPDATE_SIGNAL_FX_QUERY_PAIRS = 'update_signal_fx_query_pairs';
+export const UPDATE_SIGNAL_FX_AGGREGATION_METHOD = 'update_signal_fx_aggregation_method';
+export const UPDATE_GRAPHITE_METRIC_DESCRIPTOR_FILTER = 'update_graphite_metric_descriptor_filter';
+export const UPDATE_GRAPHITE_TARGET = 'update_graphite_target';
+export const UPDATE_INFLUXDB_METRIC_DESCRIPTOR_FILTER = 'update_influxdb_metric_descriptor_filter';
+export const UPDATE_INFLUXDB_MEASUREMENT = 'update_influxdb_measurement';
+export const UPDATE_INFLUXDB_FIELDS = 'update_influxdb_fields';
+export const UPDATE_INFLUXDB_TAG_FILTERS = 'update_influxdb_tag_filters';
+export const UPDATE_METRIC_QUERY = 'update_metric_query';
+export const UPDATE_METRIC_STORE = 'update_metric_store';
+export const UPDATE_METRIC_PREVIEW_PARAMS = 'update_metric_preview_params';
+export const LOAD_METRIC_PREVIEW_REQUEST = 'load_metric_preview_request';
+export const LOAD_METRIC_PREVIEW_SUCCESS = 'load_metric_preview_success';
+export const LOAD_METRIC_PREVIEW_FAILURE = 'load_metric_preview_failure';
+export const RUN_ANALYSIS_MODAL_OPEN = 'run_analysis_modal_open';
+export const RUN_ANALYSIS_MODAL_CLOSE = 'run_analysis_modal_close';
+export const UPDATE_RUN_ANALYSIS_PARAMS = 'update_run_analysis_params';
+export const UPDATE_RUN_ANALYSIS_SCOPE = 'update_run_analysis_scope';
+export const RUN_ANALYSIS_REQUEST = 'run_analysis_request';
+export const RUN_ANALYSIS_STARTED = 'run_analysis_started';
+export const RUN_ANALYSIS_SUCCESS = 'run_analysis_success';
+export const RUN_ANALYSIS_FAILURE = 'run_analysis_failure';
+export const LOAD_METRIC_LIBRARY_REQUEST = 'load_metric_library_request';
+export const LOAD_METRIC_LIBRARY_SUCCESS = 'load_metric_library_success';
+export const LOAD_METRIC_LIBRARY_FAILURE = 'load_metric_library_failure';
+export const METRIC_LIBRARY_MODAL_OPEN = 'metric_library_modal_open';
+export const METRIC_LIBRARY_MODAL_CLOSE = 'metric_library_modal_close';
+export const UPDATE_METRIC_LIBRARY_SEARCH = 'update_metric_library_search';
+export const INSERT_LIBRARY_METRIC = 'insert_library_metric';
+export const DELETE_METRIC_LIBRARY_ENTRY_REQUEST = 'delete_metric_library_entry_request';
+export const DELETE_METRIC_LIBRARY_ENTRY_SUCCESS = 'delete_metric_library_entry_success';
+export const DELETE_METRIC_LIBRARY_ENTRY_FAILURE = 'delete_metric_library_entry_failure';
+export const SAVE_TO_METRIC_LIBRARY_MODAL_OPEN = 'save_to_metric_library_modal_open';
+export const SAVE_TO_METRIC_LIBRARY_MODAL_CLOSE = 'save_to_metric_library_modal_close';
+export const SAVE_TO_METRIC_LIBRARY_REQUEST = 'save_to_metric_library_request';
+export const SAVE_TO_METRIC_LIBRARY_SUCCESS = 'save_to_metric_library_success';
+export const SAVE_TO_METRIC_LIBRARY_FAILURE = 'save_to_metric_library_failure';
+export const METRIC_LIBRARY_UPDATE_MODAL_OPEN = 'metric_library_update_modal_open';
+export const METRIC_LIBRARY_UPDATE_MODAL_CLOSE = 'metric_library_update_modal_close';
+export const APPLY_METRIC_LIBRARY_UPDATE = 'apply_metric_library_update';
+export const DISMISS_METRIC_LIBRARY_UPDATE = 'dismiss_metric_library_update';
+export const LOAD_RUN_COMPARISON_REQUEST = 'load_run_comparison_request';
+export const LOAD_RUN_COMPARISON_SUCCESS = 'load_run_comparison_success';
+export const LOAD_RUN_COMPARISON_FAILURE = 'load_run_comparison_failure';
+export const SELECT_COMPARISON_METRIC = 'select_comparison_metric';
+export const LOAD_COMPARISON_METRIC_SET_PAIRS_SUCCESS = 'load_comparison_metric_set_pairs_success';
+export const LOAD_COMPARISON_METRIC_SET_PAIRS_FAILURE = 'load_comparison_metric_set_pairs_failure';
+export const SET_COMPARISON_OVERLAY = 'set_comparison_overlay';
+export const UPDATE_EXECUTION_LIST_PARAMS = 'update_execution_list_params';
+export const LOAD_MORE_EXECUTIONS = 'load_more_executions';
+export const SELECT_REPORT_SCOPE = 'select_report_scope';
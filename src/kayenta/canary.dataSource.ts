@@ -13,6 +13,7 @@ import { canaryStore } from './canary';
 import * as Creators from './actions/creators';
 import { listCanaryExecutions } from './service/canaryRun.service';
 import { ICanaryExecutionStatusResult } from './domain/ICanaryExecutionStatusResult';
+import { executionListQuerySelector } from './selectors';
 
 export const CANARY_DATA_SOURCE = 'spinnaker.kayenta.canary.dataSource';
 module(CANARY_DATA_SOURCE, [APPLICATION_DATA_SOURCE_REGISTRY])
@@ -81,8 +82,9 @@ module(CANARY_DATA_SOURCE, [APPLICATION_DATA_SOURCE_REGISTRY])
     });
 
     const loadCanaryExecutions = (application: Application) => {
-      // TODO(dpeach): make the number of canary executions rendered configurable from the UI.
-      const listExecutionsRequest = listCanaryExecutions(application.name, 20);
+      // The page size, page count and status filter come from the report list's URL params.
+      const { limit, statuses } = executionListQuerySelector(canaryStore.getState());
+      const listExecutionsRequest = listCanaryExecutions(application.name, limit, statuses);
 
       listExecutionsRequest.catch(error => {
         canaryStore.dispatch(Creators.loadExecutionsFailure({ error }));
@@ -11,7 +11,11 @@ export interface ICanarySettings {
   featureDisabled: boolean;
   optInAll: boolean;
   atlasWebComponentsUrl: string;
+  atlasBackends: string[];
+  metricLibraryEndpoint: string;
+  graphImplementations: string[];
   templatesEnabled: boolean;
+  stubMetricPreview: boolean;
 }
 
 export const CanarySettings: ICanarySettings = SETTINGS.canary || { featureDisabled: true };
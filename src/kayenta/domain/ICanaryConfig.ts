@@ -25,6 +25,13 @@ export interface ICanaryMetricConfig {
   };
   scopeName: string;
   isNew?: boolean;
+  // Set on metrics inserted from the metric library: the entry and the version of it they were copied from.
+  libraryEntry?: ICanaryMetricLibraryReference;
+}
+
+export interface ICanaryMetricLibraryReference {
+  id: string;
+  updatedTimestampIso: string;
 }
 
 export interface ICanaryMetricSetQueryConfig {
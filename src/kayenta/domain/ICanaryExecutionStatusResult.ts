@@ -27,13 +27,15 @@ export interface ICanaryResult {
 export interface ICanaryExecutionRequest {
   thresholds: ICanaryClassifierThresholdsConfig;
   scopes: {
-    [scopeName: string]: {
-      controlScope: ICanaryScope;
-      experimentScope: ICanaryScope;
-    };
+    [scopeName: string]: ICanaryExecutionRequestScope;
   };
 }
 
+export interface ICanaryExecutionRequestScope {
+  controlScope: ICanaryScope;
+  experimentScope: ICanaryScope;
+}
+
 export interface ICanaryScope {
   scope: string;
   location: string;
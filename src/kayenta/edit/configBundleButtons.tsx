@@ -0,0 +1,84 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import { ConfigFormat } from 'kayenta/service/configFormat.service';
+
+interface IConfigBundleButtonsStateProps {
+  exportEnabled: boolean;
+  selectedCount: number;
+  exporting: boolean;
+  exportError: string;
+}
+
+interface IConfigBundleButtonsDispatchProps {
+  setExportMode: (enabled: boolean) => () => void;
+  exportConfigs: (format: ConfigFormat) => () => void;
+  openImportModal: () => void;
+}
+
+/*
+ * Buttons for exporting configs to and importing configs from a file.
+ */
+function ConfigBundleButtons({ exportEnabled, selectedCount, exporting, exportError, setExportMode, exportConfigs, openImportModal }: IConfigBundleButtonsStateProps & IConfigBundleButtonsDispatchProps) {
+  if (!exportEnabled) {
+    return (
+      <div>
+        <button className="zombie text-left form-control" onClick={setExportMode(true)}>
+          <i className="fa fa-download"/>
+          <span>Export configurations</span>
+        </button>
+        <button className="zombie text-left form-control" onClick={openImportModal}>
+          <i className="fa fa-upload"/>
+          <span>Import configurations</span>
+        </button>
+      </div>
+    );
+  }
+
+  const disabled = !selectedCount || exporting;
+  return (
+    <div>
+      <p className="body-small color-text-caption">
+        {selectedCount
+          ? `${selectedCount} configuration${selectedCount === 1 ? '' : 's'} selected`
+          : 'Select configurations to export'}
+      </p>
+      <button className="zombie text-left form-control" disabled={disabled} onClick={exportConfigs(ConfigFormat.Json)}>
+        <i className="fa fa-download"/>
+        <span>Export as JSON</span>
+      </button>
+      <button className="zombie text-left form-control" disabled={disabled} onClick={exportConfigs(ConfigFormat.Yaml)}>
+        <i className="fa fa-download"/>
+        <span>Export as YAML</span>
+      </button>
+      <button className="zombie text-left form-control" onClick={setExportMode(false)}>
+        <span>Cancel</span>
+      </button>
+      {exportError && <p className="error-message">Export failed: {exportError}</p>}
+    </div>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IConfigBundleButtonsStateProps {
+  const { enabled, selected, state: exportState, error } = state.configBundle.export;
+  return {
+    exportEnabled: enabled,
+    selectedCount: selected.length,
+    exporting: exportState === AsyncRequestState.Requesting,
+    exportError: exportState === AsyncRequestState.Failed ? (error || 'unknown error') : null,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigBundleButtonsDispatchProps {
+  return {
+    setExportMode: (enabled: boolean) => () => dispatch(Creators.setConfigExportMode({ enabled })),
+    exportConfigs: (format: ConfigFormat) => () => dispatch(Creators.exportConfigsRequest({ format })),
+    openImportModal: () => dispatch(Creators.openConfigImportModal()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigBundleButtons);
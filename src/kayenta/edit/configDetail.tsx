@@ -1,4 +1,6 @@
 import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
 
 import ConfigDetailHeader from './configDetailHeader';
 import GroupTabs from './groupTabs';
@@ -8,31 +10,89 @@ import NameAndDescription from './nameAndDescription'
 import TitledSection from '../layout/titledSection';
 import Scoring from './scoring';
 import Templates from './templates/templates';
+import ConfigDraftModal from './configDraftModal';
+import ConfigMergeModal from './configMergeModal';
+import ConfigRevisionsLoadStates from './configRevisionsLoadStates';
+import { Tab, Tabs } from 'kayenta/layout/tabs';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
 import { CanarySettings } from 'kayenta/canary.settings';
 
+export enum ConfigDetailTabState {
+  Config,
+  History,
+}
+
+interface IConfigDetailStateProps {
+  tabState: ConfigDetailTabState;
+  hasHistory: boolean;
+}
+
+interface IConfigDetailDispatchProps {
+  setTabState: (state: ConfigDetailTabState) => () => void;
+}
+
 /*
  * Top-level config detail layout
  */
-export default function ConfigDetail() {
+function ConfigDetail({ tabState, hasHistory, setTabState }: IConfigDetailStateProps & IConfigDetailDispatchProps) {
+  const showHistory = hasHistory && tabState === ConfigDetailTabState.History;
   return (
     <section className="config-detail">
       <ConfigDetailHeader/>
-      <TitledSection title="Name and Description">
-        <NameAndDescription/>
-      </TitledSection>
-      <TitledSection title="Metrics">
-        <GroupTabs/>
-        <MetricList/>
-        <EditMetricModal/>
-      </TitledSection>
-      {CanarySettings.templatesEnabled && (
-        <TitledSection title="Filter Templates">
-          <Templates/>
+      <ConfigDraftModal/>
+      <ConfigMergeModal/>
+      {hasHistory && (
+        <Tabs>
+          <Tab selected={!showHistory}>
+            <a onClick={setTabState(ConfigDetailTabState.Config)}>Configuration</a>
+          </Tab>
+          <Tab selected={showHistory}>
+            <a onClick={setTabState(ConfigDetailTabState.History)}>History</a>
+          </Tab>
+        </Tabs>
+      )}
+      {showHistory && (
+        <TitledSection title="History">
+          <ConfigRevisionsLoadStates/>
         </TitledSection>
       )}
-      <TitledSection title="Scoring">
-        <Scoring/>
-      </TitledSection>
+      {!showHistory && (
+        <div>
+          <TitledSection title="Name and Description">
+            <NameAndDescription/>
+          </TitledSection>
+          <TitledSection title="Metrics">
+            <GroupTabs/>
+            <MetricList/>
+            <EditMetricModal/>
+          </TitledSection>
+          {CanarySettings.templatesEnabled && (
+            <TitledSection title="Filter Templates">
+              <Templates/>
+            </TitledSection>
+          )}
+          <TitledSection title="Scoring">
+            <Scoring/>
+          </TitledSection>
+        </div>
+      )}
     </section>
   );
 }
+
+function mapStateToProps(state: ICanaryState): IConfigDetailStateProps {
+  const { config } = state.selectedConfig;
+  return {
+    tabState: state.app.configDetailTabState,
+    hasHistory: !!config && !!config.id && !config.isNew,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigDetailDispatchProps {
+  return {
+    setTabState: (state: ConfigDetailTabState) => () => dispatch(Creators.setConfigDetailTabState({ state })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigDetail);
@@ -3,6 +3,8 @@ import * as React from 'react';
 import OpenDeleteModalButton from './openDeleteModalButton';
 import OpenEditConfigJsonModalButton from './openConfigJsonModalButton'
 import CopyConfigButton from './copyConfigButton';
+import UndoRedoButtons from './undoRedoButtons';
+import RunAnalysisButton from './runAnalysisButton';
 
 /*
  * Layout for canary config action buttons.
@@ -10,6 +12,8 @@ import CopyConfigButton from './copyConfigButton';
 export default function ConfigDetailActionButtons() {
   return (
     <ul className="list-inline pull-right">
+      <li><UndoRedoButtons/></li>
+      <li><RunAnalysisButton/></li>
       <li><OpenEditConfigJsonModalButton/></li>
       <li><CopyConfigButton/></li>
       <li><OpenDeleteModalButton/></li>
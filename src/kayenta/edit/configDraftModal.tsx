@@ -0,0 +1,103 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+import { omit } from 'lodash';
+
+import { jsonUtilityService, noop, NgReact, IJsonDiff } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { IConfigDraft } from 'kayenta/service/configDraft.service';
+import Styleguide from 'kayenta/layout/styleguide';
+import FormattedDate from 'kayenta/layout/formattedDate';
+
+const { DiffView } = NgReact;
+
+import './configJson.less';
+
+interface IConfigDraftModalStateProps {
+  draft: IConfigDraft;
+  showDiff: boolean;
+  diff: IJsonDiff;
+}
+
+interface IConfigDraftModalDispatchProps {
+  restore: (draft: IConfigDraft) => void;
+  discard: (id: string) => void;
+  toggleDiff: () => void;
+}
+
+/*
+ * Offers to restore unsaved edits to a config that were autosaved locally.
+ */
+function ConfigDraftModal({ draft, showDiff, diff, restore, discard, toggleDiff }: IConfigDraftModalStateProps & IConfigDraftModalDispatchProps) {
+  if (!draft) {
+    return null;
+  }
+
+  return (
+    <Modal show={true} onHide={noop} bsSize={showDiff ? 'large' : null}>
+      <Styleguide>
+        <Modal.Header>
+          <Modal.Title>Unsaved changes</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <p>
+            There are unsaved changes to {draft.config.name} from{' '}
+            <FormattedDate dateIso={new Date(draft.savedTimestamp).toISOString()}/>.
+            Would you like to restore them?
+          </p>
+          <a className="clickable" onClick={toggleDiff}>
+            {showDiff ? 'Hide changes' : 'Show changes'}
+          </a>
+          {showDiff && (
+            <section className="kayenta-config-json">
+              <div className="modal-show-history">
+                <div className="show-history">
+                  <DiffView diff={diff}/>
+                </div>
+              </div>
+            </section>
+          )}
+        </Modal.Body>
+        <Modal.Footer>
+          <ul className="list-inline pull-right">
+            <li>
+              <button className="passive" onClick={() => discard(draft.config.id)}>Discard</button>
+            </li>
+            <li>
+              <button className="primary" onClick={() => restore(draft)}>Restore</button>
+            </li>
+          </ul>
+        </Modal.Footer>
+      </Styleguide>
+    </Modal>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IConfigDraftModalStateProps {
+  const { draft, showDiff } = state.selectedConfig.draft;
+  if (!draft) {
+    return { draft, showDiff, diff: null };
+  }
+
+  const persistedConfig = jsonUtilityService.makeSortedStringFromObject(
+    omit(state.data.configs.find(c => c.id === draft.config.id) || {}, 'id'),
+  );
+  const draftConfig = jsonUtilityService.makeSortedStringFromObject(omit(draft.config, 'id'));
+  return {
+    draft,
+    showDiff,
+    diff: showDiff ? jsonUtilityService.diff(persistedConfig, draftConfig, true) : null,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigDraftModalDispatchProps {
+  return {
+    restore: (draft: IConfigDraft) => dispatch(Creators.restoreConfigDraft({ draft })),
+    discard: (id: string) => dispatch(Creators.discardConfigDraft({ id })),
+    toggleDiff: () => dispatch(Creators.toggleConfigDraftDiff()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigDraftModal);
@@ -11,6 +11,10 @@ import { mapStateToConfig } from 'kayenta/service/canaryConfig.service';
 import Styleguide from 'kayenta/layout/styleguide';
 import { Tab, Tabs } from 'kayenta/layout/tabs';
 import { DisableableTextarea, DISABLE_EDIT_CONFIG } from 'kayenta/layout/disableable';
+import { toYaml } from 'kayenta/service/configFormat.service';
+import { validateConfigSchema } from 'kayenta/service/configSchema.service';
+import { findLineOfPath, formatJsonPath, locateJsonPaths } from 'kayenta/service/jsonSchema';
+import { ICanaryConfig } from 'kayenta/domain';
 
 const { DiffView } = NgReact;
 
@@ -19,6 +23,7 @@ import './configJson.less';
 interface IConfigJsonDispatchProps {
   closeModal: () => void;
   setConfigJson: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  setConfigYaml: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
   updateConfig: (event: any) => void;
   setTabState: (state: ConfigJsonModalTabState) => () => void;
 }
@@ -26,32 +31,45 @@ interface IConfigJsonDispatchProps {
 interface IConfigJsonStateProps {
   show: boolean;
   configJson: string;
+  configYaml: string;
   id: string;
   deserializationError: string;
   tabState: ConfigJsonModalTabState;
   diff: IJsonDiff;
+  schemaErrors: ISchemaErrorMarker[];
+}
+
+interface ISchemaErrorMarker {
+  path: string;
+  message: string;
+  // Line in the JSON editor.
+  line: number;
 }
 
 export enum ConfigJsonModalTabState {
   Edit,
   Diff,
+  Yaml,
 }
 
 /*
  * Modal for viewing canary config JSON.
  */
-function ConfigJsonModal({ show, configJson, id, deserializationError, closeModal, setConfigJson, updateConfig, setTabState, tabState, diff }: IConfigJsonDispatchProps & IConfigJsonStateProps) {
+function ConfigJsonModal({ show, configJson, configYaml, id, deserializationError, schemaErrors, closeModal, setConfigJson, setConfigYaml, updateConfig, setTabState, tabState, diff }: IConfigJsonDispatchProps & IConfigJsonStateProps) {
   return (
     <Modal show={show} onHide={onHide} bsSize="large">
       <Styleguide>
         <Modal.Header>
-          <Modal.Title>JSON</Modal.Title>
+          <Modal.Title>{tabState === ConfigJsonModalTabState.Yaml ? 'YAML' : 'JSON'}</Modal.Title>
         </Modal.Header>
           <Modal.Body>
             <section>
               <Tabs>
                 <Tab selected={tabState === ConfigJsonModalTabState.Edit}>
-                  <a onClick={setTabState(ConfigJsonModalTabState.Edit)}>Edit</a>
+                  <a onClick={setTabState(ConfigJsonModalTabState.Edit)}>Edit JSON</a>
+                </Tab>
+                <Tab selected={tabState === ConfigJsonModalTabState.Yaml}>
+                  <a onClick={setTabState(ConfigJsonModalTabState.Yaml)}>Edit YAML</a>
                 </Tab>
                 <Tab selected={tabState === ConfigJsonModalTabState.Diff}>
                   <a onClick={setTabState(ConfigJsonModalTabState.Diff)}>Diff</a>
@@ -69,6 +87,16 @@ function ConfigJsonModal({ show, configJson, id, deserializationError, closeModa
                   disabledStateKeys={[DISABLE_EDIT_CONFIG]}
                 />
               )}
+              {tabState === ConfigJsonModalTabState.Yaml && configYaml !== null && (
+                <DisableableTextarea
+                  rows={configYaml.split('\n').length}
+                  className="form-control code flex-fill"
+                  spellCheck={false}
+                  value={configYaml}
+                  onChange={setConfigYaml}
+                  disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+                />
+              )}
               {tabState === ConfigJsonModalTabState.Diff && !deserializationError && (
                 <div className="modal-show-history">
                   <div className="show-history">
@@ -76,6 +104,18 @@ function ConfigJsonModal({ show, configJson, id, deserializationError, closeModa
                   </div>
                 </div>
               )}
+              {tabState !== ConfigJsonModalTabState.Diff && !!schemaErrors.length && (
+                <ul className="list-unstyled schema-errors">
+                  {schemaErrors.map(e => (
+                    <li key={e.path + e.message} className="error-message">
+                      {tabState === ConfigJsonModalTabState.Edit && e.line && (
+                        <span className="line-marker">Line {e.line}</span>
+                      )}
+                      <code>{e.path || 'config'}</code> {e.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
               {!!deserializationError && (
                 <div className="horizontal row center">
                   <span className="error-message">Error: {deserializationError}</span>
@@ -94,7 +134,7 @@ function ConfigJsonModal({ show, configJson, id, deserializationError, closeModa
                 data-id={id}
                 data-serialized={configJson}
                 onClick={updateConfig}
-                disabled={!!deserializationError}
+                disabled={!!deserializationError || !!schemaErrors.length}
               >Update
               </button>
             </li>
@@ -110,12 +150,14 @@ function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigJs
     closeModal: () => dispatch(Creators.closeConfigJsonModal()),
     setTabState: (state: ConfigJsonModalTabState) => () => dispatch(Creators.setConfigJsonModalTabState({ state })),
     setConfigJson: (event: React.ChangeEvent<HTMLTextAreaElement>) => dispatch(Creators.setConfigJson({ json: event.target.value })),
+    setConfigYaml: (event: React.ChangeEvent<HTMLTextAreaElement>) => dispatch(Creators.setConfigYaml({ yaml: event.target.value })),
     updateConfig: (event: any) => {
       dispatch(Creators.selectConfig({
         config: {
           id: event.target.dataset.id,
           ...JSON.parse(event.target.dataset.serialized)
         },
+        undoable: true,
       }));
     }
   };
@@ -129,17 +171,48 @@ function mapStateToProps(state: ICanaryState): IConfigJsonStateProps {
 
   const configJson = state.selectedConfig.json.configJson
     || jsonUtilityService.makeSortedStringFromObject(omit(mapStateToConfig(state) || {}, 'id'));
+  const show = state.app.configJsonModalOpen;
 
   return {
     configJson,
+    configYaml: state.selectedConfig.json.configYaml !== null
+      ? state.selectedConfig.json.configYaml
+      : buildConfigYaml(configJson),
     id,
-    show: state.app.configJsonModalOpen,
+    show,
     deserializationError: state.selectedConfig.json.error,
+    schemaErrors: show && !state.selectedConfig.json.error ? buildSchemaErrorMarkers(configJson) : [],
     tabState: state.app.configJsonModalTabState,
     diff: state.selectedConfig.json.error ? null : jsonUtilityService.diff(persistedConfig, configJson, true),
   };
 }
 
+// The YAML view is derived from the JSON until it's edited directly. If the JSON
+// doesn't parse, there's nothing to show except the deserialization error.
+const buildConfigYaml = (configJson: string): string => {
+  try {
+    return toYaml(JSON.parse(configJson));
+  } catch (e) {
+    return null;
+  }
+};
+
+const buildSchemaErrorMarkers = (configJson: string): ISchemaErrorMarker[] => {
+  let config: ICanaryConfig;
+  try {
+    config = JSON.parse(configJson);
+  } catch (e) {
+    return [];
+  }
+
+  const lines = locateJsonPaths(configJson);
+  return validateConfigSchema(config).map(error => ({
+    path: formatJsonPath(error.path),
+    message: error.message,
+    line: findLineOfPath(lines, error.path),
+  }));
+};
+
 const onHide = (): void => null;
 
 export default connect(mapStateToProps, mapDispatchToProps)(ConfigJsonModal);
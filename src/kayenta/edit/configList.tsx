@@ -1,11 +1,15 @@
 import * as React from 'react';
+import { Action } from 'redux';
 import { connect } from 'react-redux';
 import { sortBy } from 'lodash';
 import { UISref, UISrefActive } from '@uirouter/react';
 
 import { ICanaryState } from 'kayenta/reducers';
 import { ICanaryConfigSummary } from 'kayenta/domain/ICanaryConfigSummary';
+import * as Creators from 'kayenta/actions/creators';
 import CreateConfigButton from './createConfigButton';
+import ConfigBundleButtons from './configBundleButtons';
+import ImportConfigsModal from './importConfigsModal';
 import FormattedDate from 'kayenta/layout/formattedDate';
 import { OwnedBy } from './ownedBy';
 
@@ -13,17 +17,32 @@ interface IConfigListStateProps {
   configs: ICanaryConfigSummary[];
   selectedConfigId: string;
   application: string;
+  exportEnabled: boolean;
+  selectedForExport: string[];
+}
+
+interface IConfigListDispatchProps {
+  selectForExport: (event: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
 /*
  * Shows a list of available configurations the user can select for editing.
  */
-function ConfigList({ configs, selectedConfigId, application }: IConfigListStateProps) {
+function ConfigList({ configs, selectedConfigId, application, exportEnabled, selectedForExport, selectForExport }: IConfigListStateProps & IConfigListDispatchProps) {
   return (
     <section className="config-list">
       <ul className="tabs-vertical list-unstyled" style={{ wordBreak: 'break-all' }}>
         {configs.map(config => (
           <li key={config.id} className={config.id === selectedConfigId ? 'selected' : ''}>
+            {exportEnabled && (
+              <input
+                type="checkbox"
+                className="pull-right"
+                data-id={config.id}
+                checked={selectedForExport.includes(config.id)}
+                onChange={selectForExport}
+              />
+            )}
             <UISrefActive class="active">
               <UISref to=".configDetail" params={{ id: config.id, 'new': false, copy: false }}>
                 <a className="heading-4">{config.name}</a>
@@ -40,6 +59,8 @@ function ConfigList({ configs, selectedConfigId, application }: IConfigListState
         ))}
       </ul>
       <CreateConfigButton/>
+      <ConfigBundleButtons/>
+      <ImportConfigsModal/>
     </section>
   );
 }
@@ -51,8 +72,16 @@ function mapStateToProps(state: ICanaryState): IConfigListStateProps {
     selectedConfigId,
     configs: sortBy(state.data.configSummaries, 'name'),
     application,
+    exportEnabled: state.configBundle.export.enabled,
+    selectedForExport: state.configBundle.export.selected,
   };
 }
 
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigListDispatchProps {
+  return {
+    selectForExport: (event: React.ChangeEvent<HTMLInputElement>) =>
+      dispatch(Creators.selectConfigForExport({ id: event.target.dataset.id, selected: event.target.checked })),
+  };
+}
 
-export default connect(mapStateToProps)(ConfigList);
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigList);
@@ -0,0 +1,113 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+import { isUndefined } from 'lodash';
+
+import { jsonUtilityService } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryConfig } from 'kayenta/domain';
+import { IMergeConflict, IMergeResolutions, MergeSide } from 'kayenta/service/configMerge.service';
+import Styleguide from 'kayenta/layout/styleguide';
+import FormattedDate from 'kayenta/layout/formattedDate';
+
+import './configMergeModal.less';
+
+interface IConfigMergeModalStateProps {
+  theirs: ICanaryConfig;
+  conflicts: IMergeConflict[];
+  resolutions: IMergeResolutions;
+}
+
+interface IConfigMergeModalDispatchProps {
+  resolve: (key: string, side: MergeSide) => void;
+  confirm: () => void;
+  cancel: () => void;
+}
+
+const formatValue = (value: any): string =>
+  isUndefined(value) ? '(none)' : jsonUtilityService.makeSortedStringFromObject(value);
+
+/*
+ * Resolves conflicts between the user's edits and a version of the config someone else saved in the meantime.
+ */
+function ConfigMergeModal({ theirs, conflicts, resolutions, resolve, confirm, cancel }: IConfigMergeModalStateProps & IConfigMergeModalDispatchProps) {
+  if (!theirs) {
+    return null;
+  }
+
+  const isResolved = conflicts.every(c => !!resolutions[c.key]);
+  return (
+    <Modal show={true} onHide={cancel} bsSize="large">
+      <Styleguide>
+        <Modal.Header>
+          <Modal.Title>Config changed since it was loaded</Modal.Title>
+        </Modal.Header>
+        <Modal.Body className="kayenta-config-merge">
+          <p>
+            {theirs.name} was saved by someone else at{' '}
+            <FormattedDate dateIso={theirs.updatedTimestampIso}/>.
+            Their changes will be combined with yours.
+          </p>
+          {!conflicts.length && <p>None of their changes conflict with yours.</p>}
+          {!!conflicts.length && <p>Choose which version to keep where you both changed the same thing:</p>}
+          {conflicts.map(conflict => (
+            <section key={conflict.key} className="merge-conflict">
+              <h5>{conflict.kind}: <strong>{conflict.name}</strong></h5>
+              <div className="horizontal">
+                <div className="merge-version">
+                  <label>Original</label>
+                  <pre>{formatValue(conflict.base)}</pre>
+                </div>
+                {[MergeSide.Theirs, MergeSide.Mine].map(side => (
+                  <div key={side} className="merge-version">
+                    <label className="clickable">
+                      <input
+                        type="radio"
+                        name={conflict.key}
+                        checked={resolutions[conflict.key] === side}
+                        onChange={() => resolve(conflict.key, side)}
+                      />
+                      {' '}{side === MergeSide.Theirs ? 'Keep theirs' : 'Keep mine'}
+                    </label>
+                    <pre>{formatValue(side === MergeSide.Theirs ? conflict.theirs : conflict.mine)}</pre>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </Modal.Body>
+        <Modal.Footer>
+          <ul className="list-inline pull-right">
+            <li>
+              <button className="passive" onClick={cancel}>Cancel</button>
+            </li>
+            <li>
+              <button className="primary" disabled={!isResolved} onClick={confirm}>Merge and Save</button>
+            </li>
+          </ul>
+        </Modal.Footer>
+      </Styleguide>
+    </Modal>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IConfigMergeModalStateProps {
+  const { merge } = state.selectedConfig;
+  return {
+    theirs: merge ? merge.theirs : null,
+    conflicts: merge ? merge.conflicts : [],
+    resolutions: merge ? merge.resolutions : {},
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigMergeModalDispatchProps {
+  return {
+    resolve: (key: string, side: MergeSide) => dispatch(Creators.selectConfigMergeResolution({ key, side })),
+    confirm: () => dispatch(Creators.confirmConfigMerge()),
+    cancel: () => dispatch(Creators.cancelConfigMerge()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigMergeModal);
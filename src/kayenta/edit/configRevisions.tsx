@@ -0,0 +1,111 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { omit } from 'lodash';
+
+import { jsonUtilityService, NgReact, IJsonDiff } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryConfig } from 'kayenta/domain';
+import { IConfigRevision } from 'kayenta/service/configRevision.service';
+import FormattedDate from 'kayenta/layout/formattedDate';
+import { DisableableButton, DISABLE_EDIT_CONFIG } from 'kayenta/layout/disableable';
+
+const { DiffView } = NgReact;
+
+import './configJson.less';
+import './configRevisions.less';
+
+interface IConfigRevisionsStateProps {
+  revisions: IConfigRevision[];
+  selected: IConfigRevision;
+  current: string;
+  diff: IJsonDiff;
+}
+
+interface IConfigRevisionsDispatchProps {
+  select: (updatedTimestampIso: string) => void;
+  restore: (revision: IConfigRevision) => void;
+}
+
+// Timestamps change on every save, so they'd show up in every diff.
+const serialize = (config: ICanaryConfig): string =>
+  jsonUtilityService.makeSortedStringFromObject(
+    omit(config || {}, ['id', 'createdTimestamp', 'createdTimestampIso', 'updatedTimestamp', 'updatedTimestampIso']),
+  );
+
+/*
+ * Lists saved revisions of a config, showing what changed in each.
+ */
+function ConfigRevisions({ revisions, selected, current, diff, select, restore }: IConfigRevisionsStateProps & IConfigRevisionsDispatchProps) {
+  if (!revisions.length) {
+    return <p>No revisions of this config have been recorded yet.</p>;
+  }
+
+  return (
+    <div className="horizontal config-revisions">
+      <ul className="list-unstyled revision-list">
+        {revisions.map(r => (
+          <li key={r.updatedTimestampIso} className={r === selected ? 'selected' : ''}>
+            <a className="clickable" onClick={() => select(r.updatedTimestampIso)}>
+              <FormattedDate dateIso={r.updatedTimestampIso}/>
+            </a>
+            {r.updatedTimestampIso === current && <span className="badge">current</span>}
+          </li>
+        ))}
+      </ul>
+      {selected && (
+        <div className="revision-detail">
+          <div className="horizontal space-between">
+            <h5 className="heading-5">
+              {selected === revisions[revisions.length - 1]
+                ? 'Oldest recorded revision'
+                : 'Changes from the previous revision'}
+            </h5>
+            <DisableableButton
+              className="passive"
+              disabled={selected.updatedTimestampIso === current}
+              disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+              onClick={() => restore(selected)}
+            >
+              Restore this revision
+            </DisableableButton>
+          </div>
+          <section className="kayenta-config-json">
+            <div className="modal-show-history">
+              <div className="show-history">
+                <DiffView diff={diff}/>
+              </div>
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IConfigRevisionsStateProps {
+  const { list, selected } = state.selectedConfig.revisions;
+  const index = list.findIndex(r => r.updatedTimestampIso === selected);
+  const revision = list[index];
+  const previous = list[index + 1];
+  const persisted = state.data.configs.find(c => c.id === state.selectedConfig.config.id);
+
+  return {
+    revisions: list,
+    selected: revision,
+    current: persisted ? persisted.updatedTimestampIso : null,
+    diff: revision
+      ? jsonUtilityService.diff(previous ? serialize(previous.config) : '', serialize(revision.config), true)
+      : null,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IConfigRevisionsDispatchProps {
+  return {
+    select: (updatedTimestampIso: string) => dispatch(Creators.selectConfigRevision({ updatedTimestampIso })),
+    restore: (revision: IConfigRevision) => dispatch(Creators.restoreConfigRevision({ revision })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigRevisions);
@@ -0,0 +1,23 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+
+import LoadStatesBuilder from 'kayenta/components/loadStates';
+import { ICanaryState } from 'kayenta/reducers/index';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import ConfigRevisions from './configRevisions';
+
+const ConfigRevisionsLoadStates = ({ state }: { state: AsyncRequestState }) => {
+  const LoadStates = new LoadStatesBuilder()
+    .onFulfilled(<ConfigRevisions/>)
+    .onFailed(
+      <h3 className="heading-3 text-center">Could not load config history.</h3>
+    ).build();
+
+  return <LoadStates state={state}/>;
+};
+
+const mapStateToProps = (state: ICanaryState) => ({
+  state: state.selectedConfig.revisions.load,
+});
+
+export default connect(mapStateToProps)(ConfigRevisionsLoadStates);
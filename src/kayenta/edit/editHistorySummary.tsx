@@ -0,0 +1,52 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+import { Action } from 'redux';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+
+interface IEditHistorySummaryStateProps {
+  undoCount: number;
+  redoCount: number;
+  inSyncWithServer: boolean;
+}
+
+interface IEditHistorySummaryDispatchProps {
+  undo: () => void;
+  redo: () => void;
+}
+
+/*
+ * Summarizes the config's undo/redo history in the footer.
+ */
+function EditHistorySummary({ undoCount, redoCount, inSyncWithServer, undo, redo }: IEditHistorySummaryStateProps & IEditHistorySummaryDispatchProps) {
+  if (inSyncWithServer && !undoCount && !redoCount) {
+    return null;
+  }
+
+  return (
+    <span className="edit-history-summary">
+      {undoCount} edit{undoCount === 1 ? '' : 's'}
+      {!!undoCount && <a className="clickable" onClick={undo}> [undo]</a>}
+      {!!redoCount && <a className="clickable" onClick={redo}> [redo]</a>}
+    </span>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IEditHistorySummaryStateProps {
+  const { history, isInSyncWithServer } = state.selectedConfig;
+  return {
+    undoCount: history.past.length,
+    redoCount: history.future.length,
+    inSyncWithServer: isInSyncWithServer,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IEditHistorySummaryDispatchProps {
+  return {
+    undo: () => dispatch(Creators.undoConfigEdit()),
+    redo: () => dispatch(Creators.redoConfigEdit()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(EditHistorySummary);
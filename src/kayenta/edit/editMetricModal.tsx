@@ -1,18 +1,19 @@
 import * as React from 'react';
 import { connect } from 'react-redux';
 import { Modal } from 'react-bootstrap';
-import { get } from 'lodash';
+import { get, uniq } from 'lodash';
 import { Option } from 'react-select';
 import { noop } from '@spinnaker/core';
 import * as Creators from 'kayenta/actions/creators';
 import { ICanaryState } from 'kayenta/reducers';
 import { ICanaryMetricConfig } from 'kayenta/domain';
 import MetricConfigurerDelegator from './metricConfigurerDelegator';
+import MetricPreview from './metricPreview';
 import metricStoreConfigService from 'kayenta/metricStore/metricStoreConfig.service';
 import Styleguide from 'kayenta/layout/styleguide';
 import FormRow from 'kayenta/layout/formRow';
 import { DisableableInput, DisableableSelect, DisableableReactSelect, DISABLE_EDIT_CONFIG } from 'kayenta/layout/disableable';
-import { configTemplatesSelector } from 'kayenta/selectors';
+import { configTemplatesSelector, metricStoresSelector } from 'kayenta/selectors';
 import { CanarySettings } from 'kayenta/canary.settings';
 
 import './editMetricModal.less';
@@ -25,6 +26,7 @@ interface IEditMetricModalDispatchProps {
   cancel: () => void;
   selectTemplate: (template: Option) => void;
   updateScopeName: (event: any) => void;
+  updateMetricStore: (event: any) => void;
 }
 
 interface IEditMetricModalStateProps {
@@ -32,6 +34,7 @@ interface IEditMetricModalStateProps {
   templates: Option[];
   filterTemplate: string;
   groups: string[];
+  metricStores: string[];
 }
 
 function DirectionChoice({ value, label, current, action }: { value: string, label: string, current: string, action: (event: any) => void }) {
@@ -82,7 +85,7 @@ function FilterTemplateSelector({ metricStore, template, templates, select }: IF
 /*
  * Modal to edit metric details.
  */
-function EditMetricModal({ metric, rename, changeGroup, groups, confirm, cancel, updateDirection, templates, selectTemplate, filterTemplate, updateScopeName }: IEditMetricModalDispatchProps & IEditMetricModalStateProps) {
+function EditMetricModal({ metric, rename, changeGroup, groups, confirm, cancel, updateDirection, templates, selectTemplate, filterTemplate, updateScopeName, metricStores, updateMetricStore }: IEditMetricModalDispatchProps & IEditMetricModalStateProps) {
   if (!metric) {
     return null;
   }
@@ -130,6 +133,21 @@ function EditMetricModal({ metric, rename, changeGroup, groups, confirm, cancel,
               disabledStateKeys={[DISABLE_EDIT_CONFIG]}
             />
           </FormRow>
+          <FormRow label="Metric Store">
+            <DisableableSelect
+              value={metric.query.type || ''}
+              onChange={updateMetricStore}
+              className="form-control input-sm"
+              disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+            >
+              {
+                // Keep the metric's own store selectable even if it has no accounts.
+                uniq([metric.query.type, ...metricStores]).filter(s => !!s).map(s => (
+                  <option key={s} value={s}>{s}</option>
+                ))
+              }
+            </DisableableSelect>
+          </FormRow>
           <FormRow label="Fail on">
             <DirectionChoice value="increase" label="increase" current={direction} action={updateDirection}/>
             <DirectionChoice value="decrease" label="decrease" current={direction} action={updateDirection}/>
@@ -150,6 +168,7 @@ function EditMetricModal({ metric, rename, changeGroup, groups, confirm, cancel,
             />
           </FormRow>
           <MetricConfigurerDelegator/>
+          <MetricPreview/>
         </Modal.Body>
         <Modal.Footer>
           <ul className="list-inline pull-right">
@@ -190,7 +209,9 @@ function mapDispatchToProps(dispatch: any): IEditMetricModalDispatchProps {
     selectTemplate: (template: Option) =>
       dispatch(Creators.selectTemplate({ name: template ? template.value as string : null })),
     updateScopeName: (event: any) =>
-      dispatch(Creators.updateMetricScopeName({ scopeName: event.target.value }))
+      dispatch(Creators.updateMetricScopeName({ scopeName: event.target.value })),
+    updateMetricStore: (event: any) =>
+      dispatch(Creators.updateMetricStore({ store: event.target.value })),
   };
 }
 
@@ -202,6 +223,7 @@ function mapStateToProps(state: ICanaryState): IEditMetricModalStateProps {
     })),
     filterTemplate: get(state, 'selectedConfig.editingMetric.query.customFilterTemplate'),
     groups: state.selectedConfig.group.list.sort(),
+    metricStores: metricStoresSelector(state),
   };
 }
 
@@ -0,0 +1,166 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+import * as classNames from 'classnames';
+
+import { SubmitButton } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import { getImportErrors, IImportedConfig } from 'kayenta/reducers/configBundle';
+import { IConfigValidationError } from 'kayenta/reducers/validators';
+import Styleguide from 'kayenta/layout/styleguide';
+
+import './importConfigsModal.less';
+
+interface IImportedConfigRow extends IImportedConfig {
+  errors: IConfigValidationError[];
+}
+
+interface IImportConfigsModalStateProps {
+  show: boolean;
+  fileName: string;
+  parseError: string;
+  rows: IImportedConfigRow[];
+  importing: boolean;
+}
+
+interface IImportConfigsModalDispatchProps {
+  close: () => void;
+  loadFile: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  toggle: (index: number) => () => void;
+  rename: (index: number) => (event: React.ChangeEvent<HTMLInputElement>) => void;
+  importConfigs: () => void;
+}
+
+const ImportStatus = ({ row }: { row: IImportedConfigRow }) => {
+  switch (row.state) {
+    case AsyncRequestState.Fulfilled:
+      return <span className="success-message"><i className="fa fa-check"/> Imported</span>;
+    case AsyncRequestState.Failed:
+      return <span className="error-message">Import failed: {row.error}</span>;
+    default:
+      return row.errors.length
+        ? (
+          <ul className="list-unstyled error-message">
+            {row.errors.map(e => <li key={e.message}>{e.message}</li>)}
+          </ul>
+        )
+        : <span>Ready to import</span>;
+  }
+};
+
+/*
+ * Modal for importing canary configs from a JSON or YAML file.
+ */
+function ImportConfigsModal({ show, fileName, parseError, rows, importing, close, loadFile, toggle, rename, importConfigs }: IImportConfigsModalStateProps & IImportConfigsModalDispatchProps) {
+  const importCount = rows.filter(r => r.include && !r.errors.length).length;
+  return (
+    <Modal show={show} onHide={close} bsSize="large">
+      <Styleguide>
+        <Modal.Header>
+          <Modal.Title>Import configurations</Modal.Title>
+        </Modal.Header>
+        <Modal.Body className="kayenta-import-configs">
+          <p>
+            Choose a JSON or YAML file containing one or more canary configs.
+            Imported configs are added to this application.
+          </p>
+          <input type="file" accept=".json,.yml,.yaml" onChange={loadFile} disabled={importing}/>
+          {parseError && (
+            <p className="error-message">Could not read {fileName}: {parseError}</p>
+          )}
+          {!!rows.length && (
+            <table className="table">
+              <thead>
+                <tr>
+                  <th/>
+                  <th>Name</th>
+                  <th>Metrics</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={index}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        disabled={importing || row.state === AsyncRequestState.Fulfilled}
+                        onChange={toggle(index)}
+                      />
+                    </td>
+                    <td className={classNames({ 'has-error': row.include && row.errors.length > 0 })}>
+                      <input
+                        type="text"
+                        className="form-control input-sm"
+                        value={row.config.name}
+                        disabled={importing || row.state === AsyncRequestState.Fulfilled}
+                        onChange={rename(index)}
+                      />
+                    </td>
+                    <td>{row.config.metrics.length}</td>
+                    <td><ImportStatus row={row}/></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Modal.Body>
+        <Modal.Footer>
+          <ul className="list-inline pull-right">
+            <li>
+              <button className="passive" onClick={close} disabled={importing}>Close</button>
+            </li>
+            <li>
+              <SubmitButton
+                label={`Import ${importCount || ''} configuration${importCount === 1 ? '' : 's'}`}
+                onClick={importConfigs}
+                isDisabled={!importCount || importing}
+                submitting={importing}
+              />
+            </li>
+          </ul>
+        </Modal.Footer>
+      </Styleguide>
+    </Modal>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IImportConfigsModalStateProps {
+  const { open, fileName, parseError, configs, state: importState } = state.configBundle.import;
+  return {
+    show: open,
+    fileName,
+    parseError,
+    importing: importState === AsyncRequestState.Requesting,
+    rows: configs.map((imported, index) => ({
+      ...imported,
+      errors: getImportErrors(state, index),
+    })),
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IImportConfigsModalDispatchProps {
+  return {
+    close: () => dispatch(Creators.closeConfigImportModal()),
+    loadFile: (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files[0];
+      if (!file) {
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.onload = () => dispatch(Creators.loadConfigBundle({ contents: reader.result as string, fileName: file.name }));
+      reader.readAsText(file);
+    },
+    toggle: (index: number) => () => dispatch(Creators.toggleImportedConfig({ index })),
+    rename: (index: number) => (event: React.ChangeEvent<HTMLInputElement>) =>
+      dispatch(Creators.renameImportedConfig({ index, name: event.target.value })),
+    importConfigs: () => dispatch(Creators.importConfigsRequest()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(ImportConfigsModal);
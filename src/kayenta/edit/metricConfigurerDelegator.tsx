@@ -1,7 +1,7 @@
 import * as React from 'react';
 import { connect } from 'react-redux';
 import { ICanaryMetricConfig } from '../domain/ICanaryConfig';
-import metricStoreConfigService from '../metricStore/metricStoreConfig.service';
+import { getMetricStoreConfig } from '../metricStore/metricStoreConfig.service';
 import { ICanaryState } from '../reducers/index';
 
 interface IMetricConfigurerDelegatorStateProps {
@@ -9,20 +9,12 @@ interface IMetricConfigurerDelegatorStateProps {
 }
 
 /*
-* Should find and render the appropriate metric configurer for a given metric store.
+* Should find and render the appropriate metric configurer for a given metric store,
+* falling back to a raw query editor for stores without one.
 * */
 function MetricConfigurerDelegator({ editingMetric }: IMetricConfigurerDelegatorStateProps) {
-  const config = metricStoreConfigService.getDelegate(editingMetric.query.type);
-  if (config && config.metricConfigurer) {
-    const MetricConfigurer = config.metricConfigurer;
-    return <MetricConfigurer/>;
-  } else {
-    return (
-      <p>
-        Metric configuration has not been implemented for {editingMetric.query.type}.
-      </p>
-    );
-  }
+  const MetricConfigurer = getMetricStoreConfig(editingMetric.query.type).metricConfigurer;
+  return <MetricConfigurer/>;
 }
 
 function mapStateToProps(state: ICanaryState): IMetricConfigurerDelegatorStateProps {
@@ -0,0 +1,142 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+
+import { noop } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import Styleguide from 'kayenta/layout/styleguide';
+import FormattedDate from 'kayenta/layout/formattedDate';
+import LoadStatesBuilder from 'kayenta/components/loadStates';
+import { IMetricLibraryEntry, searchMetricLibrary } from 'kayenta/service/metricLibrary.service';
+
+import './metricLibrary.less';
+
+interface IMetricLibraryModalStateProps {
+  show: boolean;
+  entries: IMetricLibraryEntry[];
+  totalEntries: number;
+  searchText: string;
+  load: AsyncRequestState;
+  error: string;
+  disableEdit: boolean;
+}
+
+interface IMetricLibraryModalDispatchProps {
+  search: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  insert: (entry: IMetricLibraryEntry) => void;
+  remove: (entry: IMetricLibraryEntry) => void;
+  close: () => void;
+}
+
+const MetricLibraryEntry = ({ entry, disableEdit, insert, remove }: { entry: IMetricLibraryEntry, disableEdit: boolean, insert: () => void, remove: () => void }) => (
+  <li className="metric-library-entry">
+    <div className="horizontal middle">
+      <strong className="flex-1">{entry.metric.name || '(unnamed)'}</strong>
+      <span className="label label-default">{entry.application ? entry.application : 'global'}</span>
+      <button className="passive" disabled={disableEdit} onClick={insert}>Insert</button>
+      <i className="fa fa-trash clickable" title="Delete from the library" onClick={remove}/>
+    </div>
+    <div className="metric-library-entry-details text-muted">
+      {entry.metric.query.type}
+      {entry.metric.groups.length ? ` · ${entry.metric.groups.join(', ')}` : ''}
+      {' · '}updated <FormattedDate dateIso={entry.updatedTimestampIso}/>
+    </div>
+  </li>
+);
+
+/*
+ * Lists the metric definitions saved for this application or for every application,
+ * and inserts copies of them into the config.
+ */
+function MetricLibraryModal({ show, entries, totalEntries, searchText, load, error, disableEdit, search, insert, remove, close }: IMetricLibraryModalStateProps & IMetricLibraryModalDispatchProps) {
+  if (!show) {
+    return null;
+  }
+
+  let fulfilled: JSX.Element;
+  if (!totalEntries) {
+    fulfilled = (
+      <p className="metric-library-empty">
+        The library is empty. Metrics can be saved to it from the metric list.
+      </p>
+    );
+  } else if (!entries.length) {
+    fulfilled = <p className="metric-library-empty">No metrics match "{searchText}".</p>;
+  } else {
+    fulfilled = (
+      <ul className="list-unstyled metric-library-entries">
+        {entries.map(entry => (
+          <MetricLibraryEntry
+            key={entry.id}
+            entry={entry}
+            disableEdit={disableEdit}
+            insert={() => insert(entry)}
+            remove={() => remove(entry)}
+          />
+        ))}
+      </ul>
+    );
+  }
+
+  const LoadStates = new LoadStatesBuilder()
+    .onFulfilled(fulfilled)
+    .onFailed(<p className="error-message">Could not load the metric library{error ? `: ${error}` : '.'}</p>)
+    .build();
+
+  return (
+    <Modal show={true} onHide={noop} className="kayenta-metric-library-modal">
+      <Styleguide>
+        <Modal.Header>
+          <Modal.Title>Metric Library</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <input
+            type="search"
+            className="form-control input-sm"
+            value={searchText}
+            placeholder="Search by name, metric store, group or query"
+            onChange={search}
+            autoFocus={true}
+          />
+          {load === AsyncRequestState.Fulfilled && error && (
+            <p className="error-message">{error}</p>
+          )}
+          <LoadStates state={load}/>
+        </Modal.Body>
+        <Modal.Footer>
+          <ul className="list-inline pull-right">
+            <li><button className="passive" onClick={close}>Close</button></li>
+          </ul>
+        </Modal.Footer>
+      </Styleguide>
+    </Modal>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IMetricLibraryModalStateProps {
+  const { browseModalOpen, entries, searchText, load, error } = state.metricLibrary;
+  return {
+    show: browseModalOpen,
+    entries: searchMetricLibrary(entries, searchText),
+    totalEntries: entries.length,
+    searchText,
+    load,
+    error,
+    disableEdit: state.app.disableConfigEdit,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IMetricLibraryModalDispatchProps {
+  return {
+    search: (event: React.ChangeEvent<HTMLInputElement>) =>
+      dispatch(Creators.updateMetricLibrarySearch({ text: event.target.value })),
+    insert: (entry: IMetricLibraryEntry) => dispatch(Creators.insertLibraryMetric({ entry })),
+    remove: (entry: IMetricLibraryEntry) => dispatch(Creators.deleteMetricLibraryEntryRequest({ id: entry.id })),
+    close: () => dispatch(Creators.closeMetricLibraryModal()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(MetricLibraryModal);
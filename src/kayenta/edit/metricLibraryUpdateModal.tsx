@@ -0,0 +1,105 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+
+import { jsonUtilityService, noop, NgReact, IJsonDiff } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryMetricConfig } from 'kayenta/domain';
+import Styleguide from 'kayenta/layout/styleguide';
+import FormattedDate from 'kayenta/layout/formattedDate';
+import { findLibraryUpdate, IMetricLibraryEntry, toLibraryMetric } from 'kayenta/service/metricLibrary.service';
+
+const { DiffView } = NgReact;
+
+import './configJson.less';
+
+interface IMetricLibraryUpdateModalStateProps {
+  metric: ICanaryMetricConfig;
+  entry: IMetricLibraryEntry;
+  diff: IJsonDiff;
+  disableEdit: boolean;
+}
+
+interface IMetricLibraryUpdateModalDispatchProps {
+  apply: (id: string, entry: IMetricLibraryEntry) => void;
+  dismiss: (id: string, entry: IMetricLibraryEntry) => void;
+  close: () => void;
+}
+
+/*
+ * Shows how a metric differs from a newer version of the library entry it was copied from.
+ */
+function MetricLibraryUpdateModal({ metric, entry, diff, disableEdit, apply, dismiss, close }: IMetricLibraryUpdateModalStateProps & IMetricLibraryUpdateModalDispatchProps) {
+  if (!entry) {
+    return null;
+  }
+
+  return (
+    <Modal show={true} onHide={noop} bsSize="large">
+      <Styleguide>
+        <Modal.Header>
+          <Modal.Title>Library update for {metric.name}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <p>
+            The library entry this metric was copied from was updated on{' '}
+            <FormattedDate dateIso={entry.updatedTimestampIso}/>.
+            Applying the update replaces this metric's definition, including any changes made to it since.
+          </p>
+          <section className="kayenta-config-json">
+            <div className="modal-show-history">
+              <div className="show-history">
+                <DiffView diff={diff}/>
+              </div>
+            </div>
+          </section>
+        </Modal.Body>
+        <Modal.Footer>
+          <ul className="list-inline pull-right">
+            <li><button className="passive" onClick={close}>Cancel</button></li>
+            <li>
+              <button className="passive" disabled={disableEdit} onClick={() => dismiss(metric.id, entry)}>
+                Keep Mine
+              </button>
+            </li>
+            <li>
+              <button className="primary" disabled={disableEdit} onClick={() => apply(metric.id, entry)}>
+                Apply Update
+              </button>
+            </li>
+          </ul>
+        </Modal.Footer>
+      </Styleguide>
+    </Modal>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IMetricLibraryUpdateModalStateProps {
+  const { updatingMetric, entries } = state.metricLibrary;
+  const metric = state.selectedConfig.metricList.find(m => m.id === updatingMetric);
+  const entry = metric ? findLibraryUpdate(metric, entries) : null;
+  return {
+    metric,
+    entry,
+    diff: entry
+      ? jsonUtilityService.diff(
+          jsonUtilityService.makeSortedStringFromObject(toLibraryMetric(metric)),
+          jsonUtilityService.makeSortedStringFromObject(entry.metric),
+          true,
+        )
+      : null,
+    disableEdit: state.app.disableConfigEdit,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IMetricLibraryUpdateModalDispatchProps {
+  return {
+    apply: (id: string, entry: IMetricLibraryEntry) => dispatch(Creators.applyMetricLibraryUpdate({ id, entry })),
+    dismiss: (id: string, entry: IMetricLibraryEntry) => dispatch(Creators.dismissMetricLibraryUpdate({ id, entry })),
+    close: () => dispatch(Creators.closeMetricLibraryUpdateModal()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(MetricLibraryUpdateModal);
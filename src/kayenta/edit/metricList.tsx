@@ -2,22 +2,36 @@ import * as React from 'react';
 import { Action } from 'redux';
 import { connect } from 'react-redux';
 import * as classNames from 'classnames';
+import { uniq } from 'lodash';
 import { noop } from '@spinnaker/core';
 import { ICanaryMetricConfig } from 'kayenta/domain';
 import { ICanaryState } from 'kayenta/reducers';
 import * as Creators from 'kayenta/actions/creators';
 import { ITableColumn, Table } from 'kayenta/layout/table';
 import ChangeMetricGroupModal from './changeMetricGroupModal';
+import MetricLibraryModal from './metricLibraryModal';
+import SaveToMetricLibraryModal from './saveToMetricLibraryModal';
+import MetricLibraryUpdateModal from './metricLibraryUpdateModal';
 import { DISABLE_EDIT_CONFIG, DisableableButton } from 'kayenta/layout/disableable';
+import { getMetricValidationErrors, isBlocking } from 'kayenta/reducers/validators';
+import { isMetricStoreSupported } from 'kayenta/metricStore/metricStoreConfig.service';
+import { findLibraryUpdate } from 'kayenta/service/metricLibrary.service';
+
+import './metricList.less';
 
 interface IMetricListStateProps {
   selectedGroup: string;
   metrics: ICanaryMetricConfig[];
   showGroups: boolean;
+  showMetricStores: boolean;
   changingGroupMetric: ICanaryMetricConfig;
   groupList: string[];
   metricStore: string;
   disableEdit: boolean;
+  metricErrors: {[metricId: string]: string[]};
+  // Ids of metrics copied from library entries that have since been updated.
+  libraryUpdates: string[];
+  savingToLibrary: boolean;
 }
 
 interface IMetricListDispatchProps {
@@ -25,18 +39,46 @@ interface IMetricListDispatchProps {
   editMetric: (event: any) => void;
   removeMetric: (event: any) => void;
   openChangeMetricGroupModal: (event: any) => void;
+  openMetricLibraryModal: () => void;
+  openSaveToMetricLibraryModal: (event: any) => void;
+  openMetricLibraryUpdateModal: (event: any) => void;
 }
 
 /*
  * Configures an entire list of metrics.
  */
-function MetricList({ metrics, groupList, selectedGroup, showGroups, addMetric, editMetric, removeMetric, changingGroupMetric, openChangeMetricGroupModal, metricStore, disableEdit }: IMetricListStateProps & IMetricListDispatchProps) {
+function MetricList({ metrics, groupList, selectedGroup, showGroups, showMetricStores, addMetric, editMetric, removeMetric, changingGroupMetric, openChangeMetricGroupModal, metricStore, disableEdit, metricErrors, libraryUpdates, savingToLibrary, openMetricLibraryModal, openSaveToMetricLibraryModal, openMetricLibraryUpdateModal }: IMetricListStateProps & IMetricListDispatchProps) {
 
   const columns: ITableColumn<ICanaryMetricConfig>[] = [
     {
       label: 'Metric Name',
       width: 6,
-      getContent: metric => <span>{metric.name || '(new)'}</span>,
+      getContent: metric => (
+        <span>
+          {metricErrors[metric.id] && (
+            <i className="fa fa-exclamation-triangle" title={metricErrors[metric.id].join('\n')}/>
+          )}
+          {metric.name || '(new)'}
+          {!isMetricStoreSupported(metric.query.type) && (
+            <span
+              className="label label-default unsupported-metric-store"
+              title={`There is no editor for ${metric.query.type} metrics; their queries can only be edited as raw JSON.`}
+            >
+              unsupported store: {metric.query.type}
+            </span>
+          )}
+          {libraryUpdates.includes(metric.id) && (
+            <span
+              className="label label-info library-update"
+              title="The library entry this metric was copied from has been updated."
+              data-id={metric.id}
+              onClick={openMetricLibraryUpdateModal}
+            >
+              library update
+            </span>
+          )}
+        </span>
+      ),
     },
     {
       label: 'Groups',
@@ -44,6 +86,12 @@ function MetricList({ metrics, groupList, selectedGroup, showGroups, addMetric,
       getContent: metric => <span>{metric.groups.join(', ')}</span>,
       hide: !showGroups,
     },
+    {
+      label: 'Metric Store',
+      width: 2,
+      getContent: metric => <span>{metric.query.type}</span>,
+      hide: !showMetricStores,
+    },
     {
       width: 1,
       getContent: metric => (
@@ -58,6 +106,14 @@ function MetricList({ metrics, groupList, selectedGroup, showGroups, addMetric,
             data-id={metric.id}
             onClick={openChangeMetricGroupModal}
           />
+          <i
+            className={classNames('fa', 'fa-book', {
+              disabled: disableEdit,
+            })}
+            title="Save to metric library"
+            data-id={metric.id}
+            onClick={disableEdit ? noop : openSaveToMetricLibraryModal}
+          />
           <i
             className={classNames('fa', 'fa-trash', {
               disabled: disableEdit,
@@ -76,6 +132,7 @@ function MetricList({ metrics, groupList, selectedGroup, showGroups, addMetric,
         columns={columns}
         rows={metrics}
         rowKey={metric => metric.id}
+        rowClassName={metric => classNames('horizontal', 'table-row', { 'metric-invalid': !!metricErrors[metric.id] })}
         headerClassName="background-white"
       />
       {(!metrics.length && selectedGroup) ? (
@@ -85,20 +142,47 @@ function MetricList({ metrics, groupList, selectedGroup, showGroups, addMetric,
         </p>
       ) : null}
       {changingGroupMetric && <ChangeMetricGroupModal metric={changingGroupMetric}/>}
-      <DisableableButton
-        className="passive"
-        data-group={selectedGroup}
-        data-default={groupList[0]}
-        data-metric-store={metricStore}
-        onClick={addMetric}
-        disabledStateKeys={[DISABLE_EDIT_CONFIG]}
-      >
-        Add Metric
-      </DisableableButton>
+      {savingToLibrary && <SaveToMetricLibraryModal/>}
+      <MetricLibraryModal/>
+      <MetricLibraryUpdateModal/>
+      <ul className="list-inline">
+        <li>
+          <DisableableButton
+            className="passive"
+            data-group={selectedGroup}
+            data-default={groupList[0]}
+            data-metric-store={metricStore}
+            onClick={addMetric}
+            disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+          >
+            Add Metric
+          </DisableableButton>
+        </li>
+        <li>
+          <DisableableButton
+            className="passive"
+            onClick={openMetricLibraryModal}
+            disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+          >
+            Add from Library
+          </DisableableButton>
+        </li>
+      </ul>
     </section>
   );
 }
 
+// Messages of save-blocking errors, keyed by the id of the metric they apply to.
+function getMetricErrors(state: ICanaryState): {[metricId: string]: string[]} {
+  const { metricList, validationErrors } = state.selectedConfig;
+  return metricList.reduce((errorsById, metric, index) => {
+    const errors = getMetricValidationErrors(validationErrors, index).filter(isBlocking);
+    return errors.length
+      ? { ...errorsById, [metric.id]: errors.map(e => e.message) }
+      : errorsById;
+  }, {} as {[metricId: string]: string[]});
+}
+
 function mapStateToProps(state: ICanaryState): IMetricListStateProps {
   const selectedGroup = state.selectedConfig.group.selected;
   const metricList = state.selectedConfig.metricList;
@@ -114,10 +198,16 @@ function mapStateToProps(state: ICanaryState): IMetricListStateProps {
     groupList: state.selectedConfig.group.list,
     metrics: metricList.filter(filter),
     showGroups: !selectedGroup || metricList.filter(filter).some(metric => metric.groups.length > 1),
+    showMetricStores: uniq(metricList.map(metric => metric.query.type)).length > 1,
     changingGroupMetric: state.selectedConfig.metricList.find(m =>
       m.id === state.selectedConfig.changeMetricGroup.metric),
     metricStore: state.selectedConfig.selectedStore,
     disableEdit: state.app.disableConfigEdit,
+    metricErrors: getMetricErrors(state),
+    libraryUpdates: metricList
+      .filter(metric => !!findLibraryUpdate(metric, state.metricLibrary.entries))
+      .map(metric => metric.id),
+    savingToLibrary: !!state.metricLibrary.savingMetric,
   };
 }
 
@@ -150,6 +240,11 @@ function mapDispatchToProps(dispatch: (action: Action & any) => void): IMetricLi
     },
     openChangeMetricGroupModal: (event: any) =>
       dispatch(Creators.changeMetricGroup({ id: event.target.dataset.id })),
+    openMetricLibraryModal: () => dispatch(Creators.openMetricLibraryModal()),
+    openSaveToMetricLibraryModal: (event: any) =>
+      dispatch(Creators.openSaveToMetricLibraryModal({ id: event.target.dataset.id })),
+    openMetricLibraryUpdateModal: (event: any) =>
+      dispatch(Creators.openMetricLibraryUpdateModal({ id: event.target.dataset.id })),
   };
 }
 
@@ -0,0 +1,173 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import autoBindMethods from 'class-autobind-decorator';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import FormRow from 'kayenta/layout/formRow';
+import LoadStatesBuilder from 'kayenta/components/loadStates';
+import { editingMetricAccountsSelector } from 'kayenta/selectors';
+import { DEFAULT_PREVIEW_STEP_SECONDS, IMetricPreview, IMetricPreviewParams } from 'kayenta/service/metricPreview.service';
+import { GraphType } from 'kayenta/report/detail/graph/metricSetPairGraph.service';
+import { getSupportedGraphTypes, MetricSetPairGraph } from 'kayenta/report/detail/graph/graph';
+
+import './metricPreview.less';
+
+interface IMetricPreviewStateProps {
+  params: IMetricPreviewParams;
+  accounts: string[];
+  load: AsyncRequestState;
+  preview: IMetricPreview;
+  error: string;
+}
+
+interface IMetricPreviewDispatchProps {
+  updateParams: (params: Partial<IMetricPreviewParams>) => void;
+  requestPreview: () => void;
+}
+
+type MetricPreviewProps = IMetricPreviewStateProps & IMetricPreviewDispatchProps;
+
+interface IMetricPreviewState {
+  graphType: GraphType;
+}
+
+/*
+ * Graphs what the metric being edited returns for sample scopes, without running a canary.
+ */
+@autoBindMethods
+class MetricPreview extends React.Component<MetricPreviewProps, IMetricPreviewState> {
+
+  public state: IMetricPreviewState = { graphType: GraphType.AmplitudeVsTime };
+
+  public onParamChange(event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) {
+    this.props.updateParams({ [event.target.dataset.param]: event.target.value });
+  }
+
+  public onStepChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const step = parseInt(event.target.value, 10);
+    this.props.updateParams({ step: isNaN(step) ? null : step });
+  }
+
+  public onGraphTypeChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    this.setState({ graphType: event.target.value as GraphType });
+  }
+
+  public render() {
+    const { params, accounts, load, requestPreview } = this.props;
+    const textParam = (param: keyof IMetricPreviewParams, placeholder?: string) => (
+      <input
+        type="text"
+        className="form-control input-sm"
+        value={params[param] as string || ''}
+        placeholder={placeholder}
+        data-param={param}
+        onChange={this.onParamChange}
+      />
+    );
+
+    return (
+      <section className="kayenta-metric-preview">
+        <h5 className="heading-5">Preview</h5>
+        {accounts.length > 1 && (
+          <FormRow label="Account">
+            <select
+              className="form-control input-sm"
+              value={params.metricsAccountName || accounts[0]}
+              data-param="metricsAccountName"
+              onChange={this.onParamChange}
+            >
+              {accounts.map(a => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </FormRow>
+        )}
+        <FormRow label="Baseline Scope">
+          {textParam('controlScope', 'e.g., myapp-v001')}
+        </FormRow>
+        <FormRow label="Canary Scope">
+          {textParam('experimentScope', '(optional)')}
+        </FormRow>
+        <FormRow label="Location">
+          {textParam('location', 'e.g., us-east-1')}
+        </FormRow>
+        <FormRow label="Time Range">
+          <div className="horizontal">
+            {textParam('startTimeIso', 'start, e.g., 2018-03-01T12:00:00Z')}
+            {textParam('endTimeIso', 'end (defaults to now)')}
+            <input
+              type="number"
+              min={1}
+              className="form-control input-sm metric-preview-step"
+              value={params.step || ''}
+              placeholder={`step (${DEFAULT_PREVIEW_STEP_SECONDS}s)`}
+              onChange={this.onStepChange}
+            />
+          </div>
+        </FormRow>
+        <FormRow>
+          <button
+            className="passive"
+            disabled={!params.controlScope || load === AsyncRequestState.Requesting}
+            onClick={requestPreview}
+          >
+            Preview
+          </button>
+        </FormRow>
+        {this.renderResult()}
+      </section>
+    );
+  }
+
+  private renderResult() {
+    const { load, preview, error } = this.props;
+    const { graphType } = this.state;
+    let fulfilled: JSX.Element = null;
+    if (preview && !preview.pair) {
+      fulfilled = <p className="metric-preview-empty">The query didn't return any data for these scopes and time range.</p>;
+    } else if (preview) {
+      fulfilled = (
+        <div>
+          <div className="horizontal middle metric-preview-graph-header">
+            {preview.seriesCount > 1 && (
+              <span className="flex-1">
+                The query returned {preview.seriesCount} series per scope; only the first is graphed.
+              </span>
+            )}
+            <select className="form-control input-sm" value={graphType} onChange={this.onGraphTypeChange}>
+              {getSupportedGraphTypes().map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </div>
+          <MetricSetPairGraph pair={preview.pair} result={null} graphType={graphType}/>
+        </div>
+      );
+    }
+
+    const LoadStates = new LoadStatesBuilder()
+      .onFulfilled(fulfilled)
+      .onFailed(<p className="error-message">Could not preview the metric{error ? `: ${error}` : '.'}</p>)
+      .build();
+    return <LoadStates state={load}/>;
+  }
+}
+
+function mapStateToProps(state: ICanaryState): IMetricPreviewStateProps {
+  const { params, load, preview, error } = state.selectedConfig.metricPreview;
+  return {
+    params,
+    accounts: editingMetricAccountsSelector(state),
+    load,
+    preview,
+    error,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IMetricPreviewDispatchProps {
+  return {
+    updateParams: (params: Partial<IMetricPreviewParams>) => dispatch(Creators.updateMetricPreviewParams({ params })),
+    requestPreview: () => dispatch(Creators.loadMetricPreviewRequest()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(MetricPreview);
@@ -1,10 +1,9 @@
 import * as React from 'react';
 import { connect, Dispatch } from 'react-redux';
-import { chain } from 'lodash';
 
 import { ICanaryState } from 'kayenta/reducers';
 import * as Creators from 'kayenta/actions/creators';
-import { KayentaAccountType } from 'kayenta/domain';
+import { metricStoresSelector } from 'kayenta/selectors';
 import FormRow from 'kayenta/layout/formRow';
 import { DisableableSelect, DISABLE_EDIT_CONFIG } from 'kayenta/layout/disableable';
 
@@ -23,7 +22,7 @@ const MetricStoreSelector = ({ stores, selectedStore, select }: IMetricStoreSele
   }
 
   return (
-    <FormRow label="Metric Store">
+    <FormRow label="Default Metric Store">
       <DisableableSelect
         value={selectedStore || ''}
         onChange={select}
@@ -42,12 +41,7 @@ const MetricStoreSelector = ({ stores, selectedStore, select }: IMetricStoreSele
 
 const mapStateToProps = (state: ICanaryState): IMetricStoreSelectorStateProps => {
   return {
-    stores: chain(state.data.kayentaAccounts.data)
-      .filter(account => account.supportedTypes.includes(KayentaAccountType.MetricsStore))
-      .map(account => account.metricsStoreType || account.type)
-      .uniq()
-      .sort()
-      .valueOf(),
+    stores: metricStoresSelector(state),
     selectedStore: state.selectedConfig.selectedStore,
   };
 };
@@ -0,0 +1,57 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+import { uniq } from 'lodash';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryClassifierThresholdsConfig } from 'kayenta/domain';
+import RunAnalysisModal from './runAnalysisModal';
+
+interface IRunAnalysisButtonStateProps {
+  disabled: boolean;
+  scopeNames: string[];
+  thresholds: ICanaryClassifierThresholdsConfig;
+}
+
+interface IRunAnalysisButtonDispatchProps {
+  openRunAnalysisModal: (scopeNames: string[], thresholds: ICanaryClassifierThresholdsConfig) => void;
+}
+
+/*
+ * Button for opening the modal that runs the saved config against sample scopes.
+ */
+function RunAnalysisButton({ disabled, scopeNames, thresholds, openRunAnalysisModal }: IRunAnalysisButtonStateProps & IRunAnalysisButtonDispatchProps) {
+  return (
+    <div>
+      <button
+        className="passive"
+        disabled={disabled}
+        title={disabled ? 'Save the config before running an analysis.' : null}
+        onClick={() => openRunAnalysisModal(scopeNames, thresholds)}
+      >
+        <i className="fa fa-play"/>
+        <span>Run analysis</span>
+      </button>
+      <RunAnalysisModal/>
+    </div>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IRunAnalysisButtonStateProps {
+  const { config, metricList, thresholds } = state.selectedConfig;
+  const scopeNames = uniq(metricList.map(metric => metric.scopeName || 'default'));
+  return {
+    disabled: !config || !config.id || !!config.isNew,
+    scopeNames: scopeNames.length ? scopeNames : ['default'],
+    thresholds,
+  };
+}
+
+function mapDispatchToProps(dispatch: any): IRunAnalysisButtonDispatchProps {
+  return {
+    openRunAnalysisModal: (scopeNames: string[], thresholds: ICanaryClassifierThresholdsConfig) =>
+      dispatch(Creators.openRunAnalysisModal({ scopeNames, thresholds })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(RunAnalysisButton);
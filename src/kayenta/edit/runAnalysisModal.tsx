@@ -0,0 +1,201 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import { KayentaAccountType } from 'kayenta/domain';
+import Styleguide from 'kayenta/layout/styleguide';
+import FormRow from 'kayenta/layout/formRow';
+import { IRunAnalysisParams, IRunAnalysisScopeParams } from 'kayenta/service/canaryRun.service';
+
+import './runAnalysisModal.less';
+
+interface IRunAnalysisModalStateProps {
+  show: boolean;
+  params: IRunAnalysisParams;
+  metricsAccounts: string[];
+  isInSyncWithServer: boolean;
+  runState: AsyncRequestState;
+  executionId: string;
+  error: string;
+}
+
+interface IRunAnalysisModalDispatchProps {
+  updateParams: (params: Partial<IRunAnalysisParams>) => void;
+  updateScope: (scopeName: string, scope: Partial<IRunAnalysisScopeParams>) => void;
+  run: () => void;
+  close: () => void;
+}
+
+const SCOPE_FIELDS: Array<{ field: keyof IRunAnalysisScopeParams, label: string }> = [
+  { field: 'controlScope', label: 'Baseline' },
+  { field: 'controlLocation', label: 'Baseline Location' },
+  { field: 'experimentScope', label: 'Canary' },
+  { field: 'experimentLocation', label: 'Canary Location' },
+];
+
+const isRunnable = ({ scopes, startTimeIso, endTimeIso, step, metricsAccountName }: IRunAnalysisParams): boolean =>
+  !!(startTimeIso && endTimeIso && step && metricsAccountName) &&
+  Object.values(scopes).every(scope => !!(scope.controlScope && scope.experimentScope));
+
+const RunStatus = ({ runState, executionId, error }: { runState: AsyncRequestState, executionId: string, error: string }) => {
+  switch (runState) {
+    case AsyncRequestState.Requesting:
+      return (
+        <p className="run-analysis-status">
+          {executionId
+            ? `Analysis ${executionId} is running. The report will open when it finishes; closing this dialog won't stop it.`
+            : 'Starting the analysis...'}
+        </p>
+      );
+    case AsyncRequestState.Failed:
+      return (
+        <span className="alert alert-danger">
+          The analysis failed{error ? `: ${error}` : '.'}
+        </span>
+      );
+    default:
+      return null;
+  }
+};
+
+/*
+ * Modal to run the saved config against sample scopes, outside of a pipeline.
+ */
+function RunAnalysisModal({ show, params, metricsAccounts, isInSyncWithServer, runState, executionId, error, updateParams, updateScope, run, close }: IRunAnalysisModalStateProps & IRunAnalysisModalDispatchProps) {
+  if (!show) {
+    return null;
+  }
+
+  const running = runState === AsyncRequestState.Requesting;
+  const onThresholdChange = (threshold: 'pass' | 'marginal') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    updateParams({ thresholds: { ...params.thresholds, [threshold]: isNaN(value) ? null : value } });
+  };
+
+  return (
+    <Modal show={true} onHide={null} className="kayenta-run-analysis-modal">
+      <Styleguide>
+        <Modal.Header>
+          <Modal.Title>Run Analysis</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          {!isInSyncWithServer && (
+            <p className="alert alert-warning">The config has unsaved changes; the saved version will be run.</p>
+          )}
+          {Object.keys(params.scopes).map(scopeName => (
+            <section key={scopeName}>
+              <h5 className="heading-5">Scope: {scopeName}</h5>
+              {SCOPE_FIELDS.map(({ field, label }) => (
+                <FormRow key={field} label={label}>
+                  <input
+                    type="text"
+                    className="form-control input-sm"
+                    value={params.scopes[scopeName][field]}
+                    onChange={event => updateScope(scopeName, { [field]: event.target.value })}
+                  />
+                </FormRow>
+              ))}
+            </section>
+          ))}
+          <FormRow label="Start Time">
+            <input
+              type="text"
+              className="form-control input-sm"
+              value={params.startTimeIso}
+              placeholder="e.g., 2018-03-01T12:00:00Z"
+              onChange={event => updateParams({ startTimeIso: event.target.value })}
+            />
+          </FormRow>
+          <FormRow label="End Time">
+            <input
+              type="text"
+              className="form-control input-sm"
+              value={params.endTimeIso}
+              placeholder="e.g., 2018-03-01T13:00:00Z"
+              onChange={event => updateParams({ endTimeIso: event.target.value })}
+            />
+          </FormRow>
+          <FormRow label="Step (seconds)">
+            <input
+              type="number"
+              min={1}
+              className="form-control input-sm"
+              value={params.step || ''}
+              onChange={event => updateParams({ step: parseInt(event.target.value, 10) || null })}
+            />
+          </FormRow>
+          <FormRow label="Thresholds">
+            <div className="horizontal run-analysis-thresholds">
+              <label>Pass</label>
+              <input
+                type="number"
+                className="form-control input-sm"
+                value={params.thresholds.pass === null ? '' : params.thresholds.pass}
+                onChange={onThresholdChange('pass')}
+              />
+              <label>Marginal</label>
+              <input
+                type="number"
+                className="form-control input-sm"
+                value={params.thresholds.marginal === null ? '' : params.thresholds.marginal}
+                onChange={onThresholdChange('marginal')}
+              />
+            </div>
+          </FormRow>
+          <FormRow label="Metrics Account">
+            <select
+              className="form-control input-sm"
+              value={params.metricsAccountName || ''}
+              onChange={event => updateParams({ metricsAccountName: event.target.value })}
+            >
+              <option value="" disabled={true}>Select an account</option>
+              {metricsAccounts.map(a => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </FormRow>
+          <RunStatus runState={runState} executionId={executionId} error={error}/>
+        </Modal.Body>
+        <Modal.Footer>
+          <ul className="list-inline pull-right">
+            <li><button className="passive" onClick={close}>{running ? 'Close' : 'Cancel'}</button></li>
+            <li>
+              <button className="primary" disabled={running || !isRunnable(params)} onClick={run}>
+                Run
+              </button>
+            </li>
+          </ul>
+        </Modal.Footer>
+      </Styleguide>
+    </Modal>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IRunAnalysisModalStateProps {
+  const { params, executionId, error } = state.selectedConfig.runAnalysis;
+  return {
+    show: state.app.runAnalysisModalOpen,
+    params,
+    metricsAccounts: state.data.kayentaAccounts.data
+      .filter(account => account.supportedTypes.includes(KayentaAccountType.MetricsStore))
+      .map(account => account.name),
+    isInSyncWithServer: state.selectedConfig.isInSyncWithServer,
+    runState: state.selectedConfig.runAnalysis.state,
+    executionId,
+    error,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IRunAnalysisModalDispatchProps {
+  return {
+    updateParams: (params: Partial<IRunAnalysisParams>) => dispatch(Creators.updateRunAnalysisParams({ params })),
+    updateScope: (scopeName: string, scope: Partial<IRunAnalysisScopeParams>) =>
+      dispatch(Creators.updateRunAnalysisScope({ scopeName, scope })),
+    run: () => dispatch(Creators.runAnalysisRequest()),
+    close: () => dispatch(Creators.closeRunAnalysisModal()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(RunAnalysisModal);
@@ -4,6 +4,7 @@ import * as classNames from 'classnames';
 import ValidationErrors from './validationErrors';
 import SaveConfigButton from './saveConfigButton';
 import SaveConfigError from './saveConfigError';
+import EditHistorySummary from './editHistorySummary';
 
 /*
  * Responsible for canary config save component layout.
@@ -13,6 +14,7 @@ export default function Save() {
     <div className={classNames('col-sm-12', 'text-right')}>
       <ValidationErrors/>
       <SaveConfigError/>
+      <EditHistorySummary/>
       <SaveConfigButton/>
     </div>
   );
@@ -6,6 +6,7 @@ import { SubmitButton } from '@spinnaker/core';
 import { ICanaryState } from '../reducers';
 import * as Creators from '../actions/creators';
 import { AsyncRequestState } from '../reducers/asyncRequest';
+import { isBlocking } from '../reducers/validators';
 
 interface ISaveButtonStateProps {
   saveConfigState: AsyncRequestState;
@@ -40,7 +41,7 @@ function SaveConfigButton({ saveConfigState, inSyncWithServer, saveConfig, disab
 }
 
 function mapStateToProps(state: ICanaryState): ISaveButtonStateProps {
-  const disable = !!state.selectedConfig.validationErrors.length;
+  const disable = state.selectedConfig.validationErrors.some(isBlocking);
   return {
     saveConfigState: state.selectedConfig.save.state,
     inSyncWithServer: state.selectedConfig.isInSyncWithServer,
@@ -0,0 +1,146 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { Modal } from 'react-bootstrap';
+import autoBindMethods from 'class-autobind-decorator';
+
+import { noop } from '@spinnaker/core';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import { ICanaryMetricConfig } from 'kayenta/domain';
+import Styleguide from 'kayenta/layout/styleguide';
+import { IMetricLibraryEntry } from 'kayenta/service/metricLibrary.service';
+
+import './metricLibrary.less';
+
+interface ISaveToMetricLibraryModalStateProps {
+  metric: ICanaryMetricConfig;
+  // The library entry the metric was copied from, if it's still in the library.
+  linkedEntry: IMetricLibraryEntry;
+  application: string;
+  save: AsyncRequestState;
+  error: string;
+}
+
+interface ISaveToMetricLibraryModalDispatchProps {
+  confirm: (id: string, global: boolean, entryId: string) => void;
+  close: () => void;
+}
+
+type SaveToMetricLibraryModalProps = ISaveToMetricLibraryModalStateProps & ISaveToMetricLibraryModalDispatchProps;
+
+interface ISaveToMetricLibraryModalState {
+  overwrite: boolean;
+  global: boolean;
+}
+
+/*
+ * Saves a metric to the library, either over the entry it was copied from or as a new entry.
+ */
+@autoBindMethods
+class SaveToMetricLibraryModal extends React.Component<SaveToMetricLibraryModalProps, ISaveToMetricLibraryModalState> {
+
+  constructor(props: SaveToMetricLibraryModalProps) {
+    super(props);
+    this.state = {
+      overwrite: !!props.linkedEntry,
+      global: props.linkedEntry ? props.linkedEntry.application === null : false,
+    };
+  }
+
+  public onOverwriteChange(event: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({ overwrite: event.target.value === 'overwrite' });
+  }
+
+  public onGlobalChange(event: React.ChangeEvent<HTMLInputElement>) {
+    this.setState({ global: event.target.value === 'global' });
+  }
+
+  public confirm() {
+    const { metric, linkedEntry } = this.props;
+    const overwrite = this.state.overwrite && !!linkedEntry;
+    this.props.confirm(
+      metric.id,
+      overwrite ? linkedEntry.application === null : this.state.global,
+      overwrite ? linkedEntry.id : null,
+    );
+  }
+
+  public render() {
+    const { metric, linkedEntry, application, save, error, close } = this.props;
+    const { overwrite, global } = this.state;
+    return (
+      <Modal show={true} onHide={noop} className="kayenta-save-to-metric-library-modal">
+        <Styleguide>
+          <Modal.Header>
+            <Modal.Title>Save {metric.name || 'Metric'} to Library</Modal.Title>
+          </Modal.Header>
+          <Modal.Body>
+            {linkedEntry && (
+              <div className="metric-library-options">
+                <label className="radio">
+                  <input type="radio" value="overwrite" checked={overwrite} onChange={this.onOverwriteChange}/>
+                  Update the library entry this metric was copied from. Configs using it will be offered the update.
+                </label>
+                <label className="radio">
+                  <input type="radio" value="new" checked={!overwrite} onChange={this.onOverwriteChange}/>
+                  Save it as a new library entry
+                </label>
+              </div>
+            )}
+            {(!linkedEntry || !overwrite) && (
+              <div className="metric-library-options">
+                <label className="radio">
+                  <input type="radio" value="application" checked={!global} onChange={this.onGlobalChange}/>
+                  Available to {application} only
+                </label>
+                <label className="radio">
+                  <input type="radio" value="global" checked={global} onChange={this.onGlobalChange}/>
+                  Available to every application
+                </label>
+              </div>
+            )}
+            {save === AsyncRequestState.Failed && (
+              <p className="error-message">Could not save the metric to the library{error ? `: ${error}` : '.'}</p>
+            )}
+          </Modal.Body>
+          <Modal.Footer>
+            <ul className="list-inline pull-right">
+              <li><button className="passive" onClick={close}>Cancel</button></li>
+              <li>
+                <button className="primary" disabled={save === AsyncRequestState.Requesting} onClick={this.confirm}>
+                  Save
+                </button>
+              </li>
+            </ul>
+          </Modal.Footer>
+        </Styleguide>
+      </Modal>
+    );
+  }
+}
+
+function mapStateToProps(state: ICanaryState): ISaveToMetricLibraryModalStateProps {
+  const { savingMetric, entries, save, error } = state.metricLibrary;
+  const metric = state.selectedConfig.metricList.find(m => m.id === savingMetric);
+  return {
+    metric,
+    linkedEntry: metric && metric.libraryEntry
+      ? entries.find(entry => entry.id === metric.libraryEntry.id) || null
+      : null,
+    application: state.data.application.name,
+    save,
+    error,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): ISaveToMetricLibraryModalDispatchProps {
+  return {
+    confirm: (id: string, global: boolean, entryId: string) =>
+      dispatch(Creators.saveToMetricLibraryRequest({ id, global, entryId })),
+    close: () => dispatch(Creators.closeSaveToMetricLibraryModal()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(SaveToMetricLibraryModal);
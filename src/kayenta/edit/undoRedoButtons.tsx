@@ -0,0 +1,105 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+import { Action } from 'redux';
+import autoBindMethods from 'class-autobind-decorator';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { DisableableButton, DISABLE_EDIT_CONFIG } from 'kayenta/layout/disableable';
+
+interface IUndoRedoButtonsStateProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  shortcutsEnabled: boolean;
+}
+
+interface IUndoRedoButtonsDispatchProps {
+  undo: () => void;
+  redo: () => void;
+}
+
+type UndoRedoButtonsProps = IUndoRedoButtonsStateProps & IUndoRedoButtonsDispatchProps;
+
+const isTextEntryTarget = (target: EventTarget): boolean => {
+  const element = target as HTMLElement;
+  return !!element && (
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable
+  );
+};
+
+/*
+ * Buttons and keyboard shortcuts (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z, Ctrl+Y) for undoing and redoing config edits.
+ */
+@autoBindMethods
+class UndoRedoButtons extends React.Component<UndoRedoButtonsProps> {
+  public componentDidMount(): void {
+    document.addEventListener('keydown', this.onKeyDown);
+  }
+
+  public componentWillUnmount(): void {
+    document.removeEventListener('keydown', this.onKeyDown);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    const { canUndo, canRedo, shortcutsEnabled, undo, redo } = this.props;
+    // Leave text fields to the browser's own undo.
+    if (!shortcutsEnabled || !(event.ctrlKey || event.metaKey) || isTextEntryTarget(event.target)) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey && canUndo) {
+      event.preventDefault();
+      undo();
+    } else if (((key === 'z' && event.shiftKey) || key === 'y') && canRedo) {
+      event.preventDefault();
+      redo();
+    }
+  }
+
+  public render() {
+    const { canUndo, canRedo, undo, redo } = this.props;
+    return (
+      <div className="btn-group">
+        <DisableableButton
+          className="passive"
+          disabled={!canUndo}
+          onClick={undo}
+          title="Undo (Ctrl+Z)"
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        >
+          <i className="fa fa-undo"/>
+          <span>Undo</span>
+        </DisableableButton>
+        <DisableableButton
+          className="passive"
+          disabled={!canRedo}
+          onClick={redo}
+          title="Redo (Ctrl+Shift+Z)"
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        >
+          <i className="fa fa-redo"/>
+          <span>Redo</span>
+        </DisableableButton>
+      </div>
+    );
+  }
+}
+
+function mapStateToProps(state: ICanaryState): IUndoRedoButtonsStateProps {
+  const { history, editingMetric } = state.selectedConfig;
+  return {
+    canUndo: !!history.past.length,
+    canRedo: !!history.future.length,
+    shortcutsEnabled: !state.app.disableConfigEdit && !editingMetric && !state.app.configJsonModalOpen,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IUndoRedoButtonsDispatchProps {
+  return {
+    undo: () => dispatch(Creators.undoConfigEdit()),
+    redo: () => dispatch(Creators.redoConfigEdit()),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(UndoRedoButtons);
@@ -1,38 +1,96 @@
 import * as React from 'react';
 import { connect } from 'react-redux';
+import { Action } from 'redux';
 import { HoverablePopover } from '@spinnaker/core';
 import { ICanaryState } from '../reducers/index';
+import * as Creators from '../actions/creators';
+import { ConfigValidationSeverity, IConfigValidationError } from '../reducers/validators';
+
+interface IValidationMessage {
+  message: string;
+  severity: ConfigValidationSeverity;
+  // Action that takes the user to the offending metric or group, if there is one.
+  target: Action;
+}
 
 interface IConfigValidationErrorsStateProps {
-  errors: string[];
+  messages: IValidationMessage[];
+}
+
+interface IConfigValidationErrorsDispatchProps {
+  goToTarget: (target: Action) => void;
 }
 
-const ConfigValidationErrors = ({ errors }: IConfigValidationErrorsStateProps) => {
-  if (!errors || !errors.length) {
+const ValidationMessageList = ({ messages, goToTarget }: IConfigValidationErrorsStateProps & IConfigValidationErrorsDispatchProps) => (
+  <ul>
+    {messages.map((m, i) => (
+      <li key={i}>
+        {m.target
+          ? <a className="clickable" onClick={() => goToTarget(m.target)}>{m.message}</a>
+          : m.message}
+      </li>
+    ))}
+  </ul>
+);
+
+const ConfigValidationErrors = ({ messages, goToTarget }: IConfigValidationErrorsStateProps & IConfigValidationErrorsDispatchProps) => {
+  if (!messages || !messages.length) {
     return null;
   }
 
+  const errors = messages.filter(m => m.severity === ConfigValidationSeverity.Error);
+  const warnings = messages.filter(m => m.severity === ConfigValidationSeverity.Warning);
   const template = (
     <section>
-      <p>The following errors may prevent this config from working properly:</p>
-      <ul>
-        {errors.map(e => (<li key={e}>{e}</li>))}
-      </ul>
+      {!!errors.length && (
+        <div>
+          <p>The following errors must be fixed before this config can be saved:</p>
+          <ValidationMessageList messages={errors} goToTarget={goToTarget}/>
+        </div>
+      )}
+      {!!warnings.length && (
+        <div>
+          <p>The following issues may prevent this config from working properly:</p>
+          <ValidationMessageList messages={warnings} goToTarget={goToTarget}/>
+        </div>
+      )}
     </section>
   );
 
   return (
     <HoverablePopover placement={'left'} template={template}>
       <button className="btn btn-link">
-        <i className="fa fa-exclamation-triangle"/>
+        <i className={errors.length ? 'fa fa-exclamation-triangle' : 'fa fa-exclamation-circle'}/>
       </button>
     </HoverablePopover>
   );
 };
 
+const buildTarget = (state: ICanaryState, { path }: IConfigValidationError): Action => {
+  if (!path) {
+    return null;
+  }
+
+  const [section, key, name] = path;
+  if (section === 'metrics' && typeof key === 'number') {
+    const metric = state.selectedConfig.metricList[key];
+    return metric ? Creators.editMetricBegin({ id: metric.id }) : null;
+  } else if (section === 'classifier' && key === 'groupWeights' && typeof name === 'string') {
+    return Creators.selectGroup({ name });
+  }
+  return null;
+};
 
 const mapStateToProps = (state: ICanaryState): IConfigValidationErrorsStateProps => ({
-  errors: state.selectedConfig.validationErrors.map(e => e.message),
+  messages: state.selectedConfig.validationErrors.map(e => ({
+    message: e.message,
+    severity: e.severity,
+    target: buildTarget(state, e),
+  })),
+});
+
+const mapDispatchToProps = (dispatch: (action: Action & any) => void): IConfigValidationErrorsDispatchProps => ({
+  goToTarget: (target: Action) => dispatch(target),
 });
 
-export default connect(mapStateToProps)(ConfigValidationErrors);
+export default connect(mapStateToProps, mapDispatchToProps)(ConfigValidationErrors);
@@ -0,0 +1,73 @@
+import * as React from 'react';
+
+import { IKayentaAction } from 'kayenta/actions/creators';
+import { ListAction } from './list';
+import { DISABLE_EDIT_CONFIG, DisableableInput } from './disableable';
+import AddNewButton from './addNewButton';
+import DeleteButton from './deleteButton';
+
+import './list.less';
+
+export interface IKeyValuePair {
+  key: string;
+  value: string;
+}
+
+export interface IUpdateKeyValueListPayload {
+  type: ListAction;
+  index?: number;
+  pair?: IKeyValuePair;
+}
+
+export const updateKeyValueListReducer = (state: IKeyValuePair[], action: IKayentaAction<IUpdateKeyValueListPayload>) => {
+  const { index, pair } = action.payload;
+  switch (action.payload.type) {
+    case ListAction.Add:
+      return state.concat({ key: '', value: '' });
+    case ListAction.Delete:
+      return [...state.slice(0, index), ...state.slice(index + 1)];
+    case ListAction.Edit:
+      return [...state.slice(0, index), pair, ...state.slice(index + 1)];
+  }
+};
+
+interface IKeyValueListProps {
+  list: IKeyValuePair[];
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  actionCreator: (payload: IUpdateKeyValueListPayload) => void;
+}
+
+export const KeyValueList = ({ list, keyPlaceholder, valuePlaceholder, actionCreator }: IKeyValueListProps) => {
+  const edit = (index: number, pair: IKeyValuePair, field: keyof IKeyValuePair) =>
+    (event: any) => actionCreator({
+      type: ListAction.Edit,
+      index,
+      pair: { ...pair, [field]: event.target.value },
+    });
+
+  return (
+    <section>
+      {list.map((pair, i) => (
+        <div key={i} className="horizontal form-group kayenta-list kayenta-key-value-list">
+          <div className="horizontal flex-1">
+            <DisableableInput
+              value={pair.key}
+              placeholder={keyPlaceholder || 'key'}
+              onChange={edit(i, pair, 'key')}
+              disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+            />
+            <DisableableInput
+              value={pair.value}
+              placeholder={valuePlaceholder || 'value'}
+              onChange={edit(i, pair, 'value')}
+              disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+            />
+          </div>
+          <DeleteButton onClick={() => actionCreator({ type: ListAction.Delete, index: i })}/>
+        </div>
+      ))}
+      <AddNewButton onClick={() => actionCreator({ type: ListAction.Add })}/>
+    </section>
+  );
+};
@@ -2,9 +2,9 @@ import * as React from 'react';
 import * as classNames from 'classnames';
 
 import { ITableColumn } from './tableColumn';
-import { TableHeader } from './tableHeader';
+import { ITableSortProps, TableHeader } from './tableHeader';
 
-export interface ITableProps<T> {
+export interface ITableProps<T> extends ITableSortProps {
   rows: T[];
   columns: ITableColumn<T>[];
   rowKey: (row: T) => string;
@@ -16,7 +16,7 @@ export interface ITableProps<T> {
   className?: string;
 }
 
-export function Table<T>({ rows, columns, rowKey, tableBodyClassName, rowClassName, onRowClick, customRow, className, headerClassName }: ITableProps<T>) {
+export function Table<T>({ rows, columns, rowKey, tableBodyClassName, rowClassName, onRowClick, customRow, className, headerClassName, sortKey, sortDirection, onSort }: ITableProps<T>) {
   const TableRow = ({ row }: { row: T }) => (
     <li
       onClick={onRowClick ? () => onRowClick(row) : null}
@@ -35,7 +35,13 @@ export function Table<T>({ rows, columns, rowKey, tableBodyClassName, rowClassNa
   return (
     <div className={className}>
       <ul className={classNames(tableBodyClassName, 'list-group')}>
-        <TableHeader columns={columns} className={classNames('table-header', 'sticky-header', headerClassName)}/>
+        <TableHeader
+          columns={columns}
+          className={classNames('table-header', 'sticky-header', headerClassName)}
+          sortKey={sortKey}
+          sortDirection={sortDirection}
+          onSort={onSort}
+        />
         {
           rows.map(r => (
             customRow && customRow(r)
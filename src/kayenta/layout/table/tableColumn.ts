@@ -2,6 +2,8 @@ export interface ITableColumn<T> {
   label?: string;
   labelClassName?: string;
   hide?: boolean;
+  // Makes the label a sort control when the table is sortable.
+  sortKey?: string;
   width: number;
   getContent: (data: T) => JSX.Element;
 }
@@ -3,19 +3,33 @@ import * as classNames from 'classnames';
 
 import { ITableColumn } from './tableColumn';
 
-export interface ITableHeaderProps {
+export type TableSortDirection = 'asc' | 'desc';
+
+export interface ITableSortProps {
+  sortKey?: string;
+  sortDirection?: TableSortDirection;
+  onSort?: (sortKey: string) => void;
+}
+
+export interface ITableHeaderProps extends ITableSortProps {
   columns: ITableColumn<any>[];
   className: string;
 }
 
-export const TableHeader = ({ columns, className }: ITableHeaderProps) => {
+export const TableHeader = ({ columns, className, sortKey, sortDirection, onSort }: ITableHeaderProps) => {
   return (
     <div className={classNames('horizontal', className)}>
       {columns.map((c, i) => (
         <div key={c.label || i} className={`flex-${c.width}`}>
           {!c.hide && (
-            <h6 className={classNames('heading-6', 'uppercase', 'color-text-primary', c.labelClassName)}>
+            <h6
+              className={classNames('heading-6', 'uppercase', 'color-text-primary', c.labelClassName, { clickable: !!(onSort && c.sortKey) })}
+              onClick={onSort && c.sortKey ? () => onSort(c.sortKey) : null}
+            >
               {c.label}
+              {onSort && c.sortKey && c.sortKey === sortKey && (
+                <span> <i className={`fa fa-caret-${sortDirection === 'asc' ? 'up' : 'down'}`}/></span>
+              )}
             </h6>
           )}
         </div>
@@ -8,6 +8,7 @@ import { ICanaryMetricConfig } from '../../domain/ICanaryConfig';
 import { UPDATE_ATLAS_QUERY } from '../../actions/index';
 import { CanarySettings } from '../../canary.settings';
 import autoBindMethods from 'class-autobind-decorator';
+import AtlasQueryEditor from './atlasQueryEditor';
 
 interface IAtlasMetricConfigurerStateProps {
   editingMetric: ICanaryMetricConfig;
@@ -21,6 +22,8 @@ type IAtlasMetricConfigurerProps = IAtlasMetricConfigurerStateProps & IAtlasMetr
 
 interface IAtlasMetricConfigurerState {
   webComponent: Element;
+  webComponentAvailable: boolean;
+  textMode: boolean;
 }
 
 export interface AtlasQuerySelector {
@@ -35,6 +38,11 @@ interface ChangeQueryStringEvent extends CustomEvent {
   detail: string;
 }
 
+const WEB_COMPONENT_NAME = 'atlas-query-selector';
+
+// The query selector can't look anything up without a backend, so queries are edited as text until one is configured.
+const ATLAS_BACKENDS = (CanarySettings.atlasBackends || []).filter(backend => !!backend);
+
 if (CanarySettings.atlasWebComponentsUrl) {
   // make React available to components
   const global = window as any;
@@ -58,14 +66,38 @@ declare global {
 const queryFinder = (metric: ICanaryMetricConfig) => get(metric, 'query.q', '');
 
 /*
- * Component for configuring an Atlas metric via the <atlas-query-selector> web component.
+ * Component for configuring an Atlas metric via the <atlas-query-selector> web component,
+ * or as text when the web component or its backends aren't available.
  */
 @autoBindMethods
 class AtlasMetricConfigurer extends React.Component<IAtlasMetricConfigurerProps, IAtlasMetricConfigurerState> {
 
+  private mounted = false;
+
   constructor(props: IAtlasMetricConfigurerProps) {
     super(props);
-    this.state = { webComponent: null };
+    this.state = { webComponent: null, webComponentAvailable: false, textMode: false };
+  }
+
+  public componentDidMount() {
+    this.mounted = true;
+    // The web component registers itself whenever its script finishes loading, which may be never.
+    const customElements = (window as any).customElements;
+    if (CanarySettings.atlasWebComponentsUrl && ATLAS_BACKENDS.length && customElements) {
+      customElements.whenDefined(WEB_COMPONENT_NAME).then(() => {
+        if (this.mounted) {
+          this.setState({ webComponentAvailable: true });
+        }
+      });
+    }
+  }
+
+  public componentWillUnmount() {
+    this.mounted = false;
+  }
+
+  private toggleTextMode() {
+    this.setState({ textMode: !this.state.textMode });
   }
 
   private bindComponent(ref: Element) {
@@ -87,16 +119,30 @@ class AtlasMetricConfigurer extends React.Component<IAtlasMetricConfigurerProps,
   public render() {
     const editingMetric = this.props.editingMetric;
     const query = queryFinder(editingMetric);
-    // TODO: select correct Atlas backend for app
-    const atlasBackend = 'https://atlas-global.prod.netflix.net';
+    const { webComponentAvailable, textMode } = this.state;
+
+    if (!webComponentAvailable || textMode) {
+      return (
+        <section>
+          <AtlasQueryEditor query={query} onChange={this.props.updateQuery}/>
+          {webComponentAvailable && (
+            <a className="clickable" onClick={this.toggleTextMode}>Use query selector</a>
+          )}
+        </section>
+      );
+    }
+
     return (
-      <atlas-query-selector
-        class="spinnaker-theme"
-        backends={atlasBackend}
-        hide="add_scope,comparison,timeOffset,lineStyle,des,trend,lineWidth,axis,color,alpha,multi"
-        query={query}
-        ref={this.bindComponent}
-      />
+      <section>
+        <atlas-query-selector
+          class="spinnaker-theme"
+          backends={ATLAS_BACKENDS.join(',')}
+          hide="add_scope,comparison,timeOffset,lineStyle,des,trend,lineWidth,axis,color,alpha,multi"
+          query={query}
+          ref={this.bindComponent}
+        />
+        <a className="clickable" onClick={this.toggleTextMode}>Edit as text</a>
+      </section>
     );
   }
 
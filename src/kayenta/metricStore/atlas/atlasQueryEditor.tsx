@@ -0,0 +1,71 @@
+import * as React from 'react';
+import * as classNames from 'classnames';
+
+import { DISABLE_EDIT_CONFIG, DisableableTextarea } from 'kayenta/layout/disableable';
+import { AtlasSyntaxErrorSeverity, IAtlasSyntaxError, IAtlasToken, tokenize, validateAtlasQuery } from './stackLanguage';
+
+import './atlasQueryEditor.less';
+
+interface IAtlasQueryEditorProps {
+  query: string;
+  onChange: (query: string) => void;
+}
+
+const renderTokens = (query: string, tokens: IAtlasToken[], errors: IAtlasSyntaxError[]) => {
+  const segments: JSX.Element[] = [];
+  let position = 0;
+  tokens.forEach((token, i) => {
+    if (token.start > position) {
+      segments.push(<span key={`separator-${i}`}>{query.slice(position, token.start)}</span>);
+    }
+    const tokenErrors = errors.filter(e => e.token === token);
+    segments.push(
+      <span
+        key={i}
+        title={tokenErrors.map(e => e.message).join('\n') || null}
+        className={classNames(`atlas-token-${token.type}`, {
+          'atlas-token-error': tokenErrors.some(e => e.severity === AtlasSyntaxErrorSeverity.Error),
+          'atlas-token-warning': tokenErrors.some(e => e.severity === AtlasSyntaxErrorSeverity.Warning),
+        })}
+      >
+        {token.value}
+      </span>
+    );
+    position = token.end;
+  });
+  if (position < query.length) {
+    segments.push(<span key="separator-end">{query.slice(position)}</span>);
+  }
+  return segments;
+};
+
+/*
+ * Text editor for Atlas stack language queries, with syntax highlighting and checking.
+ */
+export default function AtlasQueryEditor({ query, onChange }: IAtlasQueryEditorProps) {
+  const tokens = tokenize(query);
+  const errors = validateAtlasQuery(query);
+  return (
+    <section className="atlas-query-editor">
+      <DisableableTextarea
+        rows={3}
+        value={query}
+        placeholder="e.g., name,requests,:eq,:sum"
+        onChange={(event: any) => onChange(event.target.value)}
+        disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+      />
+      {!!tokens.length && (
+        <pre className="atlas-query-tokens">{renderTokens(query, tokens, errors)}</pre>
+      )}
+      {!!errors.length && (
+        <ul className="atlas-query-errors list-unstyled">
+          {errors.map((e, i) => (
+            <li key={i} className={e.severity === AtlasSyntaxErrorSeverity.Error ? 'error-message' : 'warning-message'}>
+              {e.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,8 +1,35 @@
 import metricStoreConfigStore from '../metricStoreConfig.service';
+import configValidatorService from 'kayenta/service/configValidator.service';
+import { ConfigValidationSeverity, IConfigValidationError } from 'kayenta/reducers/validators';
 import AtlasMetricConfigurer, { queryFinder } from './atlasMetricConfigurer';
+import { AtlasSyntaxErrorSeverity, validateAtlasQuery } from './stackLanguage';
 
 metricStoreConfigStore.register({
   name: 'atlas',
   metricConfigurer: AtlasMetricConfigurer,
-  queryFinder
+  queryFinder,
+  querySchema: {
+    required: ['q'],
+    properties: {
+      q: { type: 'string' },
+    },
+  },
+});
+
+configValidatorService.register({
+  name: 'isEveryAtlasQueryValid',
+  validate: state =>
+    state.selectedConfig.metricList
+      .map((metric, index) => ({ metric, index }))
+      // Empty queries are reported for every metric store.
+      .filter(({ metric }) => metric.query.type === 'atlas' && !!queryFinder(metric))
+      .reduce((errors, { metric, index }) => errors.concat(
+        validateAtlasQuery(queryFinder(metric)).map(e => ({
+          message: `Metric '${metric.name || '(new)'}': ${e.message}`,
+          severity: e.severity === AtlasSyntaxErrorSeverity.Error
+            ? ConfigValidationSeverity.Error
+            : ConfigValidationSeverity.Warning,
+          path: ['metrics', index, 'query', 'q'],
+        })),
+      ), [] as IConfigValidationError[]),
 });
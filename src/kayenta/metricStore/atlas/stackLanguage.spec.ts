@@ -0,0 +1,36 @@
+import { AtlasSyntaxErrorSeverity, AtlasTokenType, tokenize, validateAtlasQuery } from './stackLanguage';
+
+describe('Service: stackLanguage', () => {
+
+  it('tokenizes a query', () => {
+    expect(tokenize('name,requests,:eq, (,app,)').map(t => [t.type, t.value, t.start])).toEqual([
+      [AtlasTokenType.Word, 'name', 0],
+      [AtlasTokenType.Word, 'requests', 5],
+      [AtlasTokenType.Command, ':eq', 14],
+      [AtlasTokenType.ListStart, '(', 19],
+      [AtlasTokenType.Word, 'app', 21],
+      [AtlasTokenType.ListEnd, ')', 25],
+    ]);
+  });
+
+  it('accepts valid queries', () => {
+    expect(validateAtlasQuery('name,requests,:eq,app,foo,:eq,:and,:sum')).toEqual([]);
+    expect(validateAtlasQuery('name,requests,:eq,:sum,(,status,),:by')).toEqual([]);
+    expect(validateAtlasQuery('name,requests,:eq,status,(,500,503,),:in,:and')).toEqual([]);
+  });
+
+  it('reports missing operands and mismatched types', () => {
+    expect(validateAtlasQuery('requests,:eq')[0].message).toContain('expects 2 operands');
+    expect(validateAtlasQuery('name,requests,:and')[0].message).toContain('expects a query but found a string');
+  });
+
+  it('reports unbalanced lists and unused values', () => {
+    expect(validateAtlasQuery('name,requests,:eq,(,app')[0].message).toEqual("Unmatched '('.");
+    expect(validateAtlasQuery('name,requests,:eq,app')[0].message).toEqual("'app' is not used by any command.");
+  });
+
+  it('warns about commands it does not know', () => {
+    const [error] = validateAtlasQuery('name,requests,:eq,:sum,5m,:rolling-mean');
+    expect(error.severity).toEqual(AtlasSyntaxErrorSeverity.Warning);
+  });
+});
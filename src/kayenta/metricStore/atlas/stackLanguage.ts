@@ -0,0 +1,159 @@
+// Tokenizes and checks Atlas stack language queries, e.g., 'name,requests,:eq,app,foo,:eq,:and,:sum'.
+// See https://github.com/Netflix/atlas/wiki/Stack-Language.
+
+export enum AtlasTokenType {
+  Word = 'word',
+  Command = 'command',
+  ListStart = 'list-start',
+  ListEnd = 'list-end',
+}
+
+export interface IAtlasToken {
+  type: AtlasTokenType;
+  value: string;
+  // Character offsets of the token within the query.
+  start: number;
+  end: number;
+}
+
+export enum AtlasSyntaxErrorSeverity {
+  Error = 'error',
+  // The query may be fine, but it can't be checked.
+  Warning = 'warning',
+}
+
+export interface IAtlasSyntaxError {
+  message: string;
+  severity: AtlasSyntaxErrorSeverity;
+  token?: IAtlasToken;
+}
+
+enum StackItemType {
+  String = 'string',
+  List = 'list',
+  Query = 'query',
+  Expression = 'expression',
+}
+
+interface ICommandSignature {
+  // Operand types from the bottom of the stack to the top.
+  args: StackItemType[];
+  result: StackItemType;
+}
+
+const { String: S, List: L, Query: Q, Expression: E } = StackItemType;
+
+const COMMANDS: {[command: string]: ICommandSignature} = {
+  'eq': { args: [S, S], result: Q },
+  're': { args: [S, S], result: Q },
+  'reic': { args: [S, S], result: Q },
+  'lt': { args: [S, S], result: Q },
+  'le': { args: [S, S], result: Q },
+  'gt': { args: [S, S], result: Q },
+  'ge': { args: [S, S], result: Q },
+  'in': { args: [S, L], result: Q },
+  'has': { args: [S], result: Q },
+  'true': { args: [], result: Q },
+  'false': { args: [], result: Q },
+  'and': { args: [Q, Q], result: Q },
+  'or': { args: [Q, Q], result: Q },
+  'not': { args: [Q], result: Q },
+  'sum': { args: [E], result: E },
+  'count': { args: [E], result: E },
+  'min': { args: [E], result: E },
+  'max': { args: [E], result: E },
+  'avg': { args: [E], result: E },
+  'by': { args: [E, L], result: E },
+  'cq': { args: [E, Q], result: E },
+  'add': { args: [E, E], result: E },
+  'sub': { args: [E, E], result: E },
+  'mul': { args: [E, E], result: E },
+  'div': { args: [E, E], result: E },
+  'neg': { args: [E], result: E },
+  'abs': { args: [E], result: E },
+  'legend': { args: [E, S], result: E },
+};
+
+// A query can be used wherever an expression is expected; Atlas sums it.
+const accepts = (expected: StackItemType, actual: StackItemType): boolean =>
+  expected === actual || (expected === E && actual === Q);
+
+export function tokenize(q: string): IAtlasToken[] {
+  const tokens: IAtlasToken[] = [];
+  let start = 0;
+  (q || '').split(',').forEach(part => {
+    const value = part.trim();
+    if (value) {
+      const offset = start + part.indexOf(value);
+      let type = AtlasTokenType.Word;
+      if (value === '(') {
+        type = AtlasTokenType.ListStart;
+      } else if (value === ')') {
+        type = AtlasTokenType.ListEnd;
+      } else if (value.startsWith(':')) {
+        type = AtlasTokenType.Command;
+      }
+      tokens.push({ type, value, start: offset, end: offset + value.length });
+    }
+    start += part.length + 1;
+  });
+  return tokens;
+}
+
+export function validateAtlasQuery(q: string): IAtlasSyntaxError[] {
+  const tokens = tokenize(q);
+  if (!tokens.length) {
+    return [{ message: 'The query is empty.', severity: AtlasSyntaxErrorSeverity.Error }];
+  }
+
+  const error = (message: string, token: IAtlasToken): IAtlasSyntaxError =>
+    ({ message, token, severity: AtlasSyntaxErrorSeverity.Error });
+  const stack: Array<{ type: StackItemType, token: IAtlasToken }> = [];
+  let listDepth = 0, listStart: IAtlasToken = null;
+
+  for (const token of tokens) {
+    if (token.type === AtlasTokenType.ListStart) {
+      if (listDepth++ === 0) {
+        listStart = token;
+      }
+    } else if (token.type === AtlasTokenType.ListEnd) {
+      if (listDepth === 0) {
+        return [error("Unmatched ')'.", token)];
+      }
+      if (--listDepth === 0) {
+        stack.push({ type: L, token: listStart });
+      }
+    } else if (listDepth > 0) {
+      // Anything inside a list, including commands, is a plain value.
+      continue;
+    } else if (token.type === AtlasTokenType.Word) {
+      stack.push({ type: S, token });
+    } else {
+      const signature = COMMANDS[token.value.slice(1)];
+      if (!signature) {
+        // Without knowing what an unfamiliar command does to the stack, the rest of the query can't be checked.
+        return [{
+          message: `Unrecognized command '${token.value}'; the query could not be fully checked.`,
+          severity: AtlasSyntaxErrorSeverity.Warning,
+          token,
+        }];
+      }
+      if (stack.length < signature.args.length) {
+        return [error(`'${token.value}' expects ${signature.args.length} operands but only ${stack.length} are available.`, token)];
+      }
+      const operands = stack.splice(stack.length - signature.args.length);
+      const mismatch = operands.findIndex((operand, i) => !accepts(signature.args[i], operand.type));
+      if (mismatch !== -1) {
+        return [error(`'${token.value}' expects a ${signature.args[mismatch]} but found a ${operands[mismatch].type}.`, token)];
+      }
+      stack.push({ type: signature.result, token });
+    }
+  }
+
+  if (listDepth > 0) {
+    return [error("Unmatched '('.", listStart)];
+  }
+  return stack
+    .filter(item => item.type === S || item.type === L)
+    .map(item => error(`'${item.token.value}' is not used by any command.`, item.token));
+}
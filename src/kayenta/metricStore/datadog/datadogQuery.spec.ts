@@ -0,0 +1,48 @@
+import {
+  buildCustomFilter,
+  buildDatadogQuery,
+  getTagFilters,
+  parseTagFilter,
+  removeEmptyTagFilters,
+  serializeTagFilter,
+} from './datadogQuery';
+
+describe('Service: datadogQuery', () => {
+
+  const buildQuery = (query: any) => ({
+    type: 'datadog',
+    serviceType: 'datadog',
+    metricName: 'system.cpu.user',
+    ...query,
+  });
+
+  it('round-trips tag filters', () => {
+    expect(parseTagFilter('!host:i-1234')).toEqual({ key: 'host', value: 'i-1234', exclude: true });
+    expect(serializeTagFilter({ key: 'env', value: 'prod', exclude: false })).toEqual('env:prod');
+    expect(serializeTagFilter(parseTagFilter('service'))).toEqual('service');
+  });
+
+  it('saves tag filters after the scope in the custom filter', () => {
+    const query = buildQuery({ customFilter: buildCustomFilter(['env:prod', '', '!host:i-1234']) });
+    expect(getTagFilters(query)).toEqual(['env:prod', '', '!host:i-1234']);
+    expect(removeEmptyTagFilters(query).customFilter).toEqual('${scope},env:prod,!host:i-1234');
+    expect(removeEmptyTagFilters(buildQuery({ customFilter: buildCustomFilter(['']) })).customFilter).toBeNull();
+  });
+
+  it('builds a query with tag filters', () => {
+    expect(buildDatadogQuery(buildQuery({ customFilter: '${scope},env:prod,,!host:i-1234' })))
+      .toEqual('system.cpu.user{${scope},env:prod,!host:i-1234}');
+  });
+
+  it('uses the filter template in place of the scope', () => {
+    expect(buildDatadogQuery(buildQuery({ customFilterTemplate: 'my-template' }), { 'my-template': 'app:${scope}' }))
+      .toEqual('system.cpu.user{app:${scope}}');
+  });
+
+  it('prefers tag filters to the filter template, as Kayenta does', () => {
+    expect(buildDatadogQuery(
+      buildQuery({ customFilter: '${scope},env:prod', customFilterTemplate: 'my-template' }),
+      { 'my-template': 'app:${scope}' },
+    )).toEqual('system.cpu.user{${scope},env:prod}');
+  });
+});
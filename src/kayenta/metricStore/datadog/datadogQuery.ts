@@ -0,0 +1,57 @@
+import { ICanaryConfig } from 'kayenta/domain';
+import { IDatadogCanaryMetricSetQueryConfig } from './domain/IDatadogCanaryMetricSetQueryConfig';
+
+export interface IDatadogTagFilter {
+  key: string;
+  value: string;
+  exclude: boolean;
+}
+
+const SCOPE = '${scope}';
+
+// Tag filters are stored as Datadog tag expressions, e.g., 'env:prod' or '!host:i-1234'.
+export const parseTagFilter = (filter: string): IDatadogTagFilter => {
+  const exclude = (filter || '').startsWith('!');
+  const expression = exclude ? filter.slice(1) : filter || '';
+  const separator = expression.indexOf(':');
+  return separator === -1
+    ? { key: expression, value: '', exclude }
+    : { key: expression.slice(0, separator), value: expression.slice(separator + 1), exclude };
+};
+
+export const serializeTagFilter = ({ key, value, exclude }: IDatadogTagFilter): string => {
+  if (!key && !value) {
+    return '';
+  }
+  return `${exclude ? '!' : ''}${key}${value ? `:${value}` : ''}`;
+};
+
+// Kayenta has no field for tag filters. It uses a metric's custom filter in place of
+// the scope, so tag filters are saved there after the scope, e.g., '${scope},env:prod'.
+export const getTagFilters = (query: IDatadogCanaryMetricSetQueryConfig): string[] => {
+  const filters = query.customFilter ? query.customFilter.split(',') : [];
+  return filters[0] === SCOPE ? filters.slice(1) : filters;
+};
+
+// Empty filters are kept while editing so that newly added rows show up.
+export const buildCustomFilter = (tagFilters: string[]): string =>
+  tagFilters.length ? [SCOPE].concat(tagFilters).join(',') : null;
+
+// Without tag filters, the custom filter is dropped so that a filter template still applies.
+export const removeEmptyTagFilters = (query: IDatadogCanaryMetricSetQueryConfig): IDatadogCanaryMetricSetQueryConfig => {
+  const filters = (query.customFilter || '').split(',').filter(filter => !!filter);
+  return { ...query, customFilter: filters.some(filter => filter !== SCOPE) ? filters.join(',') : null };
+};
+
+// Builds the Datadog query Kayenta will run for a metric, with the scope left as a placeholder.
+export const buildDatadogQuery = (query: IDatadogCanaryMetricSetQueryConfig, templates?: ICanaryConfig['templates']): string => {
+  if (!query) {
+    return '';
+  }
+
+  let filter = removeEmptyTagFilters(query).customFilter || SCOPE;
+  if (filter === SCOPE && query.customFilterTemplate) {
+    filter = (templates || {})[query.customFilterTemplate] || `<template: ${query.customFilterTemplate}>`;
+  }
+  return `${query.metricName || ''}{${filter}}`;
+};
@@ -0,0 +1,5 @@
+import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
+
+export interface IDatadogCanaryMetricSetQueryConfig extends ICanaryMetricSetQueryConfig {
+  metricName: string;
+}
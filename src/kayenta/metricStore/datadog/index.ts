@@ -5,4 +5,13 @@ metricStoreConfigStore.register({
   name: 'datadog',
   metricConfigurer: DatadogMetricConfigurer,
   queryFinder,
+  useTemplates: true,
+  querySchema: {
+    required: ['metricName'],
+    properties: {
+      metricName: { type: 'string' },
+      customFilter: { type: ['string', 'null'] },
+      customFilterTemplate: { type: ['string', 'null'] },
+    },
+  },
 });
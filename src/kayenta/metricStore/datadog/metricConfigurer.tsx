@@ -1,55 +1,81 @@
 import * as React from 'react';
-import { get } from 'lodash';
+import * as Select from 'react-select';
 import { Action } from 'redux';
 import { connect } from 'react-redux';
 import FormRow from 'kayenta/layout/formRow';
 import { ICanaryState } from 'kayenta/reducers';
 import * as Creators from 'kayenta/actions/creators';
-import { DisableableInput, DISABLE_EDIT_CONFIG } from 'kayenta/layout/disableable';
+import { IUpdateListPayload } from 'kayenta/layout/list';
 import { ICanaryMetricConfig } from 'kayenta/domain';
 import autoBindMethods from 'class-autobind-decorator';
+import { IDatadogCanaryMetricSetQueryConfig } from './domain/IDatadogCanaryMetricSetQueryConfig';
+import DatadogMetricTypeSelector from './metricTypeSelector';
+import DatadogTagFilters from './tagFilters';
+import { buildDatadogQuery, getTagFilters } from './datadogQuery';
+
+import './metricConfigurer.less';
 
 interface IDatadogMetricConfigurerStateProps {
   editingMetric: ICanaryMetricConfig;
+  datadogQuery: string;
 }
 
 interface IDatadogMetricConfigurerDispatchProps {
   changeMetricName: (name: string) => void;
+  updateTagFilters: (payload: IUpdateListPayload) => void;
 }
 
 type DatadogMetricConfigurerProps = IDatadogMetricConfigurerStateProps & IDatadogMetricConfigurerDispatchProps;
 
-export const queryFinder = (metric: ICanaryMetricConfig) => get(metric, 'query.metricName', '');
+export const queryFinder = (metric: ICanaryMetricConfig) =>
+  buildDatadogQuery(metric.query as IDatadogCanaryMetricSetQueryConfig);
 
 /*
 * Component for configuring a Datadog metric.
 * */
 @autoBindMethods
 class DatadogMetricConfigurer extends React.Component<DatadogMetricConfigurerProps> {
-  public onChange(e: React.ChangeEvent<HTMLInputElement>) {
-    this.props.changeMetricName(e.target.value);
+  public onMetricNameChange(option: Select.Option) {
+    this.props.changeMetricName((option ? option.value : null) as string);
   }
 
   public render() {
-    const { editingMetric } = this.props;
+    const { datadogQuery, updateTagFilters } = this.props;
+    const query = this.getQuery();
     return (
       <section>
         <FormRow label="Datadog Metric">
-          <DisableableInput
-            type="text"
-            value={queryFinder(editingMetric)}
-            onChange={this.onChange}
-            disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+          <DatadogMetricTypeSelector
+            value={query.metricName || ''}
+            onChange={this.onMetricNameChange}
+          />
+        </FormRow>
+        <FormRow label="Tag Filters">
+          <DatadogTagFilters
+            tagFilters={getTagFilters(query)}
+            actionCreator={updateTagFilters}
           />
+          {query.customFilterTemplate && query.customFilter && (
+            <p className="help-block">Kayenta uses the tag filters in place of the filter template.</p>
+          )}
+        </FormRow>
+        <FormRow label="Query">
+          <pre className="datadog-query-preview">{datadogQuery}</pre>
         </FormRow>
       </section>
     );
   }
+
+  private getQuery(): IDatadogCanaryMetricSetQueryConfig {
+    return this.props.editingMetric.query as IDatadogCanaryMetricSetQueryConfig;
+  }
 }
 
 function mapStateToProps(state: ICanaryState): IDatadogMetricConfigurerStateProps {
+  const editingMetric = state.selectedConfig.editingMetric;
   return {
-    editingMetric: state.selectedConfig.editingMetric
+    editingMetric,
+    datadogQuery: buildDatadogQuery(editingMetric.query as IDatadogCanaryMetricSetQueryConfig, state.selectedConfig.config.templates),
   };
 }
 
@@ -58,6 +84,7 @@ function mapDispatchToProps(dispatch: (action: Action & any) => void): IDatadogM
     changeMetricName: (metricName: string): void => {
       dispatch(Creators.updateDatadogMetricName({ metricName }));
     },
+    updateTagFilters: payload => dispatch(Creators.updateDatadogTagFilters(payload)),
   };
 }
 
@@ -0,0 +1,61 @@
+import * as React from 'react';
+
+import { IUpdateListPayload, ListAction } from 'kayenta/layout/list';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableSelect } from 'kayenta/layout/disableable';
+import AddNewButton from 'kayenta/layout/addNewButton';
+import DeleteButton from 'kayenta/layout/deleteButton';
+import { IDatadogTagFilter, parseTagFilter, serializeTagFilter } from './datadogQuery';
+
+interface IDatadogTagFiltersProps {
+  tagFilters: string[];
+  actionCreator: (payload: IUpdateListPayload) => void;
+}
+
+/*
+ * Edits a Datadog metric's tag filters as key/value pairs.
+ */
+export default function DatadogTagFilters({ tagFilters, actionCreator }: IDatadogTagFiltersProps) {
+  const editFilter = (index: number, filter: IDatadogTagFilter, change: (value: string) => Partial<IDatadogTagFilter>) =>
+    (event: any) => actionCreator({
+      type: ListAction.Edit,
+      index,
+      value: serializeTagFilter({ ...filter, ...change(event.target.value) }),
+    });
+
+  return (
+    <section>
+      {tagFilters.map((tagFilter, i) => {
+        const filter = parseTagFilter(tagFilter);
+        return (
+          <div key={i} className="horizontal form-group kayenta-list datadog-tag-filter">
+            <div className="horizontal flex-1">
+              <DisableableSelect
+                value={filter.exclude ? 'exclude' : 'include'}
+                className="form-control input-sm datadog-tag-filter-mode"
+                onChange={editFilter(i, filter, value => ({ exclude: value === 'exclude' }))}
+                disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+              >
+                <option value="include">is</option>
+                <option value="exclude">is not</option>
+              </DisableableSelect>
+              <DisableableInput
+                value={filter.key}
+                placeholder="tag"
+                onChange={editFilter(i, filter, key => ({ key }))}
+                disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+              />
+              <DisableableInput
+                value={filter.value}
+                placeholder="value"
+                onChange={editFilter(i, filter, value => ({ value }))}
+                disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+              />
+            </div>
+            <DeleteButton onClick={() => actionCreator({ type: ListAction.Delete, index: i })}/>
+          </div>
+        );
+      })}
+      <AddNewButton onClick={() => actionCreator({ type: ListAction.Add })}/>
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+import { omit } from 'lodash';
+import { IMetricStoreConfig } from '../metricStoreConfig.service';
+import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
+import FallbackMetricConfigurer from './metricConfigurer';
+
+// Stands in for metric stores without a registered delegate, e.g., a store
+// added to Kayenta by a plugin, so that their metrics can still be edited and reported on.
+export const fallbackMetricStoreConfig: IMetricStoreConfig = {
+  name: 'fallback',
+  metricConfigurer: FallbackMetricConfigurer,
+  queryFinder: (metric: ICanaryMetricConfig) =>
+    metric && metric.query ? JSON.stringify(omit(metric.query, 'type', 'serviceType')) : '',
+};
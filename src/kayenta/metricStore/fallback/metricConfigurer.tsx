@@ -0,0 +1,125 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import { isEqual, omit } from 'lodash';
+import autoBindMethods from 'class-autobind-decorator';
+import FormRow from 'kayenta/layout/formRow';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableTextarea } from 'kayenta/layout/disableable';
+import * as Creators from 'kayenta/actions/creators';
+
+import './metricConfigurer.less';
+
+interface IFallbackMetricConfigurerStateProps {
+  query: ICanaryMetricSetQueryConfig;
+}
+
+interface IFallbackMetricConfigurerDispatchProps {
+  updateQuery: (query: ICanaryMetricSetQueryConfig) => void;
+}
+
+type FallbackMetricConfigurerProps = IFallbackMetricConfigurerStateProps & IFallbackMetricConfigurerDispatchProps;
+
+interface IFallbackMetricConfigurerState {
+  json: string;
+  error: string;
+}
+
+const toJson = (query: ICanaryMetricSetQueryConfig): string => JSON.stringify(query, null, 2);
+
+/*
+ * Component for editing the raw query of a metric whose metric store has no configurer.
+ */
+@autoBindMethods
+class FallbackMetricConfigurer extends React.Component<FallbackMetricConfigurerProps, IFallbackMetricConfigurerState> {
+
+  constructor(props: FallbackMetricConfigurerProps) {
+    super(props);
+    this.state = { json: toJson(props.query), error: null };
+  }
+
+  public componentWillReceiveProps(nextProps: FallbackMetricConfigurerProps) {
+    // Keep unparseable text while the user is typing, but pick up changes made elsewhere.
+    if (!isEqual(nextProps.query, this.props.query) && !isEqual(nextProps.query, this.parse(this.state.json))) {
+      this.setState({ json: toJson(nextProps.query), error: null });
+    }
+  }
+
+  public onFieldChange(event: React.ChangeEvent<HTMLInputElement>) {
+    this.props.updateQuery({ ...this.props.query, [event.target.dataset.field]: event.target.value });
+  }
+
+  public onJsonChange(event: React.ChangeEvent<HTMLTextAreaElement>) {
+    const json = event.target.value;
+    let error: string = null;
+    try {
+      const query = JSON.parse(json);
+      if (!query || typeof query !== 'object' || Array.isArray(query)) {
+        error = 'The query must be a JSON object.';
+      } else {
+        this.props.updateQuery(query);
+      }
+    } catch (e) {
+      error = e.message;
+    }
+    this.setState({ json, error });
+  }
+
+  public render() {
+    const { query } = this.props;
+    const { json, error } = this.state;
+    const stringFields = Object.keys(omit(query, 'type', 'serviceType'))
+      .filter(field => typeof query[field] === 'string');
+    return (
+      <section>
+        <p className="help-block">
+          The <strong>{query.type}</strong> metric store doesn't have a configurer, so its query is edited as is.
+        </p>
+        {stringFields.map(field => (
+          <FormRow key={field} label={field}>
+            <DisableableInput
+              type="text"
+              value={query[field]}
+              data-field={field}
+              onChange={this.onFieldChange}
+              disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+            />
+          </FormRow>
+        ))}
+        <FormRow label="Query JSON">
+          <DisableableTextarea
+            className="fallback-query-json"
+            rows={8}
+            value={json}
+            onChange={this.onJsonChange}
+            disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+          />
+          {error && <p className="error-message">{error}</p>}
+        </FormRow>
+      </section>
+    );
+  }
+
+  private parse(json: string): any {
+    try {
+      return JSON.parse(json);
+    } catch (e) {
+      return null;
+    }
+  }
+}
+
+function mapStateToProps(state: ICanaryState): IFallbackMetricConfigurerStateProps {
+  return {
+    query: state.selectedConfig.editingMetric.query,
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IFallbackMetricConfigurerDispatchProps {
+  return {
+    updateQuery: (query: ICanaryMetricSetQueryConfig) => dispatch(Creators.updateMetricQuery({ query })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(FallbackMetricConfigurer);
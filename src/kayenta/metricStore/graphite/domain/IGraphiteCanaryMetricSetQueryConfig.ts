@@ -0,0 +1,6 @@
+import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
+
+export interface IGraphiteCanaryMetricSetQueryConfig extends ICanaryMetricSetQueryConfig {
+  // The Graphite target, e.g., 'sumSeries(servers.${scope}.*.requests.count)'.
+  metricName: string;
+}
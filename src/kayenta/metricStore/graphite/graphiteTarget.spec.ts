@@ -0,0 +1,24 @@
+import { buildGraphiteTarget, validateGraphiteTarget, wrapGraphiteTarget } from './graphiteTarget';
+
+describe('Service: graphiteTarget', () => {
+
+  it('accepts targets with wildcards and functions', () => {
+    expect(validateGraphiteTarget('sumSeries(servers.${scope}.{a,b}[0-9].*.count)')).toBeNull();
+    expect(validateGraphiteTarget('alias(servers.*.count, "a (b")')).toBeNull();
+  });
+
+  it('reports unbalanced brackets', () => {
+    expect(validateGraphiteTarget('sumSeries(servers.*.count')).toEqual("Unmatched '('.");
+    expect(validateGraphiteTarget('servers.{a,b.count)')).toEqual("Unmatched ')'.");
+  });
+
+  it('wraps targets and expands filter templates', () => {
+    const query = {
+      type: 'graphite',
+      serviceType: 'graphite',
+      metricName: wrapGraphiteTarget('servers.${scope}.count', 'sumSeries'),
+      customFilterTemplate: 'my-template',
+    };
+    expect(buildGraphiteTarget(query, { 'my-template': 'app-${scope}' })).toEqual('sumSeries(servers.app-${scope}.count)');
+  });
+});
@@ -0,0 +1,56 @@
+import { ICanaryConfig } from 'kayenta/domain';
+import { IGraphiteCanaryMetricSetQueryConfig } from './domain/IGraphiteCanaryMetricSetQueryConfig';
+
+// Functions that take a single series list, so they can wrap any target.
+export const GRAPHITE_WRAPPING_FUNCTIONS = [
+  'sumSeries',
+  'averageSeries',
+  'maxSeries',
+  'minSeries',
+  'nonNegativeDerivative',
+  'perSecond',
+  'integral',
+  'absolute',
+];
+
+const BRACKETS: {[close: string]: string} = { ')': '(', '}': '{', ']': '[' };
+
+export const wrapGraphiteTarget = (target: string, fn: string): string => `${fn}(${target || ''})`;
+
+// Checks that parentheses, wildcard braces and character classes are balanced.
+// Returns an error message, or null if the target looks well formed.
+export const validateGraphiteTarget = (target: string): string => {
+  const open: string[] = [];
+  let quote: string = null;
+  for (const c of target || '') {
+    if (quote) {
+      quote = c === quote ? null : quote;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (Object.values(BRACKETS).includes(c)) {
+      open.push(c);
+    } else if (BRACKETS[c]) {
+      if (open.pop() !== BRACKETS[c]) {
+        return `Unmatched '${c}'.`;
+      }
+    }
+  }
+  if (quote) {
+    return `Unterminated string starting with ${quote}.`;
+  }
+  return open.length ? `Unmatched '${open[open.length - 1]}'.` : null;
+};
+
+// Builds the target Kayenta will render, with the scope left as a placeholder
+// unless a filter template provides it.
+export const buildGraphiteTarget = (query: IGraphiteCanaryMetricSetQueryConfig, templates?: ICanaryConfig['templates']): string => {
+  if (!query) {
+    return '';
+  }
+  const target = query.metricName || '';
+  if (!query.customFilterTemplate) {
+    return target;
+  }
+  const template = (templates || {})[query.customFilterTemplate] || `<template: ${query.customFilterTemplate}>`;
+  return target.split('${scope}').join(template);
+};
@@ -0,0 +1,31 @@
+import metricStoreConfigStore from '../metricStoreConfig.service';
+import configValidatorService from 'kayenta/service/configValidator.service';
+import { ConfigValidationSeverity } from 'kayenta/reducers/validators';
+import GraphiteMetricConfigurer, { queryFinder } from './metricConfigurer';
+import { validateGraphiteTarget } from './graphiteTarget';
+
+metricStoreConfigStore.register({
+  name: 'graphite',
+  metricConfigurer: GraphiteMetricConfigurer,
+  queryFinder,
+  useTemplates: true,
+  querySchema: {
+    required: ['metricName'],
+    properties: {
+      metricName: { type: 'string' },
+    },
+  },
+});
+
+configValidatorService.register({
+  name: 'isEveryGraphiteTargetValid',
+  validate: state =>
+    state.selectedConfig.metricList
+      .map((metric, index) => ({ metric, index, error: metric.query.type === 'graphite' && validateGraphiteTarget(metric.query.metricName) }))
+      .filter(({ error }) => !!error)
+      .map(({ metric, index, error }) => ({
+        message: `Metric '${metric.name || '(new)'}': ${error}`,
+        severity: ConfigValidationSeverity.Error,
+        path: ['metrics', index, 'query', 'metricName'],
+      })),
+});
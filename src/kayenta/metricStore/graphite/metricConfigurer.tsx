@@ -0,0 +1,92 @@
+import * as React from 'react';
+import * as Select from 'react-select';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import FormRow from 'kayenta/layout/formRow';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableSelect } from 'kayenta/layout/disableable';
+import * as Creators from 'kayenta/actions/creators';
+import MetricDescriptorSelector from '../metricDescriptorSelector';
+import { IGraphiteCanaryMetricSetQueryConfig } from './domain/IGraphiteCanaryMetricSetQueryConfig';
+import { buildGraphiteTarget, GRAPHITE_WRAPPING_FUNCTIONS, validateGraphiteTarget, wrapGraphiteTarget } from './graphiteTarget';
+
+import './metricConfigurer.less';
+
+interface IGraphiteMetricConfigurerStateProps {
+  editingMetric: ICanaryMetricConfig;
+  renderedTarget: string;
+}
+
+interface IGraphiteMetricConfigurerDispatchProps {
+  updateTarget: (metricName: string) => void;
+}
+
+export const queryFinder = (metric: ICanaryMetricConfig) =>
+  buildGraphiteTarget(metric.query as IGraphiteCanaryMetricSetQueryConfig);
+
+/*
+* Component for configuring a Graphite metric.
+* */
+function GraphiteMetricConfigurer({ editingMetric, renderedTarget, updateTarget }: IGraphiteMetricConfigurerStateProps & IGraphiteMetricConfigurerDispatchProps) {
+  const target = (editingMetric.query as IGraphiteCanaryMetricSetQueryConfig).metricName || '';
+  const error = validateGraphiteTarget(target);
+  return (
+    <section>
+      <FormRow label="Find Metric">
+        <MetricDescriptorSelector
+          value={null}
+          onChange={(option: Select.Option) => option && updateTarget(option.value as string)}
+          filterActionCreator={Creators.updateGraphiteMetricDescriptorFilter}
+        />
+      </FormRow>
+      <FormRow label="Target">
+        <DisableableInput
+          type="text"
+          className="graphite-target"
+          value={target}
+          placeholder="servers.${scope}.*.requests.count"
+          onChange={(event: any) => updateTarget(event.target.value)}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        />
+        <p className="help-block">
+          Wildcards (<code>*</code>, <code>{'{a,b}'}</code>, <code>[0-9]</code>) and functions are supported.
+          Use <code>{'${scope}'}</code> where the canary or baseline scope should be substituted.
+        </p>
+        {error && <p className="error-message">{error}</p>}
+      </FormRow>
+      <FormRow label="Apply Function">
+        <DisableableSelect
+          value=""
+          className="form-control input-sm"
+          onChange={(event: any) => event.target.value && updateTarget(wrapGraphiteTarget(target, event.target.value))}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        >
+          <option value="">Wrap the target in a function...</option>
+          {GRAPHITE_WRAPPING_FUNCTIONS.map(fn => <option key={fn} value={fn}>{fn}</option>)}
+        </DisableableSelect>
+      </FormRow>
+      {renderedTarget !== target && (
+        <FormRow label="Rendered Target">
+          <pre className="graphite-target">{renderedTarget}</pre>
+        </FormRow>
+      )}
+    </section>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IGraphiteMetricConfigurerStateProps {
+  const editingMetric = state.selectedConfig.editingMetric;
+  return {
+    editingMetric,
+    renderedTarget: buildGraphiteTarget(editingMetric.query as IGraphiteCanaryMetricSetQueryConfig, state.selectedConfig.config.templates),
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IGraphiteMetricConfigurerDispatchProps {
+  return {
+    updateTarget: (metricName: string) => dispatch(Creators.updateGraphiteTarget({ metricName })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(GraphiteMetricConfigurer);
@@ -1,4 +1,8 @@
 import './atlas';
 import './datadog';
+import './graphite';
+import './influxdb';
+import './newrelic';
 import './prometheus';
+import './signalfx';
 import './stackdriver';
@@ -0,0 +1,7 @@
+import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
+
+export interface IInfluxDbCanaryMetricSetQueryConfig extends ICanaryMetricSetQueryConfig {
+  // The measurement to query.
+  metricName: string;
+  fields: string[];
+}
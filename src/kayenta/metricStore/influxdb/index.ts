@@ -0,0 +1,18 @@
+import metricStoreConfigStore from '../metricStoreConfig.service';
+import InfluxDbMetricConfigurer, { queryFinder } from './metricConfigurer';
+
+metricStoreConfigStore.register({
+  name: 'influxdb',
+  metricConfigurer: InfluxDbMetricConfigurer,
+  queryFinder,
+  useTemplates: true,
+  querySchema: {
+    required: ['metricName', 'fields'],
+    properties: {
+      metricName: { type: 'string' },
+      fields: { type: 'array', items: { type: 'string' } },
+      customFilter: { type: ['string', 'null'] },
+      customFilterTemplate: { type: ['string', 'null'] },
+    },
+  },
+});
@@ -0,0 +1,43 @@
+import { buildCustomFilter, buildInfluxQl, getTagFilters, removeEmptyTagFilters } from './influxQl';
+
+describe('Service: influxQl', () => {
+
+  const buildQuery = (query: any) => ({
+    type: 'influxdb',
+    serviceType: 'influxdb',
+    metricName: 'cpu',
+    fields: ['usage_user'],
+    ...query,
+  });
+
+  it('selects the fields of the measurement within the scope', () => {
+    expect(buildInfluxQl(buildQuery({}))).toEqual('SELECT "usage_user" FROM "cpu" WHERE ${scope}');
+    expect(buildInfluxQl(buildQuery({ fields: ['', 'usage "idle"'] })))
+      .toEqual('SELECT "usage \\"idle\\"" FROM "cpu" WHERE ${scope}');
+    expect(buildInfluxQl(buildQuery({ fields: [] }))).toEqual('SELECT * FROM "cpu" WHERE ${scope}');
+  });
+
+  it('saves tag filters after the scope in the custom filter', () => {
+    const tagFilters = [{ key: 'host', value: `it's` }, { key: '', value: '' }, { key: 'region', value: 'a AND b' }];
+    const query = buildQuery({ customFilter: buildCustomFilter(tagFilters) });
+    expect(getTagFilters(query)).toEqual(tagFilters);
+    expect(removeEmptyTagFilters(query).customFilter).toEqual(`\${scope} AND "host" = 'it\\'s' AND "region" = 'a AND b'`);
+    expect(removeEmptyTagFilters(buildQuery({ customFilter: buildCustomFilter([{ key: '', value: '' }]) })).customFilter)
+      .toBeNull();
+  });
+
+  it('builds a query with tag filters', () => {
+    expect(buildInfluxQl(buildQuery({ customFilter: buildCustomFilter([{ key: 'host', value: 'i-1234' }]) })))
+      .toEqual(`SELECT "usage_user" FROM "cpu" WHERE \${scope} AND "host" = 'i-1234'`);
+  });
+
+  it('uses the filter template in place of the scope, unless there are tag filters', () => {
+    const templates = { 'my-template': `"app" = '\${scope}'` };
+    expect(buildInfluxQl(buildQuery({ customFilterTemplate: 'my-template' }), templates))
+      .toEqual(`SELECT "usage_user" FROM "cpu" WHERE "app" = '\${scope}'`);
+    expect(buildInfluxQl(buildQuery({
+      customFilterTemplate: 'my-template',
+      customFilter: buildCustomFilter([{ key: 'host', value: 'i-1234' }]),
+    }), templates)).toEqual(`SELECT "usage_user" FROM "cpu" WHERE \${scope} AND "host" = 'i-1234'`);
+  });
+});
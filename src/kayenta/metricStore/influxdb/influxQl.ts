@@ -0,0 +1,55 @@
+import { ICanaryConfig } from 'kayenta/domain';
+import { IKeyValuePair } from 'kayenta/layout/keyValueList';
+import { IInfluxDbCanaryMetricSetQueryConfig } from './domain/IInfluxDbCanaryMetricSetQueryConfig';
+
+const quoteIdentifier = (identifier: string): string => `"${(identifier || '').replace(/"/g, '\\"')}"`;
+
+const quoteString = (value: string): string => `'${(value || '').replace(/'/g, "\\'")}'`;
+
+const unquote = (quoted: string): string => quoted.replace(/\\(.)/g, '$1');
+
+const SCOPE = '${scope}';
+
+const TAG_FILTER_PATTERN = /"((?:[^"\\]|\\.)*)" = '((?:[^'\\]|\\.)*)'/g;
+
+// Kayenta has no field for tag filters. It uses a metric's custom filter in place of the scope,
+// so tag filters are saved there after the scope, e.g., `${scope} AND "host" = 'i-1234'`.
+export const getTagFilters = (query: IInfluxDbCanaryMetricSetQueryConfig): IKeyValuePair[] => {
+  const filters: IKeyValuePair[] = [];
+  const pattern = new RegExp(TAG_FILTER_PATTERN);
+  let match: RegExpExecArray;
+  while ((match = pattern.exec(query.customFilter || ''))) {
+    filters.push({ key: unquote(match[1]), value: unquote(match[2]) });
+  }
+  return filters;
+};
+
+// Empty filters are kept while editing so that newly added rows show up.
+export const buildCustomFilter = (tagFilters: IKeyValuePair[]): string =>
+  tagFilters.length
+    ? [SCOPE].concat(tagFilters.map(({ key, value }) => `${quoteIdentifier(key)} = ${quoteString(value)}`)).join(' AND ')
+    : null;
+
+// Without tag filters, the custom filter is dropped so that a filter template still applies.
+export const removeEmptyTagFilters = (query: IInfluxDbCanaryMetricSetQueryConfig): IInfluxDbCanaryMetricSetQueryConfig => ({
+  ...query,
+  customFilter: buildCustomFilter(getTagFilters(query).filter(({ key }) => !!key)),
+});
+
+// Builds the InfluxQL Kayenta will run for a metric, with the scope left as a placeholder.
+// Kayenta adds the time range of the analysis interval to the WHERE clause.
+export const buildInfluxQl = (query: IInfluxDbCanaryMetricSetQueryConfig, templates?: ICanaryConfig['templates']): string => {
+  if (!query) {
+    return '';
+  }
+
+  let scope = removeEmptyTagFilters(query).customFilter || SCOPE;
+  if (scope === SCOPE && query.customFilterTemplate) {
+    scope = (templates || {})[query.customFilterTemplate] || `<template: ${query.customFilterTemplate}>`;
+  }
+  const fields = (query.fields || []).filter(field => !!field);
+
+  return `SELECT ${fields.length ? fields.map(quoteIdentifier).join(', ') : '*'}`
+    + ` FROM ${quoteIdentifier(query.metricName)}`
+    + ` WHERE ${scope}`;
+};
@@ -0,0 +1,88 @@
+import * as React from 'react';
+import * as Select from 'react-select';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import FormRow from 'kayenta/layout/formRow';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
+import { IUpdateListPayload, List } from 'kayenta/layout/list';
+import { IUpdateKeyValueListPayload, KeyValueList } from 'kayenta/layout/keyValueList';
+import * as Creators from 'kayenta/actions/creators';
+import MetricDescriptorSelector from '../metricDescriptorSelector';
+import { IInfluxDbCanaryMetricSetQueryConfig } from './domain/IInfluxDbCanaryMetricSetQueryConfig';
+import { buildInfluxQl, getTagFilters } from './influxQl';
+
+import './metricConfigurer.less';
+
+interface IInfluxDbMetricConfigurerStateProps {
+  editingMetric: ICanaryMetricConfig;
+  influxQl: string;
+}
+
+interface IInfluxDbMetricConfigurerDispatchProps {
+  updateMeasurement: (option: Select.Option) => void;
+  updateFields: (payload: IUpdateListPayload) => void;
+  updateTagFilters: (payload: IUpdateKeyValueListPayload) => void;
+}
+
+export const queryFinder = (metric: ICanaryMetricConfig) =>
+  buildInfluxQl(metric.query as IInfluxDbCanaryMetricSetQueryConfig);
+
+/*
+* Component for configuring an InfluxDB metric.
+* */
+function InfluxDbMetricConfigurer({ editingMetric, influxQl, updateMeasurement, updateFields, updateTagFilters }: IInfluxDbMetricConfigurerStateProps & IInfluxDbMetricConfigurerDispatchProps) {
+  const query = editingMetric.query as IInfluxDbCanaryMetricSetQueryConfig;
+  return (
+    <section>
+      <FormRow label="Measurement">
+        <MetricDescriptorSelector
+          value={query.metricName || ''}
+          onChange={updateMeasurement}
+          filterActionCreator={Creators.updateInfluxDbMetricDescriptorFilter}
+        />
+      </FormRow>
+      <FormRow label="Fields">
+        <List
+          list={query.fields || []}
+          actionCreator={updateFields}
+        />
+      </FormRow>
+      <FormRow label="Tag Filters">
+        <KeyValueList
+          list={getTagFilters(query)}
+          keyPlaceholder="tag"
+          actionCreator={updateTagFilters}
+        />
+        {query.customFilterTemplate && query.customFilter && (
+          <p className="help-block">Kayenta uses the tag filters in place of the filter template.</p>
+        )}
+      </FormRow>
+      <FormRow label="InfluxQL">
+        <pre className="influxdb-influxql-preview">{influxQl}</pre>
+      </FormRow>
+    </section>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): IInfluxDbMetricConfigurerStateProps {
+  const editingMetric = state.selectedConfig.editingMetric;
+  return {
+    editingMetric,
+    influxQl: buildInfluxQl(editingMetric.query as IInfluxDbCanaryMetricSetQueryConfig, state.selectedConfig.config.templates),
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): IInfluxDbMetricConfigurerDispatchProps {
+  return {
+    updateMeasurement: (option: Select.Option): void => {
+      dispatch(Creators.updateInfluxDbMeasurement({
+        metricName: (option ? option.value : null) as string,
+      }));
+    },
+    updateFields: payload => dispatch(Creators.updateInfluxDbFields(payload)),
+    updateTagFilters: payload => dispatch(Creators.updateInfluxDbTagFilters(payload)),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(InfluxDbMetricConfigurer);
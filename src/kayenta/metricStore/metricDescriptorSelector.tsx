@@ -0,0 +1,65 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+import { Action } from 'redux';
+import { Option } from 'react-select';
+import { ICanaryState } from 'kayenta/reducers';
+import { IMetricsServiceMetadata } from 'kayenta/domain/IMetricsServiceMetadata';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import { DISABLE_EDIT_CONFIG, DisableableReactSelect } from 'kayenta/layout/disableable';
+
+interface IMetricDescriptorSelectorDispatchProps {
+  load: (filter: string) => void;
+}
+
+interface IMetricDescriptorSelectorStateProps {
+  options: Option[];
+  loading: boolean;
+}
+
+interface IMetricDescriptorSelectorOwnProps {
+  value: string;
+  onChange: (option: Option) => void;
+  // Creates the store-specific action that loads descriptors matching the filter.
+  filterActionCreator: (payload: { filter: string }) => Action;
+  placeholder?: string;
+}
+
+/*
+ * Autocompletes a metric store's metric names from the metrics service metadata.
+ */
+const MetricDescriptorSelector = ({ loading, load, options, value, onChange, placeholder }: IMetricDescriptorSelectorDispatchProps & IMetricDescriptorSelectorStateProps & IMetricDescriptorSelectorOwnProps) => {
+  if (value && options.every(o => o.value !== value)) {
+    options = options.concat({ label: value, value });
+  }
+
+  return (
+    <DisableableReactSelect
+      isLoading={loading}
+      options={options}
+      onChange={onChange}
+      value={value}
+      placeholder={placeholder || 'Enter at least three characters to search.'}
+      onInputChange={
+        input => {
+          load(input);
+          return input;
+        }
+      }
+      disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+    />
+  );
+};
+
+const mapStateToProps = (state: ICanaryState): IMetricDescriptorSelectorStateProps => {
+  const descriptors = state.data.metricsServiceMetadata.data as Array<IMetricsServiceMetadata & { name: string }>;
+  return {
+    options: descriptors.map(d => ({ label: d.name, value: d.name })),
+    loading: state.data.metricsServiceMetadata.load === AsyncRequestState.Requesting,
+  };
+};
+
+const mapDispatchToProps = (dispatch: (action: Action & any) => void, ownProps: IMetricDescriptorSelectorOwnProps): IMetricDescriptorSelectorDispatchProps => ({
+  load: (filter: string) => dispatch(ownProps.filterActionCreator({ filter })),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(MetricDescriptorSelector);
@@ -2,12 +2,25 @@ import * as React from 'react';
 
 import { ICanaryMetricConfig } from 'kayenta/domain';
 import { buildDelegateService } from 'kayenta/service/delegateFactory';
+import { IJsonSchema } from 'kayenta/service/jsonSchema';
+import { fallbackMetricStoreConfig } from './fallback';
 
 export interface IMetricStoreConfig {
   name: string;
   metricConfigurer: React.ComponentClass;
   queryFinder: (metric: ICanaryMetricConfig) => string;
   useTemplates?: boolean;
+  // Schema for the store-specific fields of `metric.query`.
+  querySchema?: IJsonSchema;
 }
 
-export default buildDelegateService<IMetricStoreConfig>();
+const metricStoreConfigService = buildDelegateService<IMetricStoreConfig>();
+
+export const isMetricStoreSupported = (name: string): boolean =>
+  !!metricStoreConfigService.getDelegate(name);
+
+// Like getDelegate, but never returns undefined for an unregistered store.
+export const getMetricStoreConfig = (name: string): IMetricStoreConfig =>
+  metricStoreConfigService.getDelegate(name) || fallbackMetricStoreConfig;
+
+export default metricStoreConfigService;
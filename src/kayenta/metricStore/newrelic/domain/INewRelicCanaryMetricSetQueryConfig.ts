@@ -0,0 +1,8 @@
+import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
+
+export interface INewRelicCanaryMetricSetQueryConfig extends ICanaryMetricSetQueryConfig {
+  // The NRQL SELECT clause, e.g., 'SELECT count(*) FROM Transaction'.
+  select: string;
+  // An optional NRQL WHERE condition, e.g., "httpResponseCode LIKE '5%'".
+  q?: string;
+}
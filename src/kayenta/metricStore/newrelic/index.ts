@@ -0,0 +1,16 @@
+import metricStoreConfigStore from '../metricStoreConfig.service';
+import NewRelicMetricConfigurer, { queryFinder } from './metricConfigurer';
+
+metricStoreConfigStore.register({
+  name: 'newrelic',
+  metricConfigurer: NewRelicMetricConfigurer,
+  queryFinder,
+  useTemplates: true,
+  querySchema: {
+    required: ['select'],
+    properties: {
+      select: { type: 'string' },
+      q: { type: ['string', 'null'] },
+    },
+  },
+});
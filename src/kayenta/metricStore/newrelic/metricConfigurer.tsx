@@ -0,0 +1,76 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import FormRow from 'kayenta/layout/formRow';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableTextarea } from 'kayenta/layout/disableable';
+import * as Creators from 'kayenta/actions/creators';
+import { INewRelicCanaryMetricSetQueryConfig } from './domain/INewRelicCanaryMetricSetQueryConfig';
+import { buildNrql } from './nrql';
+
+import './metricConfigurer.less';
+
+interface INewRelicMetricConfigurerStateProps {
+  editingMetric: ICanaryMetricConfig;
+  nrql: string;
+}
+
+interface INewRelicMetricConfigurerDispatchProps {
+  updateSelect: (event: any) => void;
+  updateWhere: (event: any) => void;
+}
+
+export const queryFinder = (metric: ICanaryMetricConfig) =>
+  buildNrql(metric.query as INewRelicCanaryMetricSetQueryConfig);
+
+/*
+* Component for configuring a New Relic Insights metric.
+* */
+function NewRelicMetricConfigurer({ editingMetric, nrql, updateSelect, updateWhere }: INewRelicMetricConfigurerStateProps & INewRelicMetricConfigurerDispatchProps) {
+  const query = editingMetric.query as INewRelicCanaryMetricSetQueryConfig;
+  return (
+    <section>
+      <FormRow label="NRQL Select">
+        <DisableableInput
+          type="text"
+          className="new-relic-nrql"
+          value={query.select || ''}
+          placeholder="SELECT count(*) FROM Transaction"
+          onChange={updateSelect}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        />
+      </FormRow>
+      <FormRow label="NRQL Where">
+        <DisableableTextarea
+          className="new-relic-nrql"
+          rows={2}
+          value={query.q || ''}
+          placeholder="httpResponseCode LIKE '5%'"
+          onChange={updateWhere}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        />
+      </FormRow>
+      <FormRow label="NRQL">
+        <pre className="new-relic-nrql-preview">{nrql}</pre>
+      </FormRow>
+    </section>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): INewRelicMetricConfigurerStateProps {
+  const editingMetric = state.selectedConfig.editingMetric;
+  return {
+    editingMetric,
+    nrql: buildNrql(editingMetric.query as INewRelicCanaryMetricSetQueryConfig, state.selectedConfig.config.templates),
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): INewRelicMetricConfigurerDispatchProps {
+  return {
+    updateSelect: (event: any) => dispatch(Creators.updateNewRelicSelect({ select: event.target.value })),
+    updateWhere: (event: any) => dispatch(Creators.updateNewRelicWhere({ q: event.target.value })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(NewRelicMetricConfigurer);
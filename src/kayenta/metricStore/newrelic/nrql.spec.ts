@@ -0,0 +1,33 @@
+import { buildNrql } from './nrql';
+
+describe('Service: nrql', () => {
+
+  const buildQuery = (query: any) => ({
+    type: 'newrelic',
+    serviceType: 'newrelic',
+    select: 'SELECT count(*) FROM Transaction',
+    ...query,
+  });
+
+  it('restricts the select to the scope', () => {
+    expect(buildNrql(buildQuery({}))).toEqual('SELECT count(*) FROM Transaction WHERE ${scope}');
+  });
+
+  it('adds the where condition before the scope', () => {
+    expect(buildNrql(buildQuery({ q: `httpResponseCode LIKE '5%'` })))
+      .toEqual(`SELECT count(*) FROM Transaction WHERE httpResponseCode LIKE '5%' AND \${scope}`);
+    expect(buildNrql(buildQuery({ q: '  ' }))).toEqual('SELECT count(*) FROM Transaction WHERE ${scope}');
+  });
+
+  it('uses the filter template in place of the scope', () => {
+    expect(buildNrql(buildQuery({ customFilterTemplate: 'my-template' }), { 'my-template': `appName = '\${scope}'` }))
+      .toEqual(`SELECT count(*) FROM Transaction WHERE appName = '\${scope}'`);
+    expect(buildNrql(buildQuery({ customFilterTemplate: 'missing' }), {}))
+      .toEqual('SELECT count(*) FROM Transaction WHERE <template: missing>');
+  });
+
+  it('leaves out an empty select', () => {
+    expect(buildNrql(buildQuery({ select: ' ', q: 'duration > 1' }))).toEqual('WHERE duration > 1 AND ${scope}');
+    expect(buildNrql(null)).toEqual('');
+  });
+});
@@ -0,0 +1,19 @@
+import { ICanaryConfig } from 'kayenta/domain';
+import { INewRelicCanaryMetricSetQueryConfig } from './domain/INewRelicCanaryMetricSetQueryConfig';
+
+// Builds the NRQL Kayenta will run for a metric, with the scope left as a placeholder.
+// Kayenta appends the TIMESERIES, SINCE and UNTIL clauses for the analysis interval.
+export const buildNrql = (query: INewRelicCanaryMetricSetQueryConfig, templates?: ICanaryConfig['templates']): string => {
+  if (!query) {
+    return '';
+  }
+
+  let scope = '${scope}';
+  if (query.customFilterTemplate) {
+    scope = (templates || {})[query.customFilterTemplate] || `<template: ${query.customFilterTemplate}>`;
+  }
+  const conditions = [query.q, scope].filter(condition => !!condition && !!condition.trim());
+  return [(query.select || '').trim(), `WHERE ${conditions.join(' AND ')}`]
+    .filter(clause => !!clause)
+    .join(' ');
+};
@@ -2,6 +2,13 @@ import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
 
 export interface IPrometheusCanaryMetricSetQueryConfig extends ICanaryMetricSetQueryConfig {
   metricName: string;
+  resourceType?: string;
   labelBindings: string[];
   groupByFields: string[];
+  // Only used while editing; Kayenta runs these as raw PromQL (see `toKayentaQuery`).
+  aggregation?: string;
+  rangeFunction?: string;
+  rangeWindow?: string;
+  // Raw PromQL that is run as is instead of the query built from the fields above.
+  customInlineTemplate?: string;
 }
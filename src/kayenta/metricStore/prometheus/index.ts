@@ -1,11 +1,28 @@
-import { get } from 'lodash';
 import metricStoreConfigStore from '../metricStoreConfig.service';
 import PrometheusMetricConfigurer from './metricConfigurer';
 import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
+import { IJsonSchema } from 'kayenta/service/jsonSchema';
+import { IPrometheusCanaryMetricSetQueryConfig } from './domain/IPrometheusCanaryMetricSetQueryConfig';
+import { buildPromQl } from './promQl';
+
+const nullableString: IJsonSchema = { type: ['string', 'null'] };
 
 metricStoreConfigStore.register({
   name: 'prometheus',
   metricConfigurer: PrometheusMetricConfigurer,
-  queryFinder: (metric: ICanaryMetricConfig) => get(metric, 'query.metricName', ''),
+  queryFinder: (metric: ICanaryMetricConfig) => buildPromQl(metric.query as IPrometheusCanaryMetricSetQueryConfig),
   useTemplates: true,
+  querySchema: {
+    properties: {
+      metricName: { type: 'string' },
+      resourceType: nullableString,
+      labelBindings: { type: 'array', items: { type: 'string' } },
+      groupByFields: { type: 'array', items: { type: 'string' } },
+      customFilterTemplate: nullableString,
+      customInlineTemplate: nullableString,
+    },
+    // Raw PromQL doesn't need a metric name.
+    if: { properties: { customInlineTemplate: { type: 'null' } } },
+    then: { required: ['metricName'] },
+  },
 });
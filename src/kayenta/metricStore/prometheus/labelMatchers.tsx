@@ -0,0 +1,78 @@
+import * as React from 'react';
+
+import { IUpdateListPayload, ListAction } from 'kayenta/layout/list';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableSelect } from 'kayenta/layout/disableable';
+import AddNewButton from 'kayenta/layout/addNewButton';
+import DeleteButton from 'kayenta/layout/deleteButton';
+import {
+  IPrometheusLabelMatcher,
+  parseLabelMatcher,
+  PrometheusLabelMatcherOperator,
+  serializeLabelMatcher,
+} from './promQl';
+
+interface IPrometheusLabelMatchersProps {
+  labelBindings: string[];
+  actionCreator: (payload: IUpdateListPayload) => void;
+}
+
+const OPERATORS = [
+  PrometheusLabelMatcherOperator.Equal,
+  PrometheusLabelMatcherOperator.NotEqual,
+  PrometheusLabelMatcherOperator.RegexMatch,
+  PrometheusLabelMatcherOperator.RegexNotMatch,
+];
+
+/*
+ * Edits a Prometheus metric's label bindings as structured label matchers.
+ */
+export default function PrometheusLabelMatchers({ labelBindings, actionCreator }: IPrometheusLabelMatchersProps) {
+  const edit = (index: number, value: string) => actionCreator({ type: ListAction.Edit, index, value });
+  const editMatcher = (index: number, matcher: IPrometheusLabelMatcher, field: keyof IPrometheusLabelMatcher) =>
+    (event: any) => edit(index, serializeLabelMatcher({ ...matcher, [field]: event.target.value }));
+
+  return (
+    <section>
+      {labelBindings.map((binding, i) => {
+        const matcher = parseLabelMatcher(binding);
+        return (
+          <div key={i} className="horizontal form-group kayenta-list prometheus-label-matcher">
+            {matcher ? (
+              <div className="horizontal flex-1">
+                <DisableableInput
+                  value={matcher.label}
+                  placeholder="label"
+                  onChange={editMatcher(i, matcher, 'label')}
+                  disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+                />
+                <DisableableSelect
+                  value={matcher.operator}
+                  className="form-control input-sm prometheus-label-matcher-operator"
+                  onChange={editMatcher(i, matcher, 'operator')}
+                  disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+                >
+                  {OPERATORS.map(o => <option key={o} value={o}>{o}</option>)}
+                </DisableableSelect>
+                <DisableableInput
+                  value={matcher.value}
+                  placeholder="value"
+                  onChange={editMatcher(i, matcher, 'value')}
+                  disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+                />
+              </div>
+            ) : (
+              // Bindings that aren't simple label matchers are edited as text.
+              <DisableableInput
+                value={binding}
+                onChange={(event: any) => edit(i, event.target.value)}
+                disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+              />
+            )}
+            <DeleteButton onClick={() => actionCreator({ type: ListAction.Delete, index: i })}/>
+          </div>
+        );
+      })}
+      <AddNewButton onClick={() => actionCreator({ type: ListAction.Add })}/>
+    </section>
+  );
+}
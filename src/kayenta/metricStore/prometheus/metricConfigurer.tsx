@@ -7,23 +7,76 @@ import FormRow from 'kayenta/layout/formRow';
 import { ICanaryState } from 'kayenta/reducers';
 import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
 import { IUpdateListPayload, List } from 'kayenta/layout/list';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableSelect, DisableableTextarea } from 'kayenta/layout/disableable';
 import * as Creators from 'kayenta/actions/creators';
 import PrometheusMetricTypeSelector from './metricTypeSelector';
+import PrometheusLabelMatchers from './labelMatchers';
+import { IPrometheusCanaryMetricSetQueryConfig } from './domain/IPrometheusCanaryMetricSetQueryConfig';
+import {
+  buildPromQl,
+  isRawPromQl,
+  needsInlineTemplate,
+  PROMETHEUS_AGGREGATIONS,
+  PROMETHEUS_RANGE_FUNCTIONS,
+  PROMETHEUS_RESOURCE_TYPES,
+} from './promQl';
+
+import './metricConfigurer.less';
 
 interface IPrometheusMetricConfigurerStateProps {
   editingMetric: ICanaryMetricConfig;
+  promQl: string;
 }
 
 interface IPrometheusMetricConfigurerDispatchProps {
   updateMetricType: (option: Select.Option) => void;
+  updateResourceType: (event: any) => void;
   updateLabelBindings: (payload: IUpdateListPayload) => void;
   updateGroupBy: (payload: IUpdateListPayload) => void;
+  updateAggregation: (event: any) => void;
+  updateRangeFunction: (event: any) => void;
+  updateRangeWindow: (event: any) => void;
+  updateInlineTemplate: (customInlineTemplate: string) => void;
 }
 
 /*
 * Component for configuring a Prometheus metric.
 * */
-function PrometheusMetricConfigurer({ editingMetric, updateMetricType, updateLabelBindings, updateGroupBy }: IPrometheusMetricConfigurerStateProps & IPrometheusMetricConfigurerDispatchProps) {
+function PrometheusMetricConfigurer({
+  editingMetric,
+  promQl,
+  updateMetricType,
+  updateResourceType,
+  updateLabelBindings,
+  updateGroupBy,
+  updateAggregation,
+  updateRangeFunction,
+  updateRangeWindow,
+  updateInlineTemplate,
+}: IPrometheusMetricConfigurerStateProps & IPrometheusMetricConfigurerDispatchProps) {
+  const query = editingMetric.query as IPrometheusCanaryMetricSetQueryConfig;
+
+  if (isRawPromQl(query)) {
+    return (
+      <section>
+        <FormRow label="PromQL">
+          <DisableableTextarea
+            className="prometheus-raw-promql"
+            rows={4}
+            value={query.customInlineTemplate}
+            onChange={(event: any) => updateInlineTemplate(event.target.value)}
+            disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+          />
+          <p className="help-block">
+            Use <code>{'${scope}'}</code> and <code>{'${location}'}</code> where the scope and location of the
+            canary and baseline should be substituted.
+          </p>
+          <a className="clickable" onClick={() => updateInlineTemplate(null)}>Use query builder</a>
+        </FormRow>
+      </section>
+    );
+  }
+
   return (
     <section>
       <FormRow label="Metric Name">
@@ -32,25 +85,79 @@ function PrometheusMetricConfigurer({ editingMetric, updateMetricType, updateLab
           onChange={updateMetricType}
         />
       </FormRow>
-      <FormRow label="Label Bindings">
-        <List
-          list={editingMetric.query.labelBindings || []}
+      <FormRow label="Resource Type">
+        <DisableableSelect
+          value={query.resourceType || ''}
+          className="form-control input-sm"
+          onChange={updateResourceType}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        >
+          <option value="">(none)</option>
+          {PROMETHEUS_RESOURCE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </DisableableSelect>
+      </FormRow>
+      <FormRow label="Label Matchers">
+        <PrometheusLabelMatchers
+          labelBindings={query.labelBindings || []}
           actionCreator={updateLabelBindings}
         />
       </FormRow>
+      <FormRow label="Rate">
+        <div className="horizontal">
+          <DisableableSelect
+            value={query.rangeFunction || ''}
+            className="form-control input-sm"
+            onChange={updateRangeFunction}
+            disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+          >
+            <option value="">(none)</option>
+            {PROMETHEUS_RANGE_FUNCTIONS.map(f => <option key={f} value={f}>{f}</option>)}
+          </DisableableSelect>
+          {query.rangeFunction && (
+            <DisableableInput
+              value={query.rangeWindow || ''}
+              placeholder="window, e.g. 5m"
+              onChange={updateRangeWindow}
+              disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+            />
+          )}
+        </div>
+      </FormRow>
+      <FormRow label="Aggregation">
+        <DisableableSelect
+          value={query.aggregation || ''}
+          className="form-control input-sm"
+          onChange={updateAggregation}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        >
+          <option value="">(none)</option>
+          {PROMETHEUS_AGGREGATIONS.map(a => <option key={a} value={a}>{a}</option>)}
+        </DisableableSelect>
+        {needsInlineTemplate(query) && (
+          <p className="help-block">
+            Kayenta only sums series by the group-by fields, so this metric will be saved as the raw PromQL below.
+          </p>
+        )}
+      </FormRow>
       <FormRow label="Group By">
         <List
-          list={editingMetric.query.groupByFields || []}
+          list={query.groupByFields || []}
           actionCreator={updateGroupBy}
         />
       </FormRow>
+      <FormRow label="PromQL">
+        <pre className="prometheus-promql-preview">{promQl}</pre>
+        <a className="clickable" onClick={() => updateInlineTemplate(promQl)}>Edit as raw PromQL</a>
+      </FormRow>
     </section>
   );
 }
 
 function mapStateToProps(state: ICanaryState): IPrometheusMetricConfigurerStateProps {
+  const editingMetric = state.selectedConfig.editingMetric;
   return {
-    editingMetric: state.selectedConfig.editingMetric,
+    editingMetric,
+    promQl: buildPromQl(editingMetric.query as IPrometheusCanaryMetricSetQueryConfig, state.selectedConfig.config.templates),
   };
 }
 
@@ -61,8 +168,18 @@ function mapDispatchToProps(dispatch: (action: Action & any) => void): IPromethe
         metricName: (option ? option.value : null) as string,
       }));
     },
+    updateResourceType: (event: any) =>
+      dispatch(Creators.updatePrometheusResourceType({ resourceType: event.target.value })),
     updateLabelBindings: payload => dispatch(Creators.updatePrometheusLabelBindings(payload)),
     updateGroupBy: payload => dispatch(Creators.updatePrometheusGroupBy(payload)),
+    updateAggregation: (event: any) =>
+      dispatch(Creators.updatePrometheusAggregation({ aggregation: event.target.value })),
+    updateRangeFunction: (event: any) =>
+      dispatch(Creators.updatePrometheusRangeFunction({ rangeFunction: event.target.value })),
+    updateRangeWindow: (event: any) =>
+      dispatch(Creators.updatePrometheusRangeWindow({ rangeWindow: event.target.value })),
+    updateInlineTemplate: (customInlineTemplate: string) =>
+      dispatch(Creators.updatePrometheusInlineTemplate({ customInlineTemplate })),
   };
 }
 
@@ -0,0 +1,73 @@
+import {
+  buildPromQl,
+  parseLabelMatcher,
+  PrometheusLabelMatcherOperator,
+  serializeLabelMatcher,
+  toKayentaQuery,
+} from './promQl';
+
+describe('Service: promQl', () => {
+
+  const buildQuery = (query: any) => ({
+    type: 'prometheus',
+    serviceType: 'prometheus',
+    metricName: 'http_requests_total',
+    labelBindings: [],
+    groupByFields: [],
+    ...query,
+  });
+
+  it('round-trips label matchers', () => {
+    const matcher = { label: 'path', operator: PrometheusLabelMatcherOperator.RegexMatch, value: '/api/"v1"' };
+    expect(parseLabelMatcher(serializeLabelMatcher(matcher))).toEqual(matcher);
+    expect(parseLabelMatcher('status!~"5.."')).toEqual({
+      label: 'status',
+      operator: PrometheusLabelMatcherOperator.RegexNotMatch,
+      value: '5..',
+    });
+    expect(parseLabelMatcher('not a matcher')).toBeNull();
+  });
+
+  it('builds a selector with scope filters and label matchers', () => {
+    expect(buildPromQl(buildQuery({ resourceType: 'aws_ec2_instance', labelBindings: ['status="500"'] })))
+      .toEqual('http_requests_total{asg_groupName=~"${scope}.*",zone=~"${location}.*",status="500"}');
+  });
+
+  it('applies rate and aggregation', () => {
+    expect(buildPromQl(buildQuery({ rangeFunction: 'irate', rangeWindow: '1m', aggregation: 'avg', groupByFields: ['code'] })))
+      .toEqual('avg(irate(http_requests_total{}[1m])) by (code)');
+    expect(buildPromQl(buildQuery({ groupByFields: ['code'] })))
+      .toEqual('sum(http_requests_total{}) by (code)');
+  });
+
+  it('expands filter templates', () => {
+    expect(buildPromQl(buildQuery({ customFilterTemplate: 'my-template' }), { 'my-template': 'app="${scope}"' }))
+      .toEqual('http_requests_total{app="${scope}"}');
+  });
+
+  it('uses raw PromQL as is', () => {
+    expect(buildPromQl(buildQuery({ customInlineTemplate: 'up{job="${scope}"}' }))).toEqual('up{job="${scope}"}');
+  });
+
+  it('saves a rate as the raw PromQL Kayenta runs', () => {
+    const query = buildQuery({ resourceType: 'gce_instance', rangeFunction: 'rate', rangeWindow: '1m', groupByFields: ['code'] });
+    const saved = toKayentaQuery(query);
+    expect(saved.customInlineTemplate)
+      .toEqual('sum(rate(http_requests_total{instance=~"${scope}-.{4}",zone=~".+/zones/${location}"}[1m])) by (code)');
+    expect(buildPromQl(saved)).toEqual(buildPromQl(query));
+    expect(Object.keys(saved)).not.toContain('rangeFunction');
+    expect(Object.keys(saved)).not.toContain('rangeWindow');
+  });
+
+  it('saves an aggregation other than a grouped sum as raw PromQL', () => {
+    expect(toKayentaQuery(buildQuery({ aggregation: 'max' })).customInlineTemplate).toEqual('max(http_requests_total{})');
+    expect(toKayentaQuery(buildQuery({ aggregation: 'sum', groupByFields: ['code'] })))
+      .toEqual(buildQuery({ groupByFields: ['code'] }));
+  });
+
+  it('expands filter templates into the saved PromQL', () => {
+    const query = buildQuery({ customFilterTemplate: 'my-template', rangeFunction: 'rate' });
+    expect(toKayentaQuery(query, { 'my-template': 'app="${scope}"' }).customInlineTemplate)
+      .toEqual('rate(http_requests_total{app="${scope}"}[5m])');
+  });
+});
@@ -0,0 +1,120 @@
+import { omit } from 'lodash';
+
+import { ICanaryConfig } from 'kayenta/domain';
+import { IPrometheusCanaryMetricSetQueryConfig } from './domain/IPrometheusCanaryMetricSetQueryConfig';
+
+export enum PrometheusLabelMatcherOperator {
+  Equal = '=',
+  NotEqual = '!=',
+  RegexMatch = '=~',
+  RegexNotMatch = '!~',
+}
+
+export interface IPrometheusLabelMatcher {
+  label: string;
+  operator: PrometheusLabelMatcherOperator;
+  value: string;
+}
+
+export const PROMETHEUS_AGGREGATIONS = ['sum', 'avg', 'min', 'max', 'count', 'stddev', 'stdvar'];
+
+export const PROMETHEUS_RANGE_FUNCTIONS = ['rate', 'irate'];
+
+export const DEFAULT_RANGE_WINDOW = '5m';
+
+export const PROMETHEUS_RESOURCE_TYPES = ['aws_ec2_instance', 'gce_instance'];
+
+// Operators are ordered so that two-character operators match before '='.
+const LABEL_MATCHER_PATTERN = /^\s*([a-zA-Z_][a-zA-Z0-9_]*)?\s*(=~|!~|!=|=)\s*"((?:[^"\\]|\\.)*)"\s*$/;
+
+// Label bindings are stored as PromQL label matchers, e.g., 'status=~"5.."'.
+// Returns null for bindings the structured editor can't represent.
+export const parseLabelMatcher = (binding: string): IPrometheusLabelMatcher => {
+  if (!binding) {
+    return { label: '', operator: PrometheusLabelMatcherOperator.Equal, value: '' };
+  }
+
+  const match = LABEL_MATCHER_PATTERN.exec(binding);
+  if (!match) {
+    return null;
+  }
+  return {
+    label: match[1] || '',
+    operator: match[2] as PrometheusLabelMatcherOperator,
+    value: match[3].replace(/\\(.)/g, '$1'),
+  };
+};
+
+export const serializeLabelMatcher = ({ label, operator, value }: IPrometheusLabelMatcher): string => {
+  if (!label && !value) {
+    return '';
+  }
+  return `${label}${operator}"${(value || '').replace(/(["\\])/g, '\\$1')}"`;
+};
+
+// Mirrors the filters Kayenta adds for each resource type when it runs the query.
+const buildScopeFilters = (query: IPrometheusCanaryMetricSetQueryConfig, templates: ICanaryConfig['templates']): string[] => {
+  switch (query.resourceType) {
+    case 'aws_ec2_instance':
+      return ['asg_groupName=~"${scope}.*"', 'zone=~"${location}.*"'];
+    case 'gce_instance':
+      return ['instance=~"${scope}-.{4}"', 'zone=~".+/zones/${location}"'];
+    default:
+      if (query.customFilterTemplate) {
+        return [(templates || {})[query.customFilterTemplate] || `<template: ${query.customFilterTemplate}>`];
+      }
+      return [];
+  }
+};
+
+export const isRawPromQl = (query: IPrometheusCanaryMetricSetQueryConfig): boolean =>
+  query.customInlineTemplate !== undefined && query.customInlineTemplate !== null;
+
+// Builds the PromQL Kayenta will run for a metric, with the scope and location left as placeholders.
+export const buildPromQl = (query: IPrometheusCanaryMetricSetQueryConfig, templates?: ICanaryConfig['templates']): string => {
+  if (!query) {
+    return '';
+  }
+  if (isRawPromQl(query)) {
+    return query.customInlineTemplate;
+  }
+
+  const filters = buildScopeFilters(query, templates)
+    .concat((query.labelBindings || []).filter(binding => !!binding));
+  let expression = `${query.metricName || ''}{${filters.join(',')}}`;
+
+  if (query.rangeFunction) {
+    expression = `${query.rangeFunction}(${expression}[${query.rangeWindow || DEFAULT_RANGE_WINDOW}])`;
+  }
+
+  const groupByFields = (query.groupByFields || []).filter(field => !!field);
+  // Kayenta sums series when grouping if no other aggregation is chosen.
+  const aggregation = query.aggregation || (groupByFields.length ? 'sum' : null);
+  if (aggregation) {
+    expression = `${aggregation}(${expression})`;
+    if (groupByFields.length) {
+      expression += ` by (${groupByFields.join(',')})`;
+    }
+  }
+
+  return expression;
+};
+
+// Kayenta builds the selector itself and only ever sums it by the group-by fields,
+// so a rate or any other aggregation can only be run as raw PromQL.
+export const needsInlineTemplate = (query: IPrometheusCanaryMetricSetQueryConfig): boolean => {
+  const grouped = (query.groupByFields || []).some(field => !!field);
+  return !!query.rangeFunction || (!!query.aggregation && !(query.aggregation === 'sum' && grouped));
+};
+
+const BUILDER_ONLY_FIELDS = ['aggregation', 'rangeFunction', 'rangeWindow'];
+
+// The query as it's saved to Kayenta: without the fields Kayenta doesn't know about,
+// and compiled to raw PromQL when it uses them.
+export const toKayentaQuery = (query: IPrometheusCanaryMetricSetQueryConfig,
+                               templates?: ICanaryConfig['templates']): IPrometheusCanaryMetricSetQueryConfig => {
+  const saved = omit(query, BUILDER_ONLY_FIELDS) as IPrometheusCanaryMetricSetQueryConfig;
+  return !isRawPromQl(query) && needsInlineTemplate(query)
+    ? { ...saved, customInlineTemplate: buildPromQl(query, templates) }
+    : saved;
+};
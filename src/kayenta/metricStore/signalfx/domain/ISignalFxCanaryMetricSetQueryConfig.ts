@@ -0,0 +1,9 @@
+import { ICanaryMetricSetQueryConfig } from 'kayenta/domain';
+import { IKeyValuePair } from 'kayenta/layout/keyValueList';
+
+export interface ISignalFxCanaryMetricSetQueryConfig extends ICanaryMetricSetQueryConfig {
+  metricName: string;
+  // Dimension filters, e.g., { key: 'env', value: 'prod' }.
+  queryPairs?: IKeyValuePair[];
+  aggregationMethod?: string;
+}
@@ -0,0 +1,28 @@
+import metricStoreConfigStore from '../metricStoreConfig.service';
+import SignalFxMetricConfigurer, { queryFinder } from './metricConfigurer';
+import { SIGNAL_FX_AGGREGATION_METHODS } from './signalFlow';
+
+metricStoreConfigStore.register({
+  name: 'signalfx',
+  metricConfigurer: SignalFxMetricConfigurer,
+  queryFinder,
+  useTemplates: true,
+  querySchema: {
+    required: ['metricName'],
+    properties: {
+      metricName: { type: 'string' },
+      queryPairs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['key', 'value'],
+          properties: {
+            key: { type: 'string' },
+            value: { type: 'string' },
+          },
+        },
+      },
+      aggregationMethod: { type: ['string', 'null'], enum: SIGNAL_FX_AGGREGATION_METHODS.concat(null) },
+    },
+  },
+});
@@ -0,0 +1,86 @@
+import * as React from 'react';
+import { Action } from 'redux';
+import { connect } from 'react-redux';
+import FormRow from 'kayenta/layout/formRow';
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
+import { DISABLE_EDIT_CONFIG, DisableableInput, DisableableSelect } from 'kayenta/layout/disableable';
+import { IUpdateKeyValueListPayload, KeyValueList } from 'kayenta/layout/keyValueList';
+import * as Creators from 'kayenta/actions/creators';
+import { ISignalFxCanaryMetricSetQueryConfig } from './domain/ISignalFxCanaryMetricSetQueryConfig';
+import { buildSignalFlow, DEFAULT_AGGREGATION_METHOD, SIGNAL_FX_AGGREGATION_METHODS } from './signalFlow';
+
+import './metricConfigurer.less';
+
+interface ISignalFxMetricConfigurerStateProps {
+  editingMetric: ICanaryMetricConfig;
+  signalFlow: string;
+}
+
+interface ISignalFxMetricConfigurerDispatchProps {
+  updateMetricName: (event: any) => void;
+  updateQueryPairs: (payload: IUpdateKeyValueListPayload) => void;
+  updateAggregationMethod: (event: any) => void;
+}
+
+export const queryFinder = (metric: ICanaryMetricConfig) =>
+  buildSignalFlow(metric.query as ISignalFxCanaryMetricSetQueryConfig);
+
+/*
+* Component for configuring a SignalFx metric.
+* */
+function SignalFxMetricConfigurer({ editingMetric, signalFlow, updateMetricName, updateQueryPairs, updateAggregationMethod }: ISignalFxMetricConfigurerStateProps & ISignalFxMetricConfigurerDispatchProps) {
+  const query = editingMetric.query as ISignalFxCanaryMetricSetQueryConfig;
+  return (
+    <section>
+      <FormRow label="Metric Name">
+        <DisableableInput
+          type="text"
+          value={query.metricName || ''}
+          onChange={updateMetricName}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        />
+      </FormRow>
+      <FormRow label="Dimension Filters">
+        <KeyValueList
+          list={query.queryPairs || []}
+          keyPlaceholder="dimension"
+          actionCreator={updateQueryPairs}
+        />
+      </FormRow>
+      <FormRow label="Aggregation Method">
+        <DisableableSelect
+          value={query.aggregationMethod || DEFAULT_AGGREGATION_METHOD}
+          className="form-control input-sm"
+          onChange={updateAggregationMethod}
+          disabledStateKeys={[DISABLE_EDIT_CONFIG]}
+        >
+          {SIGNAL_FX_AGGREGATION_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+        </DisableableSelect>
+      </FormRow>
+      <FormRow label="SignalFlow">
+        <pre className="signal-fx-signal-flow-preview">{signalFlow}</pre>
+      </FormRow>
+    </section>
+  );
+}
+
+function mapStateToProps(state: ICanaryState): ISignalFxMetricConfigurerStateProps {
+  const editingMetric = state.selectedConfig.editingMetric;
+  return {
+    editingMetric,
+    signalFlow: buildSignalFlow(editingMetric.query as ISignalFxCanaryMetricSetQueryConfig, state.selectedConfig.config.templates),
+  };
+}
+
+function mapDispatchToProps(dispatch: (action: Action & any) => void): ISignalFxMetricConfigurerDispatchProps {
+  return {
+    updateMetricName: (event: any) =>
+      dispatch(Creators.updateSignalFxMetricName({ metricName: event.target.value })),
+    updateQueryPairs: payload => dispatch(Creators.updateSignalFxQueryPairs(payload)),
+    updateAggregationMethod: (event: any) =>
+      dispatch(Creators.updateSignalFxAggregationMethod({ aggregationMethod: event.target.value })),
+  };
+}
+
+export default connect(mapStateToProps, mapDispatchToProps)(SignalFxMetricConfigurer);
@@ -0,0 +1,22 @@
+import { buildSignalFlow } from './signalFlow';
+
+describe('Service: signalFlow', () => {
+
+  const buildQuery = (query: any) => ({
+    type: 'signalfx',
+    serviceType: 'signalfx',
+    metricName: 'request.count',
+    ...query,
+  });
+
+  it('builds a program with dimension filters and the aggregation method', () => {
+    expect(buildSignalFlow(buildQuery({
+      queryPairs: [{ key: 'env', value: 'prod' }, { key: '', value: 'ignored' }],
+      aggregationMethod: 'sum',
+    }))).toEqual("data('request.count', filter=filter('env', 'prod') and ${scope}).sum().publish()");
+  });
+
+  it('defaults to the mean', () => {
+    expect(buildSignalFlow(buildQuery({}))).toEqual("data('request.count', filter=${scope}).mean().publish()");
+  });
+});
@@ -0,0 +1,27 @@
+import { ICanaryConfig } from 'kayenta/domain';
+import { ISignalFxCanaryMetricSetQueryConfig } from './domain/ISignalFxCanaryMetricSetQueryConfig';
+
+export const SIGNAL_FX_AGGREGATION_METHODS = ['mean', 'sum', 'min', 'max', 'count', 'stddev', 'variance'];
+
+export const DEFAULT_AGGREGATION_METHOD = 'mean';
+
+const quote = (value: string): string => `'${(value || '').replace(/(['\\])/g, '\\$1')}'`;
+
+// Builds the SignalFlow program Kayenta will run for a metric, with the scope left as a placeholder.
+export const buildSignalFlow = (query: ISignalFxCanaryMetricSetQueryConfig, templates?: ICanaryConfig['templates']): string => {
+  if (!query) {
+    return '';
+  }
+
+  let scope = '${scope}';
+  if (query.customFilterTemplate) {
+    scope = (templates || {})[query.customFilterTemplate] || `<template: ${query.customFilterTemplate}>`;
+  }
+  const filters = (query.queryPairs || [])
+    .filter(pair => !!pair.key)
+    .map(pair => `filter(${quote(pair.key)}, ${quote(pair.value)})`)
+    .concat(scope);
+
+  return `data(${quote(query.metricName)}, filter=${filters.join(' and ')})`
+    + `.${query.aggregationMethod || DEFAULT_AGGREGATION_METHOD}().publish()`;
+};
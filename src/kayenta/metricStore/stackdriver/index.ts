@@ -8,4 +8,14 @@ metricStoreConfigStore.register({
   metricConfigurer: StackdriverMetricConfigurer,
   queryFinder: (metric: ICanaryMetricConfig) => get(metric, 'query.metricType', ''),
   useTemplates: true,
+  querySchema: {
+    required: ['metricType'],
+    properties: {
+      metricType: { type: 'string' },
+      resourceType: { type: ['string', 'null'] },
+      crossSeriesReducer: { type: ['string', 'null'] },
+      perSeriesAligner: { type: ['string', 'null'] },
+      groupByFields: { type: 'array', items: { type: 'string' } },
+    },
+  },
 });
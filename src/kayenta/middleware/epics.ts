@@ -1,6 +1,8 @@
 import { Observable } from 'rxjs/Observable';
 import 'rxjs/add/observable/concat';
+import 'rxjs/add/observable/timer';
 import { Action, MiddlewareAPI } from 'redux';
+import { get, isEqual, pick } from 'lodash';
 import { createEpicMiddleware, combineEpics, EpicMiddleware } from 'redux-observable';
 import {
   createCanaryConfig,
@@ -16,11 +18,42 @@ import { ICanaryState } from 'kayenta/reducers';
 import { ReactInjector } from '@spinnaker/core';
 import {
   getCanaryRun,
-  getMetricSetPair
+  getMetricSetPair,
+  startCanaryRun,
 } from '../service/canaryRun.service';
-import { runSelector } from 'kayenta/selectors';
-import { ICanaryConfigUpdateResponse, KayentaAccountType } from 'kayenta/domain';
+import {
+  editingMetricAccountsSelector,
+  executionListQuerySelector,
+  runComparisonSelector,
+  runSelector,
+  selectedMetricComparisonSelector,
+} from 'kayenta/selectors';
+import {
+  ICanaryAnalysisResult,
+  ICanaryConfigUpdateResponse,
+  ICanaryExecutionStatusResult,
+  IMetricSetPair,
+  KayentaAccountType,
+} from 'kayenta/domain';
 import { listMetricsServiceMetadata } from 'kayenta/service/metricsServiceMetadata.service';
+import {
+  deleteConfigDraft,
+  getConfigDraft,
+  isDraftNewerThan,
+  saveConfigDraft,
+} from 'kayenta/service/configDraft.service';
+import { mergeConfigs } from 'kayenta/service/configMerge.service';
+import { listConfigRevisions, recordConfigRevision } from 'kayenta/service/configRevision.service';
+import { previewMetric } from 'kayenta/service/metricPreview.service';
+import {
+  deleteMetricLibraryEntry,
+  listMetricLibraryEntries,
+  saveMetricLibraryEntry,
+} from 'kayenta/service/metricLibrary.service';
+import { downloadConfigBundle, serializeConfigBundle } from 'kayenta/service/configBundle.service';
+import { ConfigFormat, getPreferredConfigFormat, setPreferredConfigFormat } from 'kayenta/service/configFormat.service';
+import { ConfigJsonModalTabState } from 'kayenta/edit/configJsonModal';
+import { getImportErrors } from 'kayenta/reducers/configBundle';
 
 const typeMatches = (...actions: string[]) => (action: Action & any) => actions.includes(action.type);
 
@@ -38,29 +71,51 @@ const selectConfigEpic = (action$: Observable<Action & any>) =>
     .filter(typeMatches(Actions.LOAD_CONFIG_SUCCESS))
     .map(action => Creators.selectConfig({ config: action.payload.config }));
 
+const navigateToSavedConfig = ({ canaryConfigId }: ICanaryConfigUpdateResponse, store: MiddlewareAPI<ICanaryState>) =>
+  Observable.forkJoin(
+    ReactInjector.$state.go('^.configDetail', { id: canaryConfigId, copy: false, 'new': false }),
+    store.getState().data.application.getDataSource('canaryConfigs').refresh(true)
+  ).mapTo(Creators.saveConfigSuccess({ id: canaryConfigId }));
+
 const saveConfigEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
   action$
     .filter(typeMatches(Actions.SAVE_CONFIG_REQUEST))
     .concatMap(() => {
       const config = mapStateToConfig(store.getState());
-      let saveAction: Promise<ICanaryConfigUpdateResponse>;
+      let saveAction: Observable<Action & any>;
       if (config.isNew) {
         delete config.isNew;
-        saveAction = createCanaryConfig(config);
+        saveAction = Observable.fromPromise(createCanaryConfig(config))
+          .concatMap(response => navigateToSavedConfig(response, store));
       } else {
-        saveAction = updateCanaryConfig(config);
+        // Check that nobody else has saved the config since it was loaded.
+        const base = store.getState().data.configs.find(c => c.id === config.id);
+        saveAction = Observable.fromPromise(getCanaryConfigById(config.id))
+          .concatMap(theirs =>
+            base && theirs.updatedTimestamp !== base.updatedTimestamp
+              ? Observable.of(Creators.saveConfigConflict({ base, theirs, mine: config }))
+              : Observable.fromPromise(updateCanaryConfig(config))
+                  .concatMap(response => navigateToSavedConfig(response, store))
+          );
       }
 
-      return Observable.fromPromise(saveAction)
-        .concatMap(({ canaryConfigId }) =>
-          Observable.forkJoin(
-            ReactInjector.$state.go('^.configDetail', { id: canaryConfigId, copy: false, 'new': false }),
-            store.getState().data.application.getDataSource('canaryConfigs').refresh(true)
-          ).mapTo(Creators.saveConfigSuccess({ id: canaryConfigId }))
-        )
+      return saveAction
         .catch((error: Error) => Observable.of(Creators.saveConfigFailure({ error })));
     });
 
+const confirmConfigMergeEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.CONFIRM_CONFIG_MERGE))
+    .concatMap(() => {
+      const { base, theirs, mine, resolutions } = store.getState().selectedConfig.merge;
+      const merged = mergeConfigs(base, theirs, mine, resolutions);
+      return Observable.of<Action & any>(
+        Creators.configMerged({ theirs, merged }),
+        Creators.selectConfig({ config: merged, undoable: true }),
+        Creators.saveConfig(),
+      );
+    });
+
 const deleteConfigRequestEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
   action$
     .filter(typeMatches(Actions.DELETE_CONFIG_REQUEST))
@@ -100,40 +155,151 @@ const loadMetricSetPairEpic = (action$: Observable<Action & any>, store: Middlew
         .catch((error: Error) => Observable.of(Creators.loadMetricSetPairFailure({ error })))
     });
 
-const updatePrometheusMetricDescriptionFilterEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+// Only finished runs with a judge result can be compared.
+const getComparableRun = (configId: string, runId: string): Promise<ICanaryExecutionStatusResult> =>
+  getCanaryRun(configId, runId).then(run => {
+    if (!run.result) {
+      throw new Error(`Run ${runId} doesn't have a result.`);
+    }
+    return run;
+  });
+
+const loadRunComparisonEpic = (action$: Observable<Action & any>) =>
   action$
-    .filter(typeMatches(Actions.UPDATE_PROMETHEUS_METRIC_DESCRIPTOR_FILTER))
-    .filter(action => action.payload.filter && action.payload.filter.length > 2)
-    .debounceTime(200 /* milliseconds */)
-    .map(action => {
-      const [metricsAccountName] = store.getState().data.kayentaAccounts.data
-        .filter(account =>
-          account.supportedTypes.includes(KayentaAccountType.MetricsStore) &&
-          account.type === 'prometheus')
-        .map(account => account.name);
-
-      return Creators.loadMetricsServiceMetadataRequest({
-        filter: action.payload.filter,
-        metricsAccountName,
-      });
+    .filter(typeMatches(Actions.LOAD_RUN_COMPARISON_REQUEST))
+    .switchMap(action => {
+      const { left, right } = action.payload;
+      return Observable.forkJoin(
+        Observable.fromPromise(getComparableRun(left.configId, left.runId)),
+        Observable.fromPromise(getComparableRun(right.configId, right.runId)),
+      )
+        .map(([leftRun, rightRun]) => Creators.loadRunComparisonSuccess({ left: leftRun, right: rightRun }))
+        .catch((error: Error) => Observable.of(Creators.loadRunComparisonFailure({ error })));
     });
 
-const updateStackdriverMetricDescriptionFilterEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+// Starts with the first metric whose classification changed between the runs.
+const selectFirstComparisonMetricEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
   action$
-    .filter(typeMatches(Actions.UPDATE_STACKDRIVER_METRIC_DESCRIPTOR_FILTER))
-    .filter(action => action.payload.filter && action.payload.filter.length > 2)
-    .debounceTime(200 /* milliseconds */)
-    .map(action => {
-      const [metricsAccountName] = store.getState().data.kayentaAccounts.data
-        .filter(account =>
-          account.supportedTypes.includes(KayentaAccountType.MetricsStore) &&
-          account.metricsStoreType === 'stackdriver')
-        .map(account => account.name);
-
-      return Creators.loadMetricsServiceMetadataRequest({
-        filter: action.payload.filter,
-        metricsAccountName,
+    .filter(typeMatches(Actions.LOAD_RUN_COMPARISON_SUCCESS))
+    .map(() => runComparisonSelector(store.getState()).metrics)
+    .filter(metrics => metrics.length > 0)
+    .map(metrics => Creators.selectComparisonMetric({
+      key: (metrics.find(metric => metric.classificationChanged) || metrics[0]).key,
+    }));
+
+const loadComparisonMetricSetPairsEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.SELECT_COMPARISON_METRIC))
+    .filter(() => !!selectedMetricComparisonSelector(store.getState()))
+    .switchMap(() => {
+      const state = store.getState();
+      const metric = selectedMetricComparisonSelector(state);
+      const { left, right } = state.runComparison;
+      const loadPair = (run: ICanaryExecutionStatusResult, result: ICanaryAnalysisResult): Promise<IMetricSetPair> =>
+        result
+          ? getMetricSetPair(run.metricSetPairListId || run.result.metricSetPairListId, result.id)
+          : Promise.resolve(null);
+
+      return Observable.forkJoin(
+        Observable.fromPromise(loadPair(left, metric.left)),
+        Observable.fromPromise(loadPair(right, metric.right)),
+      )
+        .map(([leftPair, rightPair]) => Creators.loadComparisonMetricSetPairsSuccess({ left: leftPair, right: rightPair }))
+        .catch((error: Error) => Observable.of(Creators.loadComparisonMetricSetPairsFailure({ error })));
+    });
+
+// Reloads the execution list when its page size, page count or status filter changes.
+// Loading more keeps the current executions on screen until the next page arrives.
+const refreshExecutionsEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.UPDATE_EXECUTION_LIST_PARAMS, Actions.LOAD_MORE_EXECUTIONS))
+    .map(action => ({
+      query: executionListQuerySelector(store.getState()),
+      loadMore: action.type === Actions.LOAD_MORE_EXECUTIONS,
+    }))
+    .distinctUntilChanged((a, b) => isEqual(a.query, b.query))
+    .do(() => store.getState().data.application.getDataSource('canaryExecutions').refresh(true))
+    .filter(({ loadMore }) => !loadMore)
+    .mapTo(Creators.loadExecutionsRequest());
+
+// Loads metric descriptors for autocompletion from the first account of the given metric store.
+const createMetricDescriptionFilterEpic = (actionType: string, metricStore: string) =>
+  (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+    action$
+      .filter(typeMatches(actionType))
+      .filter(action => action.payload.filter && action.payload.filter.length > 2)
+      .debounceTime(200 /* milliseconds */)
+      .map(action => {
+        const [metricsAccountName] = store.getState().data.kayentaAccounts.data
+          .filter(account =>
+            account.supportedTypes.includes(KayentaAccountType.MetricsStore) &&
+            (account.metricsStoreType || account.type) === metricStore)
+          .map(account => account.name);
+
+        return Creators.loadMetricsServiceMetadataRequest({
+          filter: action.payload.filter,
+          metricsAccountName,
+        });
       });
+
+const updatePrometheusMetricDescriptionFilterEpic =
+  createMetricDescriptionFilterEpic(Actions.UPDATE_PROMETHEUS_METRIC_DESCRIPTOR_FILTER, 'prometheus');
+
+const updateStackdriverMetricDescriptionFilterEpic =
+  createMetricDescriptionFilterEpic(Actions.UPDATE_STACKDRIVER_METRIC_DESCRIPTOR_FILTER, 'stackdriver');
+
+const updateDatadogMetricDescriptionFilterEpic =
+  createMetricDescriptionFilterEpic(Actions.UPDATE_DATADOG_METRIC_DESCRIPTOR_FILTER, 'datadog');
+
+const updateGraphiteMetricDescriptionFilterEpic =
+  createMetricDescriptionFilterEpic(Actions.UPDATE_GRAPHITE_METRIC_DESCRIPTOR_FILTER, 'graphite');
+
+const updateInfluxDbMetricDescriptionFilterEpic =
+  createMetricDescriptionFilterEpic(Actions.UPDATE_INFLUXDB_METRIC_DESCRIPTOR_FILTER, 'influxdb');
+
+const RUN_ANALYSIS_POLL_INTERVAL_MILLIS = 5000;
+
+// Starts a canary run for the selected config, then waits for it to finish and shows its report.
+// Closing the dialog stops the polling, not the run.
+const runAnalysisEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.RUN_ANALYSIS_REQUEST))
+    .switchMap(() => {
+      const state = store.getState();
+      const configId = state.selectedConfig.config.id;
+      return Observable.fromPromise(startCanaryRun(configId, state.data.application.name, state.selectedConfig.runAnalysis.params))
+        .concatMap(({ canaryExecutionId }) => Observable.concat(
+          Observable.of(Creators.runAnalysisStarted({ executionId: canaryExecutionId })),
+          Observable.timer(RUN_ANALYSIS_POLL_INTERVAL_MILLIS, RUN_ANALYSIS_POLL_INTERVAL_MILLIS)
+            .concatMap(() => Observable.fromPromise(getCanaryRun(configId, canaryExecutionId)))
+            .first(run => run.complete)
+            .concatMap(run => run.result
+              ? Observable.fromPromise(ReactInjector.$state.go(
+                  'home.applications.application.canary.report.reportDetail',
+                  { configId, runId: canaryExecutionId },
+                )).mapTo(Creators.runAnalysisSuccess())
+              : Observable.of(Creators.runAnalysisFailure({
+                  error: new Error(`The analysis finished with status '${run.status}' and no result.`),
+                }))
+            ),
+        ))
+        .takeUntil(action$.filter(typeMatches(Actions.RUN_ANALYSIS_MODAL_CLOSE)))
+        .catch((error: Error) => Observable.of(Creators.runAnalysisFailure({ error })));
+    });
+
+const loadMetricPreviewEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.LOAD_METRIC_PREVIEW_REQUEST))
+    .switchMap(() => {
+      const state = store.getState();
+      const { config, editingMetric, metricPreview } = state.selectedConfig;
+      const params = {
+        ...metricPreview.params,
+        metricsAccountName: metricPreview.params.metricsAccountName || editingMetricAccountsSelector(state)[0],
+      };
+      return Observable.fromPromise(previewMetric(editingMetric, config.templates, params))
+        .map(preview => Creators.loadMetricPreviewSuccess({ preview }))
+        .catch((error: Error) => Observable.of(Creators.loadMetricPreviewFailure({ error })));
     });
 
 const loadMetricsServiceMetadataEpic = (action$: Observable<Action & any>) =>
@@ -154,6 +320,189 @@ const loadKayentaAccountsEpic = (action$: Observable<Action & any>) =>
         .catch((error: Error) => Observable.of(Creators.loadKayentaAccountsFailure({ error })))
     );
 
+const findConfigDraftEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.LOAD_CONFIG_SUCCESS))
+    .map(action => ({
+      config: action.payload.config,
+      draft: getConfigDraft(store.getState().data.application.name, action.payload.config.id),
+    }))
+    .filter(({ draft }) => !!draft)
+    .map(({ config, draft }) =>
+      isDraftNewerThan(draft, config)
+        ? Creators.configDraftFound({ draft })
+        : Creators.discardConfigDraft({ id: config.id })
+    );
+
+const restoreConfigDraftEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.RESTORE_CONFIG_DRAFT))
+    .map(action => Creators.selectConfig({ config: action.payload.draft.config, undoable: true }));
+
+const deleteConfigDraftEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.DISCARD_CONFIG_DRAFT, Actions.SAVE_CONFIG_SUCCESS))
+    .do(action => deleteConfigDraft(store.getState().data.application.name, action.payload.id))
+    .ignoreElements();
+
+// Keeps a copy of unsaved edits in local storage so they survive a closed tab or crash.
+const autosaveConfigDraftEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .debounceTime(1000 /* milliseconds */)
+    .do(() => {
+      const state = store.getState();
+      const config = mapStateToConfig(state);
+      // Don't touch the stored draft while the user is deciding what to do with it.
+      if (!config || !config.id || config.isNew || state.selectedConfig.draft.draft) {
+        return;
+      }
+
+      const application = state.data.application.name;
+      if (state.selectedConfig.isInSyncWithServer) {
+        deleteConfigDraft(application, config.id);
+      } else {
+        saveConfigDraft(application, config);
+      }
+    })
+    .ignoreElements();
+
+// Configs are reloaded after every successful save; the reloaded config carries
+// the timestamp the server assigned to that save.
+const recordConfigRevisionEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.SAVE_CONFIG_SUCCESS))
+    .switchMap(() => action$.filter(typeMatches(Actions.LOAD_CONFIG_SUCCESS)).first())
+    .map(action => action.payload.config)
+    .concatMap(config =>
+      Observable.fromPromise(recordConfigRevision(config))
+        .mapTo(Creators.loadConfigRevisionsRequest({ id: config.id }))
+        .catch((error: Error) => Observable.of(Creators.loadConfigRevisionsFailure({ error })))
+    );
+
+const requestConfigRevisionsEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.LOAD_CONFIG_SUCCESS))
+    .map(action => Creators.loadConfigRevisionsRequest({ id: action.payload.config.id }));
+
+const loadConfigRevisionsEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.LOAD_CONFIG_REVISIONS_REQUEST))
+    .concatMap(action =>
+      Observable.fromPromise(listConfigRevisions(action.payload.id))
+        .map(revisions => Creators.loadConfigRevisionsSuccess({ revisions }))
+        .catch((error: Error) => Observable.of(Creators.loadConfigRevisionsFailure({ error })))
+    );
+
+// A restored revision is an unsaved edit on top of the current config, so it
+// keeps the current config's identity and timestamps.
+const restoreConfigRevisionEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.RESTORE_CONFIG_REVISION))
+    .map(action => {
+      const current = store.getState().selectedConfig.config;
+      return Creators.selectConfig({
+        config: {
+          ...action.payload.revision.config,
+          ...pick(current, ['id', 'createdTimestamp', 'createdTimestampIso', 'updatedTimestamp', 'updatedTimestampIso']),
+        },
+        undoable: true,
+      });
+    });
+
+// The library is loaded with each config so that metrics copied from it can be
+// checked for updates, and reloaded whenever it's browsed.
+const requestMetricLibraryEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.SELECT_CONFIG, Actions.METRIC_LIBRARY_MODAL_OPEN))
+    .filter(action => !get(action, 'payload.undoable'))
+    .mapTo(Creators.loadMetricLibraryRequest());
+
+const loadMetricLibraryEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.LOAD_METRIC_LIBRARY_REQUEST))
+    .switchMap(() =>
+      Observable.fromPromise(listMetricLibraryEntries(store.getState().data.application.name))
+        .map(entries => Creators.loadMetricLibrarySuccess({ entries }))
+        .catch((error: Error) => Observable.of(Creators.loadMetricLibraryFailure({ error })))
+    );
+
+const saveToMetricLibraryEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.SAVE_TO_METRIC_LIBRARY_REQUEST))
+    .concatMap(action => {
+      const state = store.getState();
+      const { id, global, entryId } = action.payload;
+      const metric = state.selectedConfig.metricList.find(m => m.id === id);
+      return Observable.fromPromise(saveMetricLibraryEntry(metric, global ? null : state.data.application.name, entryId))
+        .map(entry => Creators.saveToMetricLibrarySuccess({ id, entry }))
+        .catch((error: Error) => Observable.of(Creators.saveToMetricLibraryFailure({ error })));
+    });
+
+const deleteMetricLibraryEntryEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.DELETE_METRIC_LIBRARY_ENTRY_REQUEST))
+    .concatMap(action =>
+      Observable.fromPromise(deleteMetricLibraryEntry(action.payload.id))
+        .mapTo(Creators.deleteMetricLibraryEntrySuccess({ id: action.payload.id }))
+        .catch((error: Error) => Observable.of(Creators.deleteMetricLibraryEntryFailure({ error })))
+    );
+
+const exportConfigsEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.EXPORT_CONFIGS_REQUEST))
+    .concatMap(action => {
+      const state = store.getState();
+      const { format } = action.payload;
+      return Observable.forkJoin(
+        state.configBundle.export.selected.map(id => Observable.fromPromise(getCanaryConfigById(id)))
+      )
+        .do(configs => downloadConfigBundle(
+          serializeConfigBundle(configs, format),
+          `canary-configs-${state.data.application.name}`,
+          format,
+        ))
+        .mapTo(Creators.exportConfigsSuccess())
+        .catch((error: Error) => Observable.of(Creators.exportConfigsFailure({ error })));
+    });
+
+// Creates the selected configs one at a time so that each gets its own result.
+const importConfigsEpic = (action$: Observable<Action & any>, store: MiddlewareAPI<ICanaryState>) =>
+  action$
+    .filter(typeMatches(Actions.IMPORT_CONFIGS_REQUEST))
+    .concatMap(() => {
+      const state = store.getState();
+      const application = state.data.application;
+      const toImport = state.configBundle.import.configs
+        .map((imported, index) => ({ imported, index }))
+        .filter(({ imported, index }) => imported.include && !getImportErrors(state, index).length);
+
+      return Observable.concat(
+        Observable.from(toImport).concatMap(({ imported, index }) =>
+          Observable.fromPromise(createCanaryConfig({ ...imported.config, applications: [application.name] }))
+            .map(({ canaryConfigId }) => Creators.importConfigSuccess({ index, id: canaryConfigId }))
+            .catch((error: Error) => Observable.of(Creators.importConfigFailure({ index, error })))
+        ),
+        Observable.fromPromise(application.getDataSource('canaryConfigs').refresh(true))
+          .mapTo(Creators.importConfigsComplete())
+          .catch(() => Observable.of(Creators.importConfigsComplete())),
+      );
+    });
+
+const openConfigJsonModalEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.CONFIG_JSON_MODAL_OPEN))
+    .filter(() => getPreferredConfigFormat() === ConfigFormat.Yaml)
+    .mapTo(Creators.setConfigJsonModalTabState({ state: ConfigJsonModalTabState.Yaml }));
+
+const rememberConfigFormatEpic = (action$: Observable<Action & any>) =>
+  action$
+    .filter(typeMatches(Actions.SET_CONFIG_JSON_MODAL_TAB_STATE))
+    .filter(action => action.payload.state !== ConfigJsonModalTabState.Diff)
+    .do(action => setPreferredConfigFormat(
+      action.payload.state === ConfigJsonModalTabState.Yaml ? ConfigFormat.Yaml : ConfigFormat.Json
+    ))
+    .ignoreElements();
+
 const rootEpic = combineEpics(
   loadConfigEpic,
   selectConfigEpic,
@@ -162,10 +511,36 @@ const rootEpic = combineEpics(
   deleteConfigSuccessEpic,
   loadCanaryRunRequestEpic,
   loadMetricSetPairEpic,
+  loadRunComparisonEpic,
+  selectFirstComparisonMetricEpic,
+  loadComparisonMetricSetPairsEpic,
+  refreshExecutionsEpic,
   updatePrometheusMetricDescriptionFilterEpic,
   updateStackdriverMetricDescriptionFilterEpic,
+  updateDatadogMetricDescriptionFilterEpic,
+  updateGraphiteMetricDescriptionFilterEpic,
+  updateInfluxDbMetricDescriptionFilterEpic,
   loadMetricsServiceMetadataEpic,
+  loadMetricPreviewEpic,
+  runAnalysisEpic,
   loadKayentaAccountsEpic,
+  findConfigDraftEpic,
+  restoreConfigDraftEpic,
+  deleteConfigDraftEpic,
+  autosaveConfigDraftEpic,
+  confirmConfigMergeEpic,
+  recordConfigRevisionEpic,
+  requestConfigRevisionsEpic,
+  loadConfigRevisionsEpic,
+  restoreConfigRevisionEpic,
+  requestMetricLibraryEpic,
+  loadMetricLibraryEpic,
+  saveToMetricLibraryEpic,
+  deleteMetricLibraryEntryEpic,
+  exportConfigsEpic,
+  importConfigsEpic,
+  openConfigJsonModalEpic,
+  rememberConfigFormatEpic,
 );
 
 export const epicMiddleware: EpicMiddleware<Action & any, ICanaryState> = createEpicMiddleware(rootEpic);
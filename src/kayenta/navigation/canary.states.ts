@@ -15,7 +15,8 @@ import Canary, { canaryStore } from 'kayenta/canary';
 import SelectConfig from 'kayenta/edit/selectConfig';
 import Report from 'kayenta/report/report';
 import ResultDetailLoader from 'kayenta/report/detail/detailLoader';
-import ExecutionListLoadStates from 'kayenta/report/list/loadStates';
+import RunComparisonLoader from 'kayenta/report/comparison/comparisonLoader';
+import ExecutionListLoader from 'kayenta/report/list/listLoader';
 import * as Creators from 'kayenta/actions/creators';
 
 export const CANARY_STATES = 'spinnaker.kayenta.canary.states';
@@ -85,14 +86,50 @@ module(CANARY_STATES, [APPLICATION_STATE_PROVIDER])
     ],
   };
 
+  const reportComparison: INestedState = {
+    name: 'reportComparison',
+    url: '/compare/:configId/:runId/:otherConfigId/:otherRunId',
+    views: {
+      detail: {
+        component: RunComparisonLoader, $type: 'react',
+      },
+    },
+    resolve: [
+      {
+        token: 'comparisonIdStream',
+        deps: [UIRouter],
+        resolveFn: (uiRouter: any) => uiRouter.globals.params$,
+      }
+    ],
+  };
+
+  // The list's params are dynamic, so changing them doesn't reload the view.
   const reportDefault: INestedState = {
     name: 'reportDefault',
-    url: '',
+    url: '?configName&pipeline&classification&status&startDate&endDate&sortBy&sortDirection&pageSize',
     views: {
       detail: {
-        component: ExecutionListLoadStates, $type: 'react',
+        component: ExecutionListLoader, $type: 'react',
       }
     },
+    params: {
+      configName: { value: null, dynamic: true },
+      pipeline: { value: null, dynamic: true },
+      classification: { value: null, dynamic: true },
+      status: { value: null, dynamic: true },
+      startDate: { value: null, dynamic: true },
+      endDate: { value: null, dynamic: true },
+      sortBy: { value: null, dynamic: true },
+      sortDirection: { value: null, dynamic: true },
+      pageSize: { type: 'int', value: null, dynamic: true },
+    },
+    resolve: [
+      {
+        token: 'executionListParamsStream',
+        deps: [UIRouter],
+        resolveFn: (uiRouter: any) => uiRouter.globals.params$,
+      }
+    ],
   };
 
   const report: INestedState = {
@@ -104,7 +141,7 @@ module(CANARY_STATES, [APPLICATION_STATE_PROVIDER])
         component: Report, $type: 'react',
       },
     },
-    children: [reportDetail, reportDefault],
+    children: [reportDetail, reportComparison, reportDefault],
   };
 
   const canaryRoot: INestedState = {
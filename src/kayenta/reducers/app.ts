@@ -3,11 +3,14 @@ import { handleActions, combineActions } from 'redux-actions';
 
 import * as Actions from '../actions';
 import { ConfigJsonModalTabState } from '../edit/configJsonModal';
+import { ConfigDetailTabState } from '../edit/configDetail';
 
 export interface IAppState {
   deleteConfigModalOpen: boolean;
   configJsonModalOpen: boolean;
+  runAnalysisModalOpen: boolean;
   configJsonModalTabState: ConfigJsonModalTabState;
+  configDetailTabState: ConfigDetailTabState;
   disableConfigEdit: boolean;
 }
 
@@ -21,16 +24,28 @@ const configJsonModalOpen = handleActions({
   [combineActions(Actions.CONFIG_JSON_MODAL_CLOSE, Actions.SELECT_CONFIG)]: () => false,
 }, false);
 
+const runAnalysisModalOpen = handleActions({
+  [Actions.RUN_ANALYSIS_MODAL_OPEN]: () => true,
+  [combineActions(Actions.RUN_ANALYSIS_MODAL_CLOSE, Actions.RUN_ANALYSIS_SUCCESS, Actions.SELECT_CONFIG)]: () => false,
+}, false);
+
 const configJsonModalTabState = handleActions({
   [Actions.SET_CONFIG_JSON_MODAL_TAB_STATE]: (_state: ConfigJsonModalTabState, action: Action & any) => action.payload.state,
   [Actions.CONFIG_JSON_MODAL_OPEN]: () => ConfigJsonModalTabState.Edit,
 }, ConfigJsonModalTabState.Edit);
 
+const configDetailTabState = handleActions({
+  [Actions.SET_CONFIG_DETAIL_TAB_STATE]: (_state: ConfigDetailTabState, action: Action & any) => action.payload.state,
+  [combineActions(Actions.LOAD_CONFIG_REQUEST, Actions.RESTORE_CONFIG_REVISION)]: () => ConfigDetailTabState.Config,
+}, ConfigDetailTabState.Config);
+
 const disableConfigEdit = handleActions<boolean>({}, false);
 
 export const app: Reducer<IAppState> = combineReducers<IAppState>({
   deleteConfigModalOpen,
   configJsonModalOpen,
+  runAnalysisModalOpen,
   configJsonModalTabState,
+  configDetailTabState,
   disableConfigEdit,
 });
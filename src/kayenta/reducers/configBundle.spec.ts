@@ -0,0 +1,54 @@
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryConfig } from 'kayenta/domain';
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { configBundle as reducer, getImportErrors } from './configBundle';
+import { ICanaryState } from './index';
+
+describe('Reducer: configBundle (import)', () => {
+
+  const load = (configs: ICanaryConfig[]) =>
+    reducer(undefined, Creators.loadConfigBundle({ contents: JSON.stringify(configs), fileName: 'bundle.json' }));
+
+  const createState = (configs: ICanaryConfig[], existingNames: string[] = []): ICanaryState => ({
+    data: {
+      configSummaries: existingNames.map(name => ({ id: `${name}-id`, name })),
+      kayentaAccounts: { data: [] },
+    },
+    configBundle: load(configs),
+  } as any); // Ignore the state unrelated to importing.
+
+  it('lists every parsed config for import', () => {
+    const { import: imported } = load([createCanaryConfig({ name: 'first' }), createCanaryConfig({ name: 'second' })]);
+    expect(imported.fileName).toEqual('bundle.json');
+    expect(imported.parseError).toBeNull();
+    expect(imported.configs.map(c => [c.config.name, c.include])).toEqual([['first', true], ['second', true]]);
+  });
+
+  it('surfaces parse errors instead of configs', () => {
+    const { import: imported } = reducer(undefined, Creators.loadConfigBundle({ contents: '[{', fileName: 'bundle.json' }));
+    expect(imported.parseError).toMatch(/^line \d+, column \d+: /);
+    expect(imported.configs).toEqual([]);
+  });
+
+  it('blocks configs named like an existing config', () => {
+    const state = createState([createCanaryConfig({ name: 'existing' })], ['existing']);
+    expect(getImportErrors(state, 0).map(e => e.message)).toEqual([`Canary config 'existing' already exists.`]);
+  });
+
+  it('blocks all but the first included config with the same name', () => {
+    let state = createState([
+      createCanaryConfig({ name: 'dup' }),
+      createCanaryConfig({ name: 'dup' }),
+      createCanaryConfig({ name: 'dup' }),
+    ]);
+    expect(getImportErrors(state, 0)).toEqual([]);
+    expect(getImportErrors(state, 1).map(e => e.message)).toEqual([`Another config in this bundle is also named 'dup'.`]);
+
+    state = { ...state, configBundle: reducer(state.configBundle, Creators.toggleImportedConfig({ index: 0 })) };
+    expect(getImportErrors(state, 1)).toEqual([]);
+    expect(getImportErrors(state, 2).length).toEqual(1);
+
+    state = { ...state, configBundle: reducer(state.configBundle, Creators.renameImportedConfig({ index: 2, name: 'renamed' })) };
+    expect(getImportErrors(state, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { Action, combineReducers, Reducer } from 'redux';
+import { combineActions, handleActions } from 'redux-actions';
+import { get, without } from 'lodash';
+
+import * as Actions from '../actions';
+import { ICanaryConfig } from '../domain';
+import { AsyncRequestState } from './asyncRequest';
+import { parseConfigBundle } from '../service/configBundle.service';
+import { ICanaryState } from './index';
+import { ConfigValidationSeverity, IConfigValidationError, isBlocking, validateConfig } from './validators';
+
+export interface IConfigExportState {
+  enabled: boolean;
+  selected: string[];
+  state: AsyncRequestState;
+  error: string;
+}
+
+export interface IImportedConfig {
+  config: ICanaryConfig;
+  include: boolean;
+  // Null until an import of this config has been attempted.
+  state: AsyncRequestState;
+  error: string;
+}
+
+export interface IConfigImportState {
+  open: boolean;
+  fileName: string;
+  parseError: string;
+  configs: IImportedConfig[];
+  state: AsyncRequestState;
+}
+
+export interface IConfigBundleState {
+  export: IConfigExportState;
+  import: IConfigImportState;
+}
+
+const configExport = combineReducers<IConfigExportState>({
+  enabled: handleActions({
+    [Actions.SET_CONFIG_EXPORT_MODE]: (_state: boolean, action: Action & any) => action.payload.enabled,
+    [Actions.EXPORT_CONFIGS_SUCCESS]: () => false,
+  }, false),
+  selected: handleActions({
+    [Actions.SELECT_CONFIG_FOR_EXPORT]: (state: string[], action: Action & any) =>
+      action.payload.selected
+        ? state.concat([action.payload.id])
+        : without(state, action.payload.id),
+    [combineActions(Actions.SET_CONFIG_EXPORT_MODE, Actions.EXPORT_CONFIGS_SUCCESS)]: (): string[] => [],
+  }, []),
+  state: handleActions({
+    [Actions.EXPORT_CONFIGS_REQUEST]: () => AsyncRequestState.Requesting,
+    [combineActions(Actions.EXPORT_CONFIGS_SUCCESS, Actions.SET_CONFIG_EXPORT_MODE)]: () => AsyncRequestState.Fulfilled,
+    [Actions.EXPORT_CONFIGS_FAILURE]: () => AsyncRequestState.Failed,
+  }, AsyncRequestState.Fulfilled),
+  error: handleActions({
+    [Actions.EXPORT_CONFIGS_FAILURE]: (_state: string, action: Action & any) =>
+      get(action, 'payload.error.data.message', get(action, 'payload.error.message', null)),
+    [combineActions(Actions.EXPORT_CONFIGS_REQUEST, Actions.SET_CONFIG_EXPORT_MODE)]: (): string => null,
+  }, null),
+});
+
+const updateImportedConfig = (state: IImportedConfig[], index: number, update: Partial<IImportedConfig>): IImportedConfig[] =>
+  state.map((imported, i) => i === index ? { ...imported, ...update } : imported);
+
+const configImport = combineReducers<IConfigImportState>({
+  open: handleActions({
+    [Actions.CONFIG_IMPORT_MODAL_OPEN]: () => true,
+    [Actions.CONFIG_IMPORT_MODAL_CLOSE]: () => false,
+  }, false),
+  fileName: handleActions({
+    [Actions.LOAD_CONFIG_BUNDLE]: (_state: string, action: Action & any) => action.payload.fileName,
+    [Actions.CONFIG_IMPORT_MODAL_OPEN]: (): string => null,
+  }, null),
+  parseError: handleActions({
+    [Actions.LOAD_CONFIG_BUNDLE]: (_state: string, action: Action & any) => {
+      try {
+        parseConfigBundle(action.payload.contents);
+        return null;
+      } catch (e) {
+        return e.message;
+      }
+    },
+    [Actions.CONFIG_IMPORT_MODAL_OPEN]: (): string => null,
+  }, null),
+  configs: handleActions({
+    [Actions.LOAD_CONFIG_BUNDLE]: (_state: IImportedConfig[], action: Action & any): IImportedConfig[] => {
+      try {
+        return parseConfigBundle(action.payload.contents).map(config => ({
+          config,
+          include: true,
+          state: null as AsyncRequestState,
+          error: null as string,
+        }));
+      } catch (e) {
+        return [];
+      }
+    },
+    [Actions.TOGGLE_IMPORTED_CONFIG]: (state: IImportedConfig[], action: Action & any) =>
+      updateImportedConfig(state, action.payload.index, { include: !state[action.payload.index].include }),
+    [Actions.RENAME_IMPORTED_CONFIG]: (state: IImportedConfig[], action: Action & any) =>
+      updateImportedConfig(state, action.payload.index, {
+        config: { ...state[action.payload.index].config, name: action.payload.name },
+      }),
+    [Actions.IMPORT_CONFIG_SUCCESS]: (state: IImportedConfig[], action: Action & any) =>
+      updateImportedConfig(state, action.payload.index, { state: AsyncRequestState.Fulfilled, include: false }),
+    [Actions.IMPORT_CONFIG_FAILURE]: (state: IImportedConfig[], action: Action & any) =>
+      updateImportedConfig(state, action.payload.index, {
+        state: AsyncRequestState.Failed,
+        error: get(action, 'payload.error.data.message', 'Unknown error'),
+      }),
+    [Actions.CONFIG_IMPORT_MODAL_OPEN]: (): IImportedConfig[] => [],
+  }, []),
+  state: handleActions({
+    [Actions.IMPORT_CONFIGS_REQUEST]: () => AsyncRequestState.Requesting,
+    [Actions.IMPORT_CONFIGS_COMPLETE]: () => AsyncRequestState.Fulfilled,
+  }, AsyncRequestState.Fulfilled),
+});
+
+export const configBundle: Reducer<IConfigBundleState> = combineReducers<IConfigBundleState>({
+  export: configExport,
+  import: configImport,
+});
+
+// Validation errors that block importing a config, including name collisions with
+// existing configs and with other configs in the same bundle.
+export const getImportErrors = (state: ICanaryState, index: number): IConfigValidationError[] => {
+  const { configs } = state.configBundle.import;
+  const { config } = configs[index];
+  const errors = validateConfig(state, config).filter(isBlocking);
+  if (configs.some((other, i) => i < index && other.include && other.config.name === config.name)) {
+    errors.push({
+      message: `Another config in this bundle is also named '${config.name}'.`,
+      severity: ConfigValidationSeverity.Error,
+      path: ['name'],
+    });
+  }
+  return errors;
+};
@@ -1,5 +1,5 @@
 import { Action, combineReducers, Reducer } from 'redux';
-import { handleActions } from 'redux-actions';
+import { combineActions, handleActions } from 'redux-actions';
 import { without } from 'lodash';
 
 import { Application } from '@spinnaker/core';
@@ -53,6 +53,9 @@ const configs = handleActions({
       return state.concat([action.payload.config]);
     }
   },
+  // After a merge, the latest server copy becomes the version the edits are compared against.
+  [Actions.CONFIG_MERGED]: (state: ICanaryConfig[], action: Action & any): ICanaryConfig[] =>
+    state.map(config => config.id === action.payload.theirs.id ? action.payload.theirs : config),
 }, []);
 
 const judges = handleActions({
@@ -95,6 +98,12 @@ const metricsServiceMetadata = combineReducers<IMetricsServiceMetadataState>({
         // no longer apply to the filter.
         return action.payload.metricType ? state : [];
       },
+    [combineActions(Actions.UPDATE_DATADOG_METRIC_NAME, Actions.UPDATE_INFLUXDB_MEASUREMENT)]:
+      (state: IMetricsServiceMetadata, action: Action & any) => {
+        // Both actions carry the selected Datadog metric or InfluxDB measurement
+        // as `metricName`; once it's cleared, the loaded descriptors are stale.
+        return action.payload.metricName ? state : [];
+      },
     [Actions.EDIT_METRIC_BEGIN]: () => [],
   }, []),
 });
@@ -0,0 +1,37 @@
+import { Action } from 'redux';
+import { handleActions } from 'redux-actions';
+import { get } from 'lodash';
+
+import * as Actions from 'kayenta/actions';
+import { IUpdateListPayload, updateListReducer } from '../layout/list';
+import { IDatadogCanaryMetricSetQueryConfig } from 'kayenta/metricStore/datadog/domain/IDatadogCanaryMetricSetQueryConfig';
+import { buildCustomFilter, getTagFilters, removeEmptyTagFilters } from 'kayenta/metricStore/datadog/datadogQuery';
+import { IKayentaAction } from '../actions/creators';
+import { ISelectedConfigState } from './selectedConfig';
+
+const updateTagFiltersReducer = updateListReducer();
+
+export const datadogMetricConfigReducer = handleActions<IDatadogCanaryMetricSetQueryConfig, Action & any>({
+  [Actions.UPDATE_DATADOG_TAG_FILTERS]:
+    (state: IDatadogCanaryMetricSetQueryConfig, action: IKayentaAction<IUpdateListPayload>) => ({
+      ...state,
+      query: {
+        ...state.query,
+        customFilter: buildCustomFilter(updateTagFiltersReducer(getTagFilters(state.query), action)),
+      },
+    }),
+}, null);
+
+export const datadogMetricConfirmReducer = (state: ISelectedConfigState, action: Action & any): ISelectedConfigState => {
+  if (action.type !== Actions.EDIT_METRIC_CONFIRM || get(state, 'editingMetric.query.type') !== 'datadog') {
+    return state;
+  }
+
+  return {
+    ...state,
+    editingMetric: {
+      ...state.editingMetric,
+      query: removeEmptyTagFilters(state.editingMetric.query as IDatadogCanaryMetricSetQueryConfig),
+    },
+  };
+};
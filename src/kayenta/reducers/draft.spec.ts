@@ -0,0 +1,36 @@
+import * as Creators from 'kayenta/actions/creators';
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { IConfigDraft } from '../service/configDraft.service';
+import { selectedConfig as reducer } from './selectedConfig';
+
+describe('Reducer: selectedConfig (draft)', () => {
+
+  const draft: IConfigDraft = {
+    config: createCanaryConfig({ id: 'config-id', description: 'edited' }),
+    savedTimestamp: 2000,
+  };
+
+  const found = () => reducer(undefined, Creators.configDraftFound({ draft }));
+
+  it('holds a found draft until it is restored or discarded', () => {
+    expect(found().draft.draft).toEqual(draft);
+    expect(reducer(found(), Creators.restoreConfigDraft({ draft })).draft.draft).toBeNull();
+    expect(reducer(found(), Creators.discardConfigDraft({ id: 'config-id' })).draft.draft).toBeNull();
+  });
+
+  it('forgets the draft when another config is loaded', () => {
+    expect(reducer(found(), Creators.loadConfigRequest({ id: 'other-id' })).draft.draft).toBeNull();
+    expect(reducer(found(), Creators.clearSelectedConfig()).draft.draft).toBeNull();
+  });
+
+  it('hides the diff against the server copy until it is toggled', () => {
+    let state = found();
+    expect(state.draft.showDiff).toEqual(false);
+
+    state = reducer(state, Creators.toggleConfigDraftDiff());
+    expect(state.draft.showDiff).toEqual(true);
+
+    state = reducer(state, Creators.configDraftFound({ draft }));
+    expect(state.draft.showDiff).toEqual(false);
+  });
+});
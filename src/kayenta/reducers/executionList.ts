@@ -0,0 +1,39 @@
+import { Action } from 'redux';
+import { combineActions, handleActions } from 'redux-actions';
+import { isNil, omitBy } from 'lodash';
+
+import * as Actions from '../actions';
+import { DEFAULT_EXECUTION_LIST_PARAMS, IExecutionListParams } from 'kayenta/service/executionList.service';
+
+export interface IExecutionListState {
+  params: IExecutionListParams;
+  // Pages of executions requested from the server. Resets when the server-side query changes.
+  pageCount: number;
+  loadingMore: boolean;
+}
+
+export const executionList = handleActions({
+  [Actions.UPDATE_EXECUTION_LIST_PARAMS]: (state: IExecutionListState, action: Action & any): IExecutionListState => {
+    // Params missing from the URL fall back to their defaults.
+    const params = { ...DEFAULT_EXECUTION_LIST_PARAMS, ...omitBy(action.payload.params, isNil) };
+    const queryChanged = params.status !== state.params.status || params.pageSize !== state.params.pageSize;
+    return {
+      ...state,
+      params,
+      pageCount: queryChanged ? 1 : state.pageCount,
+    };
+  },
+  [Actions.LOAD_MORE_EXECUTIONS]: (state: IExecutionListState): IExecutionListState => ({
+    ...state,
+    pageCount: state.pageCount + 1,
+    loadingMore: true,
+  }),
+  [combineActions(Actions.LOAD_EXECUTIONS_SUCCESS, Actions.LOAD_EXECUTIONS_FAILURE)]: (state: IExecutionListState): IExecutionListState => ({
+    ...state,
+    loadingMore: false,
+  }),
+}, {
+  params: DEFAULT_EXECUTION_LIST_PARAMS,
+  pageCount: 1,
+  loadingMore: false,
+});
@@ -0,0 +1,11 @@
+import { Action } from 'redux';
+import { handleActions } from 'redux-actions';
+
+import * as Actions from 'kayenta/actions';
+import { IGraphiteCanaryMetricSetQueryConfig } from 'kayenta/metricStore/graphite/domain/IGraphiteCanaryMetricSetQueryConfig';
+
+export const graphiteMetricConfigReducer = handleActions<IGraphiteCanaryMetricSetQueryConfig, Action & any>({
+  [Actions.UPDATE_GRAPHITE_TARGET]: (state: IGraphiteCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, metricName: action.payload.metricName, type: 'graphite' },
+  }),
+}, null);
@@ -0,0 +1,102 @@
+import * as Actions from 'kayenta/actions/index';
+import { JudgeSelectRenderState } from 'kayenta/edit/judgeSelect';
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { ICanaryState } from './index';
+import { configEditHistoryReducer, discardNoopHistoryReducer, IConfigEditSnapshot, MAX_HISTORY_LENGTH } from './history';
+
+const createSnapshot = (name: string, groups: string[] = []): IConfigEditSnapshot => ({
+  config: createCanaryConfig({ name }),
+  metricList: [],
+  thresholds: { pass: 75, marginal: 50 },
+  judge: {
+    judgeConfig: { name: 'judge', judgeConfigurations: {} },
+    renderState: JudgeSelectRenderState.None,
+  },
+  group: { list: groups, groupWeights: {}, selected: groups[0] || '', edit: null },
+  selectedStore: 'prometheus',
+});
+
+describe('Reducer: configEditHistoryReducer', () => {
+
+  const createAction = (type: string, payload: any = {}) => ({
+    type,
+    payload,
+  });
+
+  const createState = (name: string,
+                       past: IConfigEditSnapshot[] = [],
+                       future: IConfigEditSnapshot[] = [],
+                       lastEditKey: string = null): ICanaryState => ({
+    selectedConfig: {
+      ...createSnapshot(name),
+      editingMetric: null,
+      history: { past, future, lastEditKey },
+    },
+  } as ICanaryState); // Ignore the state unrelated to config edits.
+
+  it('records a snapshot before an undoable edit', () => {
+    const state = configEditHistoryReducer(createState('before'), createAction(Actions.REMOVE_METRIC, { id: '#0' }));
+    expect(state.selectedConfig.history.past.length).toEqual(1);
+    expect(state.selectedConfig.history.past[0].config.name).toEqual('before');
+  });
+
+  it('ignores actions that are not undoable', () => {
+    const state = createState('before');
+    expect(configEditHistoryReducer(state, createAction(Actions.SELECT_GROUP, { name: 'a' }))).toBe(state);
+  });
+
+  it('collapses repeated keystrokes into the same field into one snapshot', () => {
+    let state = createState('a');
+    state = configEditHistoryReducer(state, createAction(Actions.UPDATE_CONFIG_NAME, { name: 'ab' }));
+    state = configEditHistoryReducer(state, createAction(Actions.UPDATE_CONFIG_NAME, { name: 'abc' }));
+    expect(state.selectedConfig.history.past.length).toEqual(1);
+
+    state = configEditHistoryReducer(state, createAction(Actions.UPDATE_CONFIG_DESCRIPTION, { description: 'd' }));
+    expect(state.selectedConfig.history.past.length).toEqual(2);
+  });
+
+  it('undoes and redoes', () => {
+    let state = createState('current', [createSnapshot('previous')]);
+
+    state = configEditHistoryReducer(state, createAction(Actions.UNDO_CONFIG_EDIT));
+    expect(state.selectedConfig.config.name).toEqual('previous');
+    expect(state.selectedConfig.history.past.length).toEqual(0);
+    expect(state.selectedConfig.history.future.length).toEqual(1);
+
+    state = configEditHistoryReducer(state, createAction(Actions.REDO_CONFIG_EDIT));
+    expect(state.selectedConfig.config.name).toEqual('current');
+    expect(state.selectedConfig.history.past.length).toEqual(1);
+    expect(state.selectedConfig.history.future.length).toEqual(0);
+  });
+
+  it('clears the redo stack on a new edit', () => {
+    const state = configEditHistoryReducer(
+      createState('current', [], [createSnapshot('next')]),
+      createAction(Actions.REMOVE_METRIC, { id: '#0' }),
+    );
+    expect(state.selectedConfig.history.future).toEqual([]);
+  });
+
+  it('caps the number of snapshots', () => {
+    const past = Array(MAX_HISTORY_LENGTH).fill(createSnapshot('old'));
+    const state = configEditHistoryReducer(createState('current', past), createAction(Actions.REMOVE_METRIC, { id: '#0' }));
+    expect(state.selectedConfig.history.past.length).toEqual(MAX_HISTORY_LENGTH);
+    expect(state.selectedConfig.history.past[MAX_HISTORY_LENGTH - 1].config.name).toEqual('current');
+  });
+});
+
+describe('Reducer: discardNoopHistoryReducer', () => {
+
+  it('discards a snapshot if the edit did not change anything', () => {
+    const action = { type: Actions.EDIT_GROUP_CONFIRM, payload: { group: 'a', edit: 'a' } };
+    let state = {
+      selectedConfig: {
+        ...createSnapshot('config', ['a']),
+        history: { past: [], future: [], lastEditKey: null },
+      },
+    } as ICanaryState;
+
+    state = discardNoopHistoryReducer(configEditHistoryReducer(state, action), action);
+    expect(state.selectedConfig.history.past).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import { Action } from 'redux';
+import { combineActions, handleActions } from 'redux-actions';
+import { isEqual, last } from 'lodash';
+
+import * as Actions from 'kayenta/actions';
+import { ICanaryState } from './index';
+import { ISelectedConfigState } from './selectedConfig';
+
+// The parts of the selected config state that make up the user's edits.
+export type IConfigEditSnapshot =
+  Pick<ISelectedConfigState, 'config' | 'metricList' | 'thresholds' | 'judge' | 'group' | 'selectedStore'>;
+
+export interface IConfigEditHistoryState {
+  past: IConfigEditSnapshot[];
+  future: IConfigEditSnapshot[];
+  // Identifies the last recorded edit so that bursts of the same edit
+  // (e.g., typing into the config name field) collapse into a single undo step.
+  lastEditKey: string;
+}
+
+export const MAX_HISTORY_LENGTH = 50;
+
+const UNDOABLE_ACTIONS = [
+  Actions.EDIT_METRIC_CONFIRM,
+  Actions.REMOVE_METRIC,
+  Actions.INSERT_LIBRARY_METRIC,
+  Actions.APPLY_METRIC_LIBRARY_UPDATE,
+  Actions.DISMISS_METRIC_LIBRARY_UPDATE,
+  Actions.CHANGE_METRIC_GROUP_CONFIRM,
+  Actions.ADD_GROUP,
+  Actions.EDIT_GROUP_CONFIRM,
+  Actions.UPDATE_GROUP_WEIGHT,
+  Actions.UPDATE_CONFIG_NAME,
+  Actions.UPDATE_CONFIG_DESCRIPTION,
+  Actions.UPDATE_SCORE_THRESHOLDS,
+  Actions.SELECT_JUDGE_NAME,
+  Actions.SELECT_METRIC_STORE,
+  Actions.EDIT_TEMPLATE_CONFIRM,
+  Actions.DELETE_TEMPLATE,
+];
+
+const emptyHistory = (): IConfigEditHistoryState => ({
+  past: [],
+  future: [],
+  lastEditKey: null,
+});
+
+export const history = handleActions<IConfigEditHistoryState>({
+  // Applying edited config JSON goes through SELECT_CONFIG, but is an edit like any other.
+  [Actions.SELECT_CONFIG]: (state: IConfigEditHistoryState, action: Action & any) =>
+    action.payload.undoable ? state : emptyHistory(),
+  [combineActions(Actions.SAVE_CONFIG_SUCCESS, Actions.CLEAR_SELECTED_CONFIG, Actions.DELETE_CONFIG_SUCCESS)]: emptyHistory,
+}, emptyHistory());
+
+export const buildConfigEditSnapshot = (state: ISelectedConfigState): IConfigEditSnapshot => ({
+  config: state.config,
+  // Metrics flagged as new only exist while the edit metric modal is open.
+  metricList: state.metricList.filter(metric => !metric.isNew),
+  thresholds: state.thresholds,
+  judge: state.judge,
+  group: { ...state.group, edit: null },
+  selectedStore: state.selectedStore,
+});
+
+const isUndoable = (action: Action & any): boolean =>
+  UNDOABLE_ACTIONS.includes(action.type)
+    || (action.type === Actions.SELECT_CONFIG && !!action.payload.undoable);
+
+// Edits that only differ by keystroke share a key; edits to different fields don't.
+const getEditKey = (action: Action & any): string => {
+  switch (action.type) {
+    case Actions.UPDATE_CONFIG_NAME:
+    case Actions.UPDATE_CONFIG_DESCRIPTION:
+    case Actions.UPDATE_SCORE_THRESHOLDS:
+      return action.type;
+    case Actions.UPDATE_GROUP_WEIGHT:
+      return `${action.type}:${action.payload.group}`;
+    default:
+      return null;
+  }
+};
+
+const restoreSnapshot = (state: ICanaryState, snapshot: IConfigEditSnapshot, historyState: IConfigEditHistoryState): ICanaryState => ({
+  ...state,
+  selectedConfig: {
+    ...state.selectedConfig,
+    ...snapshot,
+    editingMetric: null,
+    history: historyState,
+  },
+});
+
+// Runs before the rest of the reducers so that the snapshot reflects the
+// state prior to the edit being applied.
+export const configEditHistoryReducer = (state: ICanaryState, action: Action & any): ICanaryState => {
+  if (!state || !state.selectedConfig || !state.selectedConfig.config) {
+    return state;
+  }
+
+  const selectedConfig = state.selectedConfig;
+  const { past, future } = selectedConfig.history;
+  const current = buildConfigEditSnapshot(selectedConfig);
+
+  switch (action.type) {
+    case Actions.UNDO_CONFIG_EDIT:
+      if (!past.length) {
+        return state;
+      }
+      return restoreSnapshot(state, last(past), {
+        past: past.slice(0, -1),
+        future: [current].concat(future),
+        lastEditKey: null,
+      });
+
+    case Actions.REDO_CONFIG_EDIT:
+      if (!future.length) {
+        return state;
+      }
+      return restoreSnapshot(state, future[0], {
+        past: past.concat([current]),
+        future: future.slice(1),
+        lastEditKey: null,
+      });
+
+    default:
+      if (!isUndoable(action)) {
+        return state;
+      }
+  }
+
+  const editKey = getEditKey(action);
+  if (editKey && editKey === selectedConfig.history.lastEditKey) {
+    return state;
+  }
+
+  return {
+    ...state,
+    selectedConfig: {
+      ...selectedConfig,
+      history: {
+        past: past.concat([current]).slice(-MAX_HISTORY_LENGTH),
+        future: [],
+        lastEditKey: editKey,
+      },
+    },
+  };
+};
+
+// Runs after the rest of the reducers. Discards the snapshot recorded for
+// an edit that didn't actually change anything (e.g., renaming a group to an existing name).
+export const discardNoopHistoryReducer = (state: ICanaryState, action: Action & any): ICanaryState => {
+  if (!state || !state.selectedConfig || !state.selectedConfig.config || !isUndoable(action)) {
+    return state;
+  }
+
+  const { history: historyState } = state.selectedConfig;
+  if (!historyState.past.length
+      || historyState.lastEditKey
+      || !isEqual(last(historyState.past), buildConfigEditSnapshot(state.selectedConfig))) {
+    return state;
+  }
+
+  return {
+    ...state,
+    selectedConfig: {
+      ...state.selectedConfig,
+      history: {
+        ...historyState,
+        past: historyState.past.slice(0, -1),
+      },
+    },
+  };
+};
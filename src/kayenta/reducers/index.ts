@@ -11,11 +11,16 @@ import {
   selectedConfig
 } from './selectedConfig';
 import { JudgeSelectRenderState } from 'kayenta/edit/judgeSelect';
-import { IJudge, ICanaryJudgeConfig, ICanaryAnalysisResult, KayentaAccountType, ICanaryMetricConfig } from 'kayenta/domain';
+import { IJudge, ICanaryJudgeConfig, ICanaryAnalysisResult, KayentaAccountType } from 'kayenta/domain';
 import { mapStateToConfig } from 'kayenta/service/canaryConfig.service';
 import { ISelectedRunState, selectedRun } from './selectedRun';
+import { configBundle, IConfigBundleState } from './configBundle';
+import { IMetricLibraryState, metricLibrary } from './metricLibrary';
+import { IRunComparisonState, runComparison } from './runComparison';
+import { executionList, IExecutionListState } from './executionList';
 import { metricResultsSelector } from 'kayenta/selectors';
 import { validationErrorsReducer } from './validators';
+import { configEditHistoryReducer, discardNoopHistoryReducer } from './history';
 import { AsyncRequestState } from './asyncRequest';
 import { CanarySettings } from 'kayenta/canary.settings';
 
@@ -24,6 +29,10 @@ export interface ICanaryState {
   data: IDataState;
   selectedConfig: ISelectedConfigState;
   selectedRun: ISelectedRunState;
+  configBundle: IConfigBundleState;
+  metricLibrary: IMetricLibraryState;
+  runComparison: IRunComparisonState;
+  executionList: IExecutionListState;
 }
 
 const combined = combineReducers<ICanaryState>({
@@ -32,6 +41,10 @@ const combined = combineReducers<ICanaryState>({
   data,
   selectedConfig,
   selectedRun,
+  configBundle,
+  metricLibrary,
+  runComparison,
+  executionList,
 });
 
 const judgeRenderStateReducer = handleActions({
@@ -162,8 +175,8 @@ const selectedMetricReducer = (state: ICanaryState, action: Action & any) => {
   };
 };
 
-// TODO(dpeach): this assumes that a config can only use one metric store.
-// If that changes, then metric store handling will have to be done per metric.
+// The selected metric store is the one that new metrics query by default;
+// each metric can be switched to any other store while it's being edited.
 const selectedMetricStoreReducer = (state: ICanaryState, action: Action & any) => {
   switch (action.type) {
     case Actions.SELECT_CONFIG:
@@ -195,23 +208,14 @@ const selectedMetricStoreReducer = (state: ICanaryState, action: Action & any) =
       };
     }
 
-    case Actions.SELECT_METRIC_STORE: {
-      const selectedStore: string = action.payload.store;
-      // Flips all metrics to use the selected metric store.
-      const metricUpdater = (metric: ICanaryMetricConfig): ICanaryMetricConfig => ({
-        ...metric,
-        query: { ...metric.query, type: selectedStore, serviceType: selectedStore, },
-      });
-
+    case Actions.SELECT_METRIC_STORE:
       return {
         ...state,
         selectedConfig: {
           ...state.selectedConfig,
-          metricList: state.selectedConfig.metricList.map(metricUpdater),
-          selectedStore,
+          selectedStore: action.payload.store,
         },
       };
-    }
 
     default:
       return state;
@@ -234,12 +238,14 @@ const disableConfigEditReducer = (state: ICanaryState) => {
 
 export const rootReducer = (state: ICanaryState, action: Action & any): ICanaryState => {
   return [
+    configEditHistoryReducer,
     combined,
     judgeRenderStateReducer,
     selectedMetricStoreReducer,
     selectedMetricReducer,
     disableConfigEditReducer,
     validationErrorsReducer,
+    discardNoopHistoryReducer,
     isInSyncWithServerReducer,
   ].reduce((s, reducer) => reducer(s, action), state);
 };
@@ -0,0 +1,49 @@
+import { Action } from 'redux';
+import { handleActions } from 'redux-actions';
+import { get } from 'lodash';
+
+import * as Actions from 'kayenta/actions';
+import { IUpdateListPayload, updateListReducer } from '../layout/list';
+import { IUpdateKeyValueListPayload, updateKeyValueListReducer } from '../layout/keyValueList';
+import { IInfluxDbCanaryMetricSetQueryConfig } from 'kayenta/metricStore/influxdb/domain/IInfluxDbCanaryMetricSetQueryConfig';
+import { buildCustomFilter, getTagFilters, removeEmptyTagFilters } from 'kayenta/metricStore/influxdb/influxQl';
+import { IKayentaAction } from '../actions/creators';
+import { ISelectedConfigState } from './selectedConfig';
+
+const updateFieldsReducer = updateListReducer();
+
+export const influxDbMetricConfigReducer = handleActions<IInfluxDbCanaryMetricSetQueryConfig, Action & any>({
+  [Actions.UPDATE_INFLUXDB_MEASUREMENT]: (state: IInfluxDbCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, metricName: action.payload.metricName, type: 'influxdb' },
+  }),
+  [Actions.UPDATE_INFLUXDB_FIELDS]:
+    (state: IInfluxDbCanaryMetricSetQueryConfig, action: IKayentaAction<IUpdateListPayload>) => ({
+      ...state,
+      query: {
+        ...state.query,
+        fields: updateFieldsReducer(state.query.fields || [], action),
+      },
+    }),
+  [Actions.UPDATE_INFLUXDB_TAG_FILTERS]:
+    (state: IInfluxDbCanaryMetricSetQueryConfig, action: IKayentaAction<IUpdateKeyValueListPayload>) => ({
+      ...state,
+      query: {
+        ...state.query,
+        customFilter: buildCustomFilter(updateKeyValueListReducer(getTagFilters(state.query), action)),
+      },
+    }),
+}, null);
+
+export const influxDbMetricConfirmReducer = (state: ISelectedConfigState, action: Action & any): ISelectedConfigState => {
+  if (action.type !== Actions.EDIT_METRIC_CONFIRM || get(state, 'editingMetric.query.type') !== 'influxdb') {
+    return state;
+  }
+
+  return {
+    ...state,
+    editingMetric: {
+      ...state.editingMetric,
+      query: removeEmptyTagFilters(state.editingMetric.query as IInfluxDbCanaryMetricSetQueryConfig),
+    },
+  };
+};
@@ -0,0 +1,101 @@
+import { Action, combineReducers } from 'redux';
+import { combineActions, handleActions } from 'redux-actions';
+import { get } from 'lodash';
+
+import * as Actions from '../actions';
+import { IMetricLibraryEntry } from '../service/metricLibrary.service';
+import { AsyncRequestState } from './asyncRequest';
+
+export interface IMetricLibraryState {
+  entries: IMetricLibraryEntry[];
+  load: AsyncRequestState;
+  error: string;
+  browseModalOpen: boolean;
+  searchText: string;
+  // Id of the metric being saved to the library.
+  savingMetric: string;
+  save: AsyncRequestState;
+  // Id of the metric whose library update is being reviewed.
+  updatingMetric: string;
+}
+
+const withEntry = (list: IMetricLibraryEntry[], entry: IMetricLibraryEntry): IMetricLibraryEntry[] =>
+  list.some(e => e.id === entry.id)
+    ? list.map(e => e.id === entry.id ? entry : e)
+    : list.concat([entry]);
+
+const entries = handleActions({
+  [Actions.LOAD_METRIC_LIBRARY_SUCCESS]: (_state: IMetricLibraryEntry[], action: Action & any) => action.payload.entries,
+  [Actions.SAVE_TO_METRIC_LIBRARY_SUCCESS]: (state: IMetricLibraryEntry[], action: Action & any) =>
+    withEntry(state, action.payload.entry),
+  [Actions.DELETE_METRIC_LIBRARY_ENTRY_SUCCESS]: (state: IMetricLibraryEntry[], action: Action & any) =>
+    state.filter(entry => entry.id !== action.payload.id),
+}, []);
+
+const load = handleActions({
+  [Actions.LOAD_METRIC_LIBRARY_REQUEST]: () => AsyncRequestState.Requesting,
+  [Actions.LOAD_METRIC_LIBRARY_SUCCESS]: () => AsyncRequestState.Fulfilled,
+  [Actions.LOAD_METRIC_LIBRARY_FAILURE]: () => AsyncRequestState.Failed,
+}, null);
+
+const error = handleActions({
+  [combineActions(
+    Actions.LOAD_METRIC_LIBRARY_FAILURE,
+    Actions.SAVE_TO_METRIC_LIBRARY_FAILURE,
+    Actions.DELETE_METRIC_LIBRARY_ENTRY_FAILURE,
+  )]: (_state: string, action: Action & any) =>
+    get(action, 'payload.error.data.message') || get(action, 'payload.error.message', null),
+  [combineActions(
+    Actions.LOAD_METRIC_LIBRARY_REQUEST,
+    Actions.SAVE_TO_METRIC_LIBRARY_REQUEST,
+    Actions.DELETE_METRIC_LIBRARY_ENTRY_REQUEST,
+    Actions.METRIC_LIBRARY_MODAL_OPEN,
+    Actions.SAVE_TO_METRIC_LIBRARY_MODAL_OPEN,
+  )]: (): string => null,
+}, null);
+
+const browseModalOpen = handleActions({
+  [Actions.METRIC_LIBRARY_MODAL_OPEN]: () => true,
+  [combineActions(Actions.METRIC_LIBRARY_MODAL_CLOSE, Actions.INSERT_LIBRARY_METRIC, Actions.SELECT_CONFIG)]: () => false,
+}, false);
+
+const searchText = handleActions({
+  [Actions.UPDATE_METRIC_LIBRARY_SEARCH]: (_state: string, action: Action & any) => action.payload.text,
+  [Actions.METRIC_LIBRARY_MODAL_OPEN]: () => '',
+}, '');
+
+const savingMetric = handleActions({
+  [Actions.SAVE_TO_METRIC_LIBRARY_MODAL_OPEN]: (_state: string, action: Action & any) => action.payload.id,
+  [combineActions(
+    Actions.SAVE_TO_METRIC_LIBRARY_MODAL_CLOSE,
+    Actions.SAVE_TO_METRIC_LIBRARY_SUCCESS,
+    Actions.SELECT_CONFIG,
+  )]: (): string => null,
+}, null);
+
+const save = handleActions({
+  [Actions.SAVE_TO_METRIC_LIBRARY_REQUEST]: () => AsyncRequestState.Requesting,
+  [combineActions(Actions.SAVE_TO_METRIC_LIBRARY_SUCCESS, Actions.SAVE_TO_METRIC_LIBRARY_MODAL_OPEN)]: () => AsyncRequestState.Fulfilled,
+  [Actions.SAVE_TO_METRIC_LIBRARY_FAILURE]: () => AsyncRequestState.Failed,
+}, AsyncRequestState.Fulfilled);
+
+const updatingMetric = handleActions({
+  [Actions.METRIC_LIBRARY_UPDATE_MODAL_OPEN]: (_state: string, action: Action & any) => action.payload.id,
+  [combineActions(
+    Actions.METRIC_LIBRARY_UPDATE_MODAL_CLOSE,
+    Actions.APPLY_METRIC_LIBRARY_UPDATE,
+    Actions.DISMISS_METRIC_LIBRARY_UPDATE,
+    Actions.SELECT_CONFIG,
+  )]: (): string => null,
+}, null);
+
+export const metricLibrary = combineReducers<IMetricLibraryState>({
+  entries,
+  load,
+  error,
+  browseModalOpen,
+  searchText,
+  savingMetric,
+  save,
+  updatingMetric,
+});
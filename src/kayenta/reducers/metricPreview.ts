@@ -0,0 +1,57 @@
+import { combineActions, handleActions } from 'redux-actions';
+import { Action, combineReducers } from 'redux';
+import { get } from 'lodash';
+import * as Actions from 'kayenta/actions';
+import { AsyncRequestState } from './asyncRequest';
+import { IMetricPreview, IMetricPreviewParams } from 'kayenta/service/metricPreview.service';
+
+export interface IMetricPreviewState {
+  params: IMetricPreviewParams;
+  // Null until a preview is requested for the metric being edited.
+  load: AsyncRequestState;
+  preview: IMetricPreview;
+  error: string;
+}
+
+// Previews are for the metric being edited, so they're discarded when it changes hands or metric stores.
+const RESET_ACTIONS = [Actions.EDIT_METRIC_BEGIN, Actions.UPDATE_METRIC_STORE];
+
+// Sample scopes are kept between metrics, since they're usually the same for a whole config.
+const params = handleActions<IMetricPreviewParams>({
+  [Actions.UPDATE_METRIC_PREVIEW_PARAMS]: (state, action: Action & any) => ({ ...state, ...action.payload.params }),
+  // Accounts belong to a metric store.
+  [combineActions(...RESET_ACTIONS)]: state => ({ ...state, metricsAccountName: null }),
+}, {
+  metricsAccountName: null,
+  controlScope: '',
+  experimentScope: '',
+  location: '',
+  startTimeIso: '',
+  endTimeIso: '',
+  step: null,
+});
+
+const load = handleActions<AsyncRequestState>({
+  [Actions.LOAD_METRIC_PREVIEW_REQUEST]: () => AsyncRequestState.Requesting,
+  [Actions.LOAD_METRIC_PREVIEW_SUCCESS]: () => AsyncRequestState.Fulfilled,
+  [Actions.LOAD_METRIC_PREVIEW_FAILURE]: () => AsyncRequestState.Failed,
+  [combineActions(...RESET_ACTIONS)]: (): AsyncRequestState => null,
+}, null);
+
+const preview = handleActions<IMetricPreview>({
+  [Actions.LOAD_METRIC_PREVIEW_SUCCESS]: (_state, action: Action & any) => action.payload.preview,
+  [combineActions(Actions.LOAD_METRIC_PREVIEW_REQUEST, ...RESET_ACTIONS)]: (): IMetricPreview => null,
+}, null);
+
+const error = handleActions<string>({
+  [Actions.LOAD_METRIC_PREVIEW_FAILURE]: (_state, action: Action & any) =>
+    get(action, 'payload.error.data.message') || get(action, 'payload.error.message', null),
+  [combineActions(Actions.LOAD_METRIC_PREVIEW_REQUEST, ...RESET_ACTIONS)]: (): string => null,
+}, null);
+
+export const metricPreview = combineReducers<IMetricPreviewState>({
+  params,
+  load,
+  preview,
+  error,
+});
@@ -0,0 +1,14 @@
+import { Action } from 'redux';
+import { handleActions } from 'redux-actions';
+
+import * as Actions from 'kayenta/actions';
+import { INewRelicCanaryMetricSetQueryConfig } from 'kayenta/metricStore/newrelic/domain/INewRelicCanaryMetricSetQueryConfig';
+
+export const newRelicMetricConfigReducer = handleActions<INewRelicCanaryMetricSetQueryConfig, Action & any>({
+  [Actions.UPDATE_NEW_RELIC_SELECT]: (state: INewRelicCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, select: action.payload.select, type: 'newrelic' },
+  }),
+  [Actions.UPDATE_NEW_RELIC_WHERE]: (state: INewRelicCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, q: action.payload.q },
+  }),
+}, null);
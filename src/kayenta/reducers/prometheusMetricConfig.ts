@@ -1,10 +1,13 @@
 import { Action } from 'redux';
 import { handleActions } from 'redux-actions';
+import { get } from 'lodash';
 
 import * as Actions from 'kayenta/actions';
 import { IUpdateListPayload, updateListReducer } from '../layout/list';
 import { IPrometheusCanaryMetricSetQueryConfig } from 'kayenta/metricStore/prometheus/domain/IPrometheusCanaryMetricSetQueryConfig';
 import { IKayentaAction } from '../actions/creators';
+import { DEFAULT_RANGE_WINDOW, toKayentaQuery } from 'kayenta/metricStore/prometheus/promQl';
+import { ISelectedConfigState } from './selectedConfig';
 
 const updateLabelBindingsReducer = updateListReducer();
 const updateGroupByReducer = updateListReducer();
@@ -29,4 +32,41 @@ export const prometheusMetricConfigReducer = handleActions<IPrometheusCanaryMetr
         groupByFields: updateGroupByReducer(state.query.groupByFields || [], action),
       },
     }),
+  [Actions.UPDATE_PROMETHEUS_RESOURCE_TYPE]: (state: IPrometheusCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, resourceType: action.payload.resourceType || null },
+  }),
+  [Actions.UPDATE_PROMETHEUS_AGGREGATION]: (state: IPrometheusCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, aggregation: action.payload.aggregation || null },
+  }),
+  [Actions.UPDATE_PROMETHEUS_RANGE_FUNCTION]: (state: IPrometheusCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state,
+    query: {
+      ...state.query,
+      rangeFunction: action.payload.rangeFunction || null,
+      rangeWindow: action.payload.rangeFunction ? state.query.rangeWindow || DEFAULT_RANGE_WINDOW : null,
+    },
+  }),
+  [Actions.UPDATE_PROMETHEUS_RANGE_WINDOW]: (state: IPrometheusCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, rangeWindow: action.payload.rangeWindow },
+  }),
+  // A null template switches the metric back to the query builder.
+  [Actions.UPDATE_PROMETHEUS_INLINE_TEMPLATE]: (state: IPrometheusCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, customInlineTemplate: action.payload.customInlineTemplate },
+  }),
 }, null);
+
+// Needs the config's templates, so it runs on the whole selected config before the
+// edited metric is confirmed into the metric list.
+export const prometheusMetricConfirmReducer = (state: ISelectedConfigState, action: Action & any): ISelectedConfigState => {
+  if (action.type !== Actions.EDIT_METRIC_CONFIRM || get(state, 'editingMetric.query.type') !== 'prometheus') {
+    return state;
+  }
+
+  return {
+    ...state,
+    editingMetric: {
+      ...state.editingMetric,
+      query: toKayentaQuery(state.editingMetric.query as IPrometheusCanaryMetricSetQueryConfig, state.config.templates),
+    },
+  };
+};
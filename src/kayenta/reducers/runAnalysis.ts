@@ -0,0 +1,75 @@
+import { combineActions, handleActions } from 'redux-actions';
+import { Action, combineReducers } from 'redux';
+import { get } from 'lodash';
+import * as Actions from 'kayenta/actions';
+import { AsyncRequestState } from './asyncRequest';
+import { CanarySettings } from 'kayenta/canary.settings';
+import { IRunAnalysisParams, IRunAnalysisScopeParams } from 'kayenta/service/canaryRun.service';
+
+export interface IRunAnalysisState {
+  params: IRunAnalysisParams;
+  // Null until an analysis is requested; stays Requesting while the run is polled.
+  state: AsyncRequestState;
+  executionId: string;
+  error: string;
+}
+
+const EMPTY_SCOPE: IRunAnalysisScopeParams = {
+  controlScope: '',
+  controlLocation: '',
+  experimentScope: '',
+  experimentLocation: '',
+};
+
+const params = handleActions<IRunAnalysisParams>({
+  [Actions.RUN_ANALYSIS_MODAL_OPEN]: (state, action: Action & any) => ({
+    ...state,
+    // Scopes entered for an earlier run are kept if the config still uses them.
+    scopes: action.payload.scopeNames.reduce(
+      (scopes: {[scopeName: string]: IRunAnalysisScopeParams}, scopeName: string) =>
+        ({ ...scopes, [scopeName]: state.scopes[scopeName] || EMPTY_SCOPE }),
+      {},
+    ),
+    thresholds: { ...action.payload.thresholds },
+  }),
+  [Actions.UPDATE_RUN_ANALYSIS_PARAMS]: (state, action: Action & any) => ({ ...state, ...action.payload.params }),
+  [Actions.UPDATE_RUN_ANALYSIS_SCOPE]: (state, action: Action & any) => ({
+    ...state,
+    scopes: {
+      ...state.scopes,
+      [action.payload.scopeName]: { ...state.scopes[action.payload.scopeName], ...action.payload.scope },
+    },
+  }),
+}, {
+  scopes: {},
+  startTimeIso: '',
+  endTimeIso: '',
+  step: 60,
+  thresholds: { pass: null, marginal: null },
+  metricsAccountName: CanarySettings.metricsAccountName,
+});
+
+const requestState = handleActions<AsyncRequestState>({
+  [Actions.RUN_ANALYSIS_REQUEST]: () => AsyncRequestState.Requesting,
+  [Actions.RUN_ANALYSIS_SUCCESS]: () => AsyncRequestState.Fulfilled,
+  [Actions.RUN_ANALYSIS_FAILURE]: () => AsyncRequestState.Failed,
+  [combineActions(Actions.RUN_ANALYSIS_MODAL_OPEN, Actions.RUN_ANALYSIS_MODAL_CLOSE)]: (): AsyncRequestState => null,
+}, null);
+
+const executionId = handleActions<string>({
+  [Actions.RUN_ANALYSIS_STARTED]: (_state, action: Action & any) => action.payload.executionId,
+  [combineActions(Actions.RUN_ANALYSIS_MODAL_OPEN, Actions.RUN_ANALYSIS_REQUEST)]: (): string => null,
+}, null);
+
+const error = handleActions<string>({
+  [Actions.RUN_ANALYSIS_FAILURE]: (_state, action: Action & any) =>
+    get(action, 'payload.error.data.message') || get(action, 'payload.error.message', null),
+  [combineActions(Actions.RUN_ANALYSIS_MODAL_OPEN, Actions.RUN_ANALYSIS_REQUEST)]: (): string => null,
+}, null);
+
+export const runAnalysis = combineReducers<IRunAnalysisState>({
+  params,
+  state: requestState,
+  executionId,
+  error,
+});
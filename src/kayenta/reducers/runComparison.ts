@@ -0,0 +1,83 @@
+import { Action, combineReducers } from 'redux';
+import { combineActions, handleActions } from 'redux-actions';
+import { get } from 'lodash';
+
+import * as Actions from '../actions';
+import { ICanaryExecutionStatusResult, IMetricSetPair } from '../domain';
+import { AsyncRequestState } from './asyncRequest';
+
+export interface IComparisonMetricSetPairsState {
+  // Null if the selected metric isn't in that run.
+  left: IMetricSetPair;
+  right: IMetricSetPair;
+  load: AsyncRequestState;
+}
+
+export interface IRunComparisonState {
+  left: ICanaryExecutionStatusResult;
+  right: ICanaryExecutionStatusResult;
+  load: AsyncRequestState;
+  error: string;
+  // Key of the selected metric comparison.
+  selectedMetric: string;
+  metricSetPairs: IComparisonMetricSetPairsState;
+  // Whether both runs' series are graphed together rather than side by side.
+  overlay: boolean;
+}
+
+const left = handleActions({
+  [Actions.LOAD_RUN_COMPARISON_SUCCESS]: (_state: ICanaryExecutionStatusResult, action: Action & any) => action.payload.left,
+  [Actions.LOAD_RUN_COMPARISON_REQUEST]: (): ICanaryExecutionStatusResult => null,
+}, null);
+
+const right = handleActions({
+  [Actions.LOAD_RUN_COMPARISON_SUCCESS]: (_state: ICanaryExecutionStatusResult, action: Action & any) => action.payload.right,
+  [Actions.LOAD_RUN_COMPARISON_REQUEST]: (): ICanaryExecutionStatusResult => null,
+}, null);
+
+const load = handleActions({
+  [Actions.LOAD_RUN_COMPARISON_REQUEST]: () => AsyncRequestState.Requesting,
+  [Actions.LOAD_RUN_COMPARISON_SUCCESS]: () => AsyncRequestState.Fulfilled,
+  [Actions.LOAD_RUN_COMPARISON_FAILURE]: () => AsyncRequestState.Failed,
+}, AsyncRequestState.Requesting);
+
+const error = handleActions({
+  [Actions.LOAD_RUN_COMPARISON_FAILURE]: (_state: string, action: Action & any) =>
+    get(action, 'payload.error.data.message') || get(action, 'payload.error.message', null),
+  [Actions.LOAD_RUN_COMPARISON_REQUEST]: (): string => null,
+}, null);
+
+const selectedMetric = handleActions({
+  [Actions.SELECT_COMPARISON_METRIC]: (_state: string, action: Action & any) => action.payload.key,
+  [Actions.LOAD_RUN_COMPARISON_REQUEST]: (): string => null,
+}, null);
+
+const metricSetPairs = combineReducers<IComparisonMetricSetPairsState>({
+  left: handleActions({
+    [Actions.LOAD_COMPARISON_METRIC_SET_PAIRS_SUCCESS]: (_state: IMetricSetPair, action: Action & any) => action.payload.left,
+    [combineActions(Actions.SELECT_COMPARISON_METRIC, Actions.LOAD_RUN_COMPARISON_REQUEST)]: (): IMetricSetPair => null,
+  }, null),
+  right: handleActions({
+    [Actions.LOAD_COMPARISON_METRIC_SET_PAIRS_SUCCESS]: (_state: IMetricSetPair, action: Action & any) => action.payload.right,
+    [combineActions(Actions.SELECT_COMPARISON_METRIC, Actions.LOAD_RUN_COMPARISON_REQUEST)]: (): IMetricSetPair => null,
+  }, null),
+  load: handleActions({
+    [Actions.SELECT_COMPARISON_METRIC]: () => AsyncRequestState.Requesting,
+    [Actions.LOAD_COMPARISON_METRIC_SET_PAIRS_SUCCESS]: () => AsyncRequestState.Fulfilled,
+    [Actions.LOAD_COMPARISON_METRIC_SET_PAIRS_FAILURE]: () => AsyncRequestState.Failed,
+  }, AsyncRequestState.Fulfilled),
+});
+
+const overlay = handleActions({
+  [Actions.SET_COMPARISON_OVERLAY]: (_state: boolean, action: Action & any) => action.payload.overlay,
+}, true);
+
+export const runComparison = combineReducers<IRunComparisonState>({
+  left,
+  right,
+  load,
+  error,
+  selectedMetric,
+  metricSetPairs,
+  overlay,
+});
@@ -2,6 +2,8 @@ import { Action, combineReducers } from 'redux';
 import { combineActions, handleActions } from 'redux-actions';
 import { get, set, has, omit, chain, pick, fromPairs, flatMap, cloneDeep } from 'lodash';
 
+import { jsonUtilityService } from '@spinnaker/core';
+
 import * as Actions from '../actions';
 import { ICanaryClassifierThresholdsConfig } from '../domain';
 import { IJudge } from '../domain/IJudge';
@@ -18,8 +20,21 @@ import { ALL } from '../edit/groupTabs';
 import { AsyncRequestState } from './asyncRequest';
 import { IConfigValidationError } from './validators';
 import { editingTemplate, IEditingTemplateState } from './editingTemplate';
-import { prometheusMetricConfigReducer } from './prometheusMetricConfig';
+import { IMetricPreviewState, metricPreview } from './metricPreview';
+import { IRunAnalysisState, runAnalysis } from './runAnalysis';
+import { prometheusMetricConfigReducer, prometheusMetricConfirmReducer } from './prometheusMetricConfig';
+import { datadogMetricConfigReducer, datadogMetricConfirmReducer } from './datadogMetricConfig';
+import { newRelicMetricConfigReducer } from './newRelicMetricConfig';
+import { signalFxMetricConfigReducer } from './signalFxMetricConfig';
+import { graphiteMetricConfigReducer } from './graphiteMetricConfig';
+import { influxDbMetricConfigReducer, influxDbMetricConfirmReducer } from './influxDbMetricConfig';
 import { stackdriverMetricConfigReducer } from './stackdriverMetricConfig';
+import { history, IConfigEditHistoryState } from './history';
+import { IConfigDraft } from '../service/configDraft.service';
+import { findMergeConflicts, IMergeConflict, IMergeResolutions } from '../service/configMerge.service';
+import { IConfigRevision } from '../service/configRevision.service';
+import { copyFromLibrary } from '../service/metricLibrary.service';
+import { parseYaml, validateDeserializedConfig } from '../service/configFormat.service';
 
 export interface ILoadState {
   state: AsyncRequestState;
@@ -38,9 +53,29 @@ export interface IDestroyState {
 
 export interface IJsonState {
   configJson: string;
+  configYaml: string;
   error: string;
 }
 
+export interface IDraftState {
+  draft: IConfigDraft;
+  showDiff: boolean;
+}
+
+export interface IMergeState {
+  base: ICanaryConfig;
+  theirs: ICanaryConfig;
+  mine: ICanaryConfig;
+  conflicts: IMergeConflict[];
+  resolutions: IMergeResolutions;
+}
+
+export interface IRevisionsState {
+  list: IConfigRevision[];
+  load: AsyncRequestState;
+  selected: string;
+}
+
 export interface IJudgeState {
   judgeConfig: ICanaryJudgeConfig;
   renderState: JudgeSelectRenderState;
@@ -56,6 +91,7 @@ export interface ISelectedConfigState {
   isInSyncWithServer: boolean;
   metricList: ICanaryMetricConfig[];
   editingMetric: ICanaryMetricConfig;
+  metricPreview: IMetricPreviewState;
   thresholds: ICanaryClassifierThresholdsConfig;
   judge: IJudgeState;
   group: IGroupState;
@@ -67,6 +103,11 @@ export interface ISelectedConfigState {
   validationErrors: IConfigValidationError[];
   editingTemplate: IEditingTemplateState;
   selectedStore: string;
+  history: IConfigEditHistoryState;
+  draft: IDraftState;
+  merge: IMergeState;
+  revisions: IRevisionsState;
+  runAnalysis: IRunAnalysisState;
 }
 
 const config = handleActions({
@@ -102,6 +143,17 @@ const metricList = handleActions({
   [Actions.SELECT_CONFIG]: (_state: ICanaryMetricConfig[], action: Action & any) => idMetrics(action.payload.config.metrics),
   [Actions.ADD_METRIC]: (state: ICanaryMetricConfig[], action: Action & any) => idMetrics(state.concat([action.payload.metric])),
   [Actions.REMOVE_METRIC]: (state: ICanaryMetricConfig[], action: Action & any) => idMetrics(state.filter(metric => metric.id !== action.payload.id)),
+  [Actions.INSERT_LIBRARY_METRIC]: (state: ICanaryMetricConfig[], action: Action & any) =>
+    idMetrics(state.concat([copyFromLibrary(action.payload.entry)])),
+  [Actions.APPLY_METRIC_LIBRARY_UPDATE]: (state: ICanaryMetricConfig[], action: Action & any) =>
+    state.map(metric => metric.id === action.payload.id ? copyFromLibrary(action.payload.entry, metric.id) : metric),
+  // Saving a metric to the library, or keeping it as is despite a library update,
+  // brings it in sync with the entry's current version.
+  [combineActions(Actions.SAVE_TO_METRIC_LIBRARY_SUCCESS, Actions.DISMISS_METRIC_LIBRARY_UPDATE)]: (state: ICanaryMetricConfig[], action: Action & any) =>
+    state.map(metric => metric.id !== action.payload.id ? metric : {
+      ...metric,
+      libraryEntry: { id: action.payload.entry.id, updatedTimestampIso: action.payload.entry.updatedTimestampIso },
+    }),
 }, []);
 
 const editingMetric = handleActions({
@@ -126,12 +178,24 @@ const editingMetric = handleActions({
   [Actions.UPDATE_METRIC_SCOPE_NAME]: (state: ICanaryMetricConfig, action: Action & any) => ({
     ...state, scopeName: action.payload.scopeName,
   }),
+  [Actions.UPDATE_METRIC_QUERY]: (state: ICanaryMetricConfig, action: Action & any) => ({
+    ...state, query: { ...action.payload.query, type: action.payload.query.type || state.query.type },
+  }),
+  // Queries don't carry over between metric stores, so switching stores starts a new one.
+  [Actions.UPDATE_METRIC_STORE]: (state: ICanaryMetricConfig, action: Action & any) =>
+    state.query.type === action.payload.store ? state : {
+      ...state, query: { type: action.payload.store, serviceType: action.payload.store },
+    },
 }, null);
 
 const save = combineReducers<ISaveState>({
   state: handleActions({
     [Actions.SAVE_CONFIG_REQUEST]: () => AsyncRequestState.Requesting,
-    [combineActions(Actions.SAVE_CONFIG_SUCCESS, Actions.DISMISS_SAVE_CONFIG_ERROR)]: () => AsyncRequestState.Fulfilled,
+    [combineActions(
+      Actions.SAVE_CONFIG_SUCCESS,
+      Actions.SAVE_CONFIG_CONFLICT,
+      Actions.DISMISS_SAVE_CONFIG_ERROR,
+    )]: () => AsyncRequestState.Fulfilled,
     [Actions.SAVE_CONFIG_FAILURE]: () => AsyncRequestState.Failed,
   }, AsyncRequestState.Fulfilled),
   error: handleActions({
@@ -153,26 +217,98 @@ const destroy = combineReducers<IDestroyState>({
 const json = combineReducers<IJsonState>({
   configJson: handleActions({
     [Actions.SET_CONFIG_JSON]: (_state: IJsonState, action: Action & any) => action.payload.json,
+    // Valid YAML edits are mirrored to JSON, which the diff and update are based on.
+    [Actions.SET_CONFIG_YAML]: (state: string, action: Action & any) => {
+      try {
+        return jsonUtilityService.makeSortedStringFromObject(parseYaml(action.payload.yaml));
+      } catch (e) {
+        return state;
+      }
+    },
     [combineActions(Actions.CONFIG_JSON_MODAL_CLOSE, Actions.SELECT_CONFIG)]: (): void => null,
   }, null),
+  configYaml: handleActions({
+    [Actions.SET_CONFIG_YAML]: (_state: string, action: Action & any) => action.payload.yaml,
+    [combineActions(Actions.CONFIG_JSON_MODAL_CLOSE, Actions.SELECT_CONFIG, Actions.SET_CONFIG_JSON)]: (): string => null,
+  }, null),
   error: handleActions({
     [combineActions(Actions.CONFIG_JSON_MODAL_CLOSE, Actions.SELECT_CONFIG, Actions.SET_CONFIG_JSON)]: () => null,
     [Actions.SET_CONFIG_JSON]: (_state: IJsonState, action: Action & any) => {
       try {
-        const parsed: ICanaryConfig = JSON.parse(action.payload.json);
-        parsed.metrics.forEach((m, index) => {
-          if (!m.groups || !m.groups.length) {
-            throw new Error(`metric #${index + 1}: 'groups' is a required field`);
-          }
-        });
+        validateDeserializedConfig(JSON.parse(action.payload.json));
         return null;
       } catch (e) {
         return e.message;
       }
-    }
+    },
+    [Actions.SET_CONFIG_YAML]: (_state: string, action: Action & any) => {
+      try {
+        validateDeserializedConfig(parseYaml(action.payload.yaml));
+        return null;
+      } catch (e) {
+        return e.message;
+      }
+    },
   }, null),
 });
 
+const draft = combineReducers<IDraftState>({
+  draft: handleActions({
+    [Actions.CONFIG_DRAFT_FOUND]: (_state: IConfigDraft, action: Action & any) => action.payload.draft,
+    [combineActions(
+      Actions.LOAD_CONFIG_REQUEST,
+      Actions.CLEAR_SELECTED_CONFIG,
+      Actions.RESTORE_CONFIG_DRAFT,
+      Actions.DISCARD_CONFIG_DRAFT,
+    )]: (): IConfigDraft => null,
+  }, null),
+  showDiff: handleActions({
+    [Actions.TOGGLE_CONFIG_DRAFT_DIFF]: (state: boolean) => !state,
+    [Actions.CONFIG_DRAFT_FOUND]: () => false,
+  }, false),
+});
+
+const merge = handleActions({
+  [Actions.SAVE_CONFIG_CONFLICT]: (_state: IMergeState, action: Action & any): IMergeState => {
+    const { base, theirs, mine } = action.payload;
+    return {
+      base,
+      theirs,
+      mine,
+      conflicts: findMergeConflicts(base, theirs, mine),
+      resolutions: {},
+    };
+  },
+  [Actions.SELECT_CONFIG_MERGE_RESOLUTION]: (state: IMergeState, action: Action & any): IMergeState => ({
+    ...state,
+    resolutions: { ...state.resolutions, [action.payload.key]: action.payload.side },
+  }),
+  [combineActions(
+    Actions.CONFIG_MERGED,
+    Actions.CANCEL_CONFIG_MERGE,
+    Actions.LOAD_CONFIG_REQUEST,
+    Actions.CLEAR_SELECTED_CONFIG,
+  )]: (): IMergeState => null,
+}, null);
+
+const revisions = combineReducers<IRevisionsState>({
+  list: handleActions({
+    [Actions.LOAD_CONFIG_REVISIONS_SUCCESS]: (_state: IConfigRevision[], action: Action & any) => action.payload.revisions,
+    [combineActions(Actions.LOAD_CONFIG_REQUEST, Actions.CLEAR_SELECTED_CONFIG)]: (): IConfigRevision[] => [],
+  }, []),
+  load: handleActions({
+    [Actions.LOAD_CONFIG_REVISIONS_REQUEST]: () => AsyncRequestState.Requesting,
+    [Actions.LOAD_CONFIG_REVISIONS_SUCCESS]: () => AsyncRequestState.Fulfilled,
+    [Actions.LOAD_CONFIG_REVISIONS_FAILURE]: () => AsyncRequestState.Failed,
+  }, AsyncRequestState.Fulfilled),
+  selected: handleActions({
+    [Actions.SELECT_CONFIG_REVISION]: (_state: string, action: Action & any) => action.payload.updatedTimestampIso,
+    // Default to the newest revision.
+    [Actions.LOAD_CONFIG_REVISIONS_SUCCESS]: (_state: string, action: Action & any) =>
+      action.payload.revisions.length ? action.payload.revisions[0].updatedTimestampIso : null,
+    [combineActions(Actions.LOAD_CONFIG_REQUEST, Actions.CLEAR_SELECTED_CONFIG)]: (): string => null,
+  }, null),
+});
 
 const judge = combineReducers<IJudgeState>({
   judgeConfig: handleActions({
@@ -321,7 +457,9 @@ export function updateGroupWeightsReducer(state: ISelectedConfigState, action: A
   if (![Actions.SELECT_CONFIG,
         Actions.CHANGE_METRIC_GROUP_CONFIRM,
         Actions.ADD_METRIC,
-        Actions.REMOVE_METRIC].includes(action.type)) {
+        Actions.REMOVE_METRIC,
+        Actions.INSERT_LIBRARY_METRIC,
+        Actions.APPLY_METRIC_LIBRARY_UPDATE].includes(action.type)) {
     return state;
   }
 
@@ -382,7 +520,17 @@ const combined = combineReducers<ISelectedConfigState>({
   judge,
   metricList,
   editingMetric: (metric, action) =>
-    [editingMetric, prometheusMetricConfigReducer, stackdriverMetricConfigReducer].reduce((s, reducer) => reducer(s, action), metric),
+    [
+      editingMetric,
+      prometheusMetricConfigReducer,
+      stackdriverMetricConfigReducer,
+      datadogMetricConfigReducer,
+      newRelicMetricConfigReducer,
+      signalFxMetricConfigReducer,
+      graphiteMetricConfigReducer,
+      influxDbMetricConfigReducer,
+    ].reduce((s, reducer) => reducer(s, action), metric),
+  metricPreview,
   group,
   thresholds,
   changeMetricGroup,
@@ -390,12 +538,20 @@ const combined = combineReducers<ISelectedConfigState>({
   validationErrors: () => null,
   editingTemplate,
   selectedStore: handleActions<string>({}, null),
+  history,
+  draft,
+  merge,
+  revisions,
+  runAnalysis,
 });
 
 // First combine all simple reducers, then apply more complex ones as needed.
 export const selectedConfig = (state: ISelectedConfigState, action: Action & any): ISelectedConfigState => {
   return [
     combined,
+    prometheusMetricConfirmReducer,
+    datadogMetricConfirmReducer,
+    influxDbMetricConfirmReducer,
     editingMetricReducer,
     selectedJudgeReducer,
     editGroupConfirmReducer,
@@ -15,6 +15,8 @@ export interface ISelectedRunState {
   run: ICanaryExecutionStatusResult;
   load: AsyncRequestState;
   selectedGroup: string;
+  // Null to show metric results from every scope.
+  selectedScope: string;
   selectedMetric: string;
   metricSetPair: IMetricSetPairState;
   graphType: GraphType;
@@ -34,6 +36,11 @@ const selectedGroup = handleActions({
   [Actions.SELECT_REPORT_METRIC_GROUP]: (_state: string, action: Action & any) => action.payload.group,
 }, null);
 
+const selectedScope = handleActions({
+  [Actions.SELECT_REPORT_SCOPE]: (_state: string, action: Action & any) => action.payload.scope,
+  [Actions.LOAD_RUN_SUCCESS]: (): string => null,
+}, null);
+
 const selectedMetric = handleActions({
   [Actions.SELECT_REPORT_METRIC_GROUP]: () => null,
 }, null);
@@ -58,6 +65,7 @@ export const selectedRun: Reducer<ISelectedRunState> = combineReducers<ISelected
   run,
   load,
   selectedGroup,
+  selectedScope,
   selectedMetric,
   metricSetPair,
   graphType,
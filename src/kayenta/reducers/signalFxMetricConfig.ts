@@ -0,0 +1,24 @@
+import { Action } from 'redux';
+import { handleActions } from 'redux-actions';
+
+import * as Actions from 'kayenta/actions';
+import { ISignalFxCanaryMetricSetQueryConfig } from 'kayenta/metricStore/signalfx/domain/ISignalFxCanaryMetricSetQueryConfig';
+import { IUpdateKeyValueListPayload, updateKeyValueListReducer } from '../layout/keyValueList';
+import { IKayentaAction } from '../actions/creators';
+
+export const signalFxMetricConfigReducer = handleActions<ISignalFxCanaryMetricSetQueryConfig, Action & any>({
+  [Actions.UPDATE_SIGNAL_FX_METRIC_NAME]: (state: ISignalFxCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, metricName: action.payload.metricName, type: 'signalfx' },
+  }),
+  [Actions.UPDATE_SIGNAL_FX_QUERY_PAIRS]:
+    (state: ISignalFxCanaryMetricSetQueryConfig, action: IKayentaAction<IUpdateKeyValueListPayload>) => ({
+      ...state,
+      query: {
+        ...state.query,
+        queryPairs: updateKeyValueListReducer(state.query.queryPairs || [], action),
+      },
+    }),
+  [Actions.UPDATE_SIGNAL_FX_AGGREGATION_METHOD]: (state: ISignalFxCanaryMetricSetQueryConfig, action: Action & any) => ({
+    ...state, query: { ...state.query, aggregationMethod: action.payload.aggregationMethod },
+  }),
+}, null);
@@ -1,12 +1,28 @@
-import { chain } from 'lodash';
+import { chain, isEmpty, omit } from 'lodash';
 import { ICanaryState } from './index';
-import { KayentaAccountType } from 'kayenta/domain';
+import { selectedConfig as selectedConfigReducer } from './selectedConfig';
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryConfig, KayentaAccountType } from 'kayenta/domain';
+import { JsonPath } from 'kayenta/service/jsonSchema';
+import configValidatorService from 'kayenta/service/configValidator.service';
+
+export enum ConfigValidationSeverity {
+  // Blocks saving the config.
+  Error = 'error',
+  Warning = 'warning',
+}
 
 export interface IConfigValidationError {
   message: string;
+  severity: ConfigValidationSeverity;
+  // Location of the offending part of the config, e.g., ['metrics', 3] or ['classifier', 'groupWeights', 'Group 1'].
+  path?: JsonPath;
 }
 
-type IConfigValidator = (state: ICanaryState) => IConfigValidationError;
+export type IConfigValidator = (state: ICanaryState) => IConfigValidationError | IConfigValidationError[];
+
+export const isBlocking = (error: IConfigValidationError): boolean =>
+  error.severity === ConfigValidationSeverity.Error;
 
 const createValidationReducer = (validator: IConfigValidator) => {
   return (state: ICanaryState) => {
@@ -14,8 +30,8 @@ const createValidationReducer = (validator: IConfigValidator) => {
       return state;
     }
 
-    const error = validator(state);
-    if (!error) {
+    const errors = [].concat(validator(state) || []);
+    if (!errors.length) {
       return state;
     }
 
@@ -23,9 +39,7 @@ const createValidationReducer = (validator: IConfigValidator) => {
       ...state,
       selectedConfig: {
         ...state.selectedConfig,
-        validationErrors: state.selectedConfig.validationErrors.concat(
-          error ? [error] : []
-        ),
+        validationErrors: state.selectedConfig.validationErrors.concat(errors),
       },
     };
   };
@@ -40,7 +54,11 @@ const isConfigNameUnique: IConfigValidator = state => {
 
   return isUnique
     ? null
-    : { message: `Canary config '${selectedConfig.name}' already exists.` };
+    : {
+      message: `Canary config '${selectedConfig.name}' already exists.`,
+      severity: ConfigValidationSeverity.Error,
+      path: ['name'],
+    };
 };
 
 // See https://github.com/Netflix-Skunkworks/kayenta/blob/master/kayenta-web/src/main/java/com/netflix/kayenta/controllers/CanaryConfigController.java
@@ -49,8 +67,12 @@ const isConfigNameValid: IConfigValidator = state => {
   const isValid = pattern.test(state.selectedConfig.config.name);
   return isValid
       ? null
-      : { message: 'Canary config names must contain only letters,' +
-                   ' numbers, dashes (-) and underscores (_).' };
+      : {
+        message: 'Canary config names must contain only letters,' +
+                 ' numbers, dashes (-) and underscores (_).',
+        severity: ConfigValidationSeverity.Error,
+        path: ['name'],
+      };
 };
 
 const isGroupWeightsSumValid: IConfigValidator = state => {
@@ -60,18 +82,21 @@ const isGroupWeightsSumValid: IConfigValidator = state => {
 
   return groupWeightsSumIsValid
     ? null
-    : { message: 'Metric group weights must sum to 100.' };
+    : {
+      message: 'Metric group weights must sum to 100.',
+      severity: ConfigValidationSeverity.Error,
+      path: ['classifier', 'groupWeights'],
+    };
 };
 
-const isEveryGroupWeightValid: IConfigValidator = state => {
-  const everyGroupWeightIsValid =
-    Object.values(state.selectedConfig.group.groupWeights)
-      .every(weight => weight >= 0);
-
-  return everyGroupWeightIsValid
-    ? null
-    : { message: 'A group weight must be greater than or equal to 0.' };
-};
+const isEveryGroupWeightValid: IConfigValidator = state =>
+  Object.entries(state.selectedConfig.group.groupWeights)
+    .filter(([, weight]) => weight < 0)
+    .map(([group]) => ({
+      message: `The weight of group '${group}' must be greater than or equal to 0.`,
+      severity: ConfigValidationSeverity.Error,
+      path: ['classifier', 'groupWeights', group],
+    }));
 
 const isEveryQueriedMetricStoreAvailable: IConfigValidator = state => {
   const available = chain(state.data.kayentaAccounts.data)
@@ -96,20 +121,65 @@ const isEveryQueriedMetricStoreAvailable: IConfigValidator = state => {
                stores (${unavailableQueried.join()})
                that do not have any configured accounts.`;
   }
-  return unavailableQueried.length ? { message } : null;
+  return unavailableQueried.length ? { message, severity: ConfigValidationSeverity.Error } : null;
 };
 
-const areMultipleMetricStoresQueried: IConfigValidator = state => {
-  const queried = chain(state.selectedConfig.metricList)
-    .map(metric => metric.query.type)
-    .uniq()
-    .valueOf();
+const isEveryMetricNameUnique: IConfigValidator = state => {
+  const seen = new Set<string>();
+  const errors: IConfigValidationError[] = [];
+  state.selectedConfig.metricList.forEach((metric, index) => {
+    if (!metric.name) {
+      return;
+    }
+    if (seen.has(metric.name)) {
+      errors.push({
+        message: `More than one metric is named '${metric.name}'.`,
+        severity: ConfigValidationSeverity.Error,
+        path: ['metrics', index],
+      });
+    }
+    seen.add(metric.name);
+  });
+  return errors;
+};
 
-  return queried.length > 1
-    ? { message: 'All metrics must be from the same metric store.' }
-    : null;
+// A query that only names its metric store doesn't query anything.
+const isQueryEmpty = (query: any): boolean =>
+  !query || Object.values(omit(query, 'type', 'serviceType'))
+    .every(value => value === null || value === undefined || value === '' || (typeof value === 'object' && isEmpty(value)));
+
+const isEveryMetricQueryPresent: IConfigValidator = state =>
+  state.selectedConfig.metricList
+    .map((metric, index) => ({ metric, index }))
+    .filter(({ metric }) => isQueryEmpty(metric.query))
+    .map(({ metric, index }) => ({
+      message: `Metric '${metric.name || '(new)'}' does not have a query.`,
+      severity: ConfigValidationSeverity.Error,
+      path: ['metrics', index],
+    }));
+
+const isEveryWeightedGroupPopulated: IConfigValidator = state => {
+  const { metricList, group } = state.selectedConfig;
+  return Object.entries(group.groupWeights)
+    .filter(([name, weight]) => weight > 0 && !metricList.some(metric => metric.groups.includes(name)))
+    .map(([name]) => ({
+      message: `Group '${name}' has a weight but no metrics.`,
+      severity: ConfigValidationSeverity.Error,
+      path: ['classifier', 'groupWeights', name],
+    }));
 };
 
+[
+  { name: 'isConfigNameUnique', validate: isConfigNameUnique },
+  { name: 'isConfigNameValid', validate: isConfigNameValid },
+  { name: 'isGroupWeightsSumValid', validate: isGroupWeightsSumValid },
+  { name: 'isEveryGroupWeightValid', validate: isEveryGroupWeightValid },
+  { name: 'isEveryQueriedMetricStoreAvailable', validate: isEveryQueriedMetricStoreAvailable },
+  { name: 'isEveryMetricNameUnique', validate: isEveryMetricNameUnique },
+  { name: 'isEveryMetricQueryPresent', validate: isEveryMetricQueryPresent },
+  { name: 'isEveryWeightedGroupPopulated', validate: isEveryWeightedGroupPopulated },
+].forEach(validator => configValidatorService.register(validator));
+
 export const validationErrorsReducer = (state: ICanaryState): ICanaryState => {
   if (!state.selectedConfig) {
     return state;
@@ -119,12 +189,20 @@ export const validationErrorsReducer = (state: ICanaryState): ICanaryState => {
     state = { ...state, selectedConfig: { ...state.selectedConfig, validationErrors: [] } };
   }
 
-  return [
-    isConfigNameUnique,
-    isConfigNameValid,
-    isGroupWeightsSumValid,
-    isEveryGroupWeightValid,
-    isEveryQueriedMetricStoreAvailable,
-    areMultipleMetricStoresQueried,
-  ].reduce((s, validator) => createValidationReducer(validator)(s), state);
+  return configValidatorService.getDelegates()
+    .reduce((s, { validate }) => createValidationReducer(validate)(s), state);
+};
+
+// Validation errors that point at the metric at the given index of the metric list.
+export const getMetricValidationErrors = (errors: IConfigValidationError[], index: number): IConfigValidationError[] =>
+  errors.filter(({ path }) => path && path[0] === 'metrics' && path[1] === index);
+
+// Validates a config that isn't selected for editing (e.g., one being imported)
+// by running it through the same reducers a selected config goes through.
+export const validateConfig = (state: ICanaryState, config: ICanaryConfig): IConfigValidationError[] => {
+  const candidate: ICanaryState = {
+    ...state,
+    selectedConfig: selectedConfigReducer(undefined, Creators.selectConfig({ config })),
+  };
+  return validationErrorsReducer(candidate).selectedConfig.validationErrors;
 };
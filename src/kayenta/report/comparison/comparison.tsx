@@ -0,0 +1,16 @@
+import * as React from 'react';
+
+import ComparisonScores from './comparisonScores';
+import MetricComparisons from './metricComparisons';
+
+import './comparison.less';
+
+/*
+* Layout for the side-by-side comparison of two canary runs.
+* */
+export default () => (
+  <div className="vertical flex-1 run-comparison">
+    <ComparisonScores/>
+    <MetricComparisons/>
+  </div>
+);
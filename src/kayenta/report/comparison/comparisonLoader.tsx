@@ -0,0 +1,55 @@
+import * as React from 'react';
+import { connect, Dispatch } from 'react-redux';
+import { Observable } from 'rxjs/Observable';
+import { Subscription } from 'rxjs/Subscription';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import RunComparisonLoadStates from './loadStates';
+
+interface IRunComparisonLoaderStateParamsProps {
+  comparisonIdStream: Observable<IRunComparisonLoaderStateParams>;
+}
+
+interface IRunComparisonLoaderDispatchProps {
+  loadComparison: (stateParams: IRunComparisonLoaderStateParams) => void;
+}
+
+interface IRunComparisonLoaderStateParams {
+  configId: string;
+  runId: string;
+  otherConfigId: string;
+  otherRunId: string;
+}
+
+/*
+ * Top-level .reportComparison state component.
+ * Loads both runs on changes to /report/compare/:configId/:runId/:otherConfigId/:otherRunId, renders load states.
+ */
+class RunComparisonLoader extends React.Component<IRunComparisonLoaderDispatchProps & IRunComparisonLoaderStateParamsProps> {
+  private subscription: Subscription;
+
+  constructor(props: IRunComparisonLoaderDispatchProps & IRunComparisonLoaderStateParamsProps) {
+    super(props);
+    const { comparisonIdStream, loadComparison } = props;
+    this.subscription = comparisonIdStream.subscribe(loadComparison);
+  }
+
+  public componentWillUnmount(): void {
+    this.subscription.unsubscribe();
+  }
+
+  public render() {
+    return <RunComparisonLoadStates/>;
+  }
+}
+
+const mapDispatchToProps = (dispatch: Dispatch<ICanaryState>): IRunComparisonLoaderDispatchProps => ({
+  loadComparison: (stateParams: IRunComparisonLoaderStateParams) =>
+    dispatch(Creators.loadRunComparisonRequest({
+      left: { configId: stateParams.configId, runId: stateParams.runId },
+      right: { configId: stateParams.otherConfigId, runId: stateParams.otherRunId },
+    })),
+});
+
+export default connect(null, mapDispatchToProps)(RunComparisonLoader);
@@ -0,0 +1,89 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+import { UISref } from '@uirouter/react';
+import { round } from 'lodash';
+
+import { ICanaryState } from 'kayenta/reducers';
+import { ICanaryExecutionStatusResult, ICanaryJudgeGroupScore } from 'kayenta/domain';
+import { runComparisonSelector } from 'kayenta/selectors';
+import { IGroupScoreComparison, IScoreComparison } from 'kayenta/service/runComparison.service';
+import FormattedDate from 'kayenta/layout/formattedDate';
+import Score from '../detail/score';
+import ScoreDelta from './delta';
+
+interface IComparisonScoresStateProps {
+  left: ICanaryExecutionStatusResult;
+  right: ICanaryExecutionStatusResult;
+  score: IScoreComparison;
+  groups: IGroupScoreComparison[];
+}
+
+const ComparedRun = ({ run }: { run: ICanaryExecutionStatusResult }) => {
+  const config = run.config || run.result.config;
+  return (
+    <div className="vertical compared-run">
+      <h3 className="heading-3">
+        <UISref to="^.reportDetail" params={{ configId: config.id, runId: run.id }}>
+          <a className="clickable color-text-primary">{config.name}</a>
+        </UISref>
+      </h3>
+      <span className="label label-lg">
+        Started <FormattedDate dateIso={run.startTimeIso}/>
+      </span>
+      <Score score={run.result.judgeResult.score} showClassification={true}/>
+    </div>
+  );
+};
+
+const groupScore = (group: ICanaryJudgeGroupScore) =>
+  group && typeof group.score === 'number' ? round(group.score, 2) : 'n/a';
+
+/*
+* The scores of both runs, and how the overall and group scores changed between them.
+* */
+const ComparisonScores = ({ left, right, score, groups }: IComparisonScoresStateProps) => (
+  <section className="vertical comparison-scores">
+    <div className="horizontal middle">
+      <ComparedRun run={left}/>
+      <div className="vertical center comparison-score-delta">
+        <i className="fa fa-arrow-right"/>
+        <ScoreDelta delta={score.delta}/>
+      </div>
+      <ComparedRun run={right}/>
+    </div>
+    {groups.length > 0 && (
+      <table className="table table-condensed comparison-group-scores">
+        <thead>
+          <tr>
+            <th>Group</th>
+            <th>Left</th>
+            <th>Right</th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.name}>
+              <td>{group.name}</td>
+              <td>{groupScore(group.left)}</td>
+              <td>{groupScore(group.right)}</td>
+              <td><ScoreDelta delta={group.delta}/></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+const mapStateToProps = (state: ICanaryState): IComparisonScoresStateProps => {
+  const { score, groups } = runComparisonSelector(state);
+  return {
+    left: state.runComparison.left,
+    right: state.runComparison.right,
+    score,
+    groups,
+  };
+};
+
+export default connect(mapStateToProps)(ComparisonScores);
@@ -0,0 +1,29 @@
+import * as React from 'react';
+import * as classNames from 'classnames';
+import { round } from 'lodash';
+
+export interface IScoreDeltaProps {
+  delta: number;
+  className?: string;
+}
+
+/*
+* Signed change in score from the left run to the right one.
+* */
+export default ({ delta, className }: IScoreDeltaProps) => {
+  if (typeof delta !== 'number') {
+    return <span className={classNames('score-delta', className)}>n/a</span>;
+  }
+
+  const rounded = round(delta, 2);
+  return (
+    <span
+      className={classNames('score-delta', className, {
+        'score-delta-up': rounded > 0,
+        'score-delta-down': rounded < 0,
+      })}
+    >
+      {rounded > 0 ? `+${rounded}` : rounded}
+    </span>
+  );
+};
@@ -0,0 +1,35 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+
+import { ICanaryState } from 'kayenta/reducers';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import CenteredDetail from 'kayenta/layout/centeredDetail';
+import LoadStatesBuilder from 'kayenta/components/loadStates';
+import RunComparison from './comparison';
+
+interface IRunComparisonLoadStatesStateProps {
+  loadState: AsyncRequestState;
+  error: string;
+}
+
+const RunComparisonLoadStates = ({ loadState, error }: IRunComparisonLoadStatesStateProps) => {
+  const LoadStates = new LoadStatesBuilder()
+    .onFulfilled(<RunComparison/>)
+    .onFailed(
+      <CenteredDetail>
+        <div>
+          <h3 className="heading-3">Could not compare canary reports.</h3>
+          {error && <p>{error}</p>}
+        </div>
+      </CenteredDetail>
+    ).build();
+
+  return <LoadStates state={loadState}/>;
+};
+
+const mapStateToProps = (state: ICanaryState): IRunComparisonLoadStatesStateProps => ({
+  loadState: state.runComparison.load,
+  error: state.runComparison.error,
+});
+
+export default connect(mapStateToProps)(RunComparisonLoadStates);
@@ -0,0 +1,112 @@
+import * as React from 'react';
+import { connect, Dispatch } from 'react-redux';
+
+import { ICanaryState } from 'kayenta/reducers';
+import * as Creators from 'kayenta/actions/creators';
+import { AsyncRequestState } from 'kayenta/reducers/asyncRequest';
+import { ICanaryAnalysisResult, IMetricSetPair } from 'kayenta/domain';
+import { selectedMetricComparisonSelector } from 'kayenta/selectors';
+import { IMetricResultComparison } from 'kayenta/service/runComparison.service';
+import LoadStatesBuilder from 'kayenta/components/loadStates';
+import { GraphType } from '../detail/graph/metricSetPairGraph.service';
+import { getComparisonGraphDelegate, MetricSetPairGraph } from '../detail/graph/graph';
+import GraphTypeSelector from '../detail/graphTypeSelector';
+import MetricResultClassification from '../detail/metricResultClassification';
+
+interface IMetricComparisonDetailStateProps {
+  metric: IMetricResultComparison;
+  leftPair: IMetricSetPair;
+  rightPair: IMetricSetPair;
+  load: AsyncRequestState;
+  graphType: GraphType;
+  overlay: boolean;
+}
+
+interface IMetricComparisonDetailDispatchProps {
+  setOverlay: (overlay: boolean) => void;
+}
+
+const ComparedResult = ({ label, result, pair, graphType }: { label: string, result: ICanaryAnalysisResult, pair: IMetricSetPair, graphType: GraphType }) => (
+  <section className="vertical flex-1 compared-metric-result">
+    <h5 className="heading-5">{label}</h5>
+    {result ? (
+      <div>
+        <MetricResultClassification classification={result.classification}/>
+        {result.classificationReason && <p className="small">{result.classificationReason}</p>}
+      </div>
+    ) : (
+      <p className="metric-comparison-missing">This metric isn't in the {label.toLowerCase()} run.</p>
+    )}
+    {pair && <MetricSetPairGraph pair={pair} result={result} graphType={graphType}/>}
+  </section>
+);
+
+/*
+* Graphs the selected metric's series from both runs, either overlaid or side by side.
+* */
+const MetricComparisonDetail = ({ metric, leftPair, rightPair, load, graphType, overlay, setOverlay }: IMetricComparisonDetailStateProps & IMetricComparisonDetailDispatchProps) => {
+  if (!metric) {
+    return <h3 className="heading-3 text-center">Select a metric result.</h3>;
+  }
+
+  const canOverlay = !!leftPair && !!rightPair && !!getComparisonGraphDelegate(graphType);
+  const fulfilled = (
+    <section className="vertical flex-1" style={{ overflowY: 'auto' }}>
+      <div className="horizontal middle">
+        <div className="flex-1">
+          <GraphTypeSelector/>
+        </div>
+        {canOverlay && (
+          <label className="checkbox metric-comparison-overlay">
+            <input type="checkbox" checked={overlay} onChange={() => setOverlay(!overlay)}/>
+            Overlay runs
+          </label>
+        )}
+      </div>
+      {canOverlay && overlay ? (
+        <div className="vertical">
+          <MetricSetPairGraph
+            // Remounted so that the graph is rebuilt for each metric and graph type.
+            key={`${metric.key}:${graphType}`}
+            pair={leftPair}
+            comparedPair={rightPair}
+            result={metric.left}
+            graphType={graphType}
+          />
+          <p className="small">Dashed lines are the right run's series, aligned by time since the start of each run.</p>
+          <div className="horizontal">
+            <ComparedResult label="Left" result={metric.left} pair={null} graphType={graphType}/>
+            <ComparedResult label="Right" result={metric.right} pair={null} graphType={graphType}/>
+          </div>
+        </div>
+      ) : (
+        <div className="horizontal" key={`${metric.key}:${graphType}`}>
+          <ComparedResult label="Left" result={metric.left} pair={leftPair} graphType={graphType}/>
+          <ComparedResult label="Right" result={metric.right} pair={rightPair} graphType={graphType}/>
+        </div>
+      )}
+    </section>
+  );
+
+  const LoadStates = new LoadStatesBuilder()
+    .onFulfilled(fulfilled)
+    .onFailed(<h3 className="heading-3 text-center">Could not load metrics.</h3>)
+    .build();
+
+  return <LoadStates state={load}/>;
+};
+
+const mapStateToProps = (state: ICanaryState): IMetricComparisonDetailStateProps => ({
+  metric: selectedMetricComparisonSelector(state),
+  leftPair: state.runComparison.metricSetPairs.left,
+  rightPair: state.runComparison.metricSetPairs.right,
+  load: state.runComparison.metricSetPairs.load,
+  graphType: state.selectedRun.graphType,
+  overlay: state.runComparison.overlay,
+});
+
+const mapDispatchToProps = (dispatch: Dispatch<ICanaryState>): IMetricComparisonDetailDispatchProps => ({
+  setOverlay: (overlay: boolean) => dispatch(Creators.setComparisonOverlay({ overlay })),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(MetricComparisonDetail);
@@ -0,0 +1,104 @@
+import * as React from 'react';
+import { connect, Dispatch } from 'react-redux';
+import * as classNames from 'classnames';
+import autoBindMethods from 'class-autobind-decorator';
+
+import { ICanaryState } from 'kayenta/reducers';
+import * as Creators from 'kayenta/actions/creators';
+import { ITableColumn, Table } from 'kayenta/layout/table';
+import { ICanaryAnalysisResult } from 'kayenta/domain';
+import { IMetricResultComparison } from 'kayenta/service/runComparison.service';
+import MetricResultClassification from '../detail/metricResultClassification';
+
+interface IMetricComparisonListOwnProps {
+  metrics: IMetricResultComparison[];
+}
+
+interface IMetricComparisonListStateProps {
+  selectedMetric: string;
+}
+
+interface IMetricComparisonListDispatchProps {
+  select: (key: string) => void;
+}
+
+type MetricComparisonListProps = IMetricComparisonListOwnProps & IMetricComparisonListStateProps & IMetricComparisonListDispatchProps;
+
+interface IMetricComparisonListState {
+  changedOnly: boolean;
+}
+
+const Classification = ({ result }: { result: ICanaryAnalysisResult }) =>
+  result
+    ? <MetricResultClassification className="pull-right" classification={result.classification}/>
+    : <span className="pull-right metric-comparison-missing">missing</span>;
+
+const columns: ITableColumn<IMetricResultComparison>[] = [
+  {
+    label: 'metric name',
+    getContent: ({ key }) => <section>{key}</section>,
+    width: 4,
+  },
+  {
+    label: 'left',
+    labelClassName: 'text-center',
+    getContent: ({ left }) => <Classification result={left}/>,
+    width: 1,
+  },
+  {
+    label: 'right',
+    labelClassName: 'text-center',
+    getContent: ({ right }) => <Classification result={right}/>,
+    width: 1,
+  },
+];
+
+/*
+* Metric results of both runs, aligned by metric name.
+* */
+@autoBindMethods
+class MetricComparisonList extends React.Component<MetricComparisonListProps, IMetricComparisonListState> {
+
+  public state: IMetricComparisonListState = { changedOnly: false };
+
+  public toggleChangedOnly() {
+    this.setState({ changedOnly: !this.state.changedOnly });
+  }
+
+  public render() {
+    const { metrics, selectedMetric, select } = this.props;
+    const { changedOnly } = this.state;
+    const changedCount = metrics.filter(metric => metric.classificationChanged).length;
+    const rows = changedOnly ? metrics.filter(metric => metric.classificationChanged) : metrics;
+    return (
+      <section className="vertical metric-results-list flex-1">
+        <label className="checkbox metric-comparison-filter">
+          <input type="checkbox" checked={changedOnly} onChange={this.toggleChangedOnly}/>
+          Only show metrics whose classification changed ({changedCount})
+        </label>
+        <Table
+          rowKey={metric => metric.key}
+          tableBodyClassName="list-unstyled tabs-vertical flex-1"
+          rowClassName={metric => classNames('horizontal', {
+            selected: metric.key === selectedMetric,
+            'metric-comparison-changed': metric.classificationChanged,
+          })}
+          rows={rows}
+          columns={columns}
+          onRowClick={metric => select(metric.key)}
+          className="flex-1 vertical"
+        />
+      </section>
+    );
+  }
+}
+
+const mapStateToProps = (state: ICanaryState): IMetricComparisonListStateProps => ({
+  selectedMetric: state.runComparison.selectedMetric,
+});
+
+const mapDispatchToProps = (dispatch: Dispatch<ICanaryState>): IMetricComparisonListDispatchProps => ({
+  select: (key: string) => dispatch(Creators.selectComparisonMetric({ key })),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(MetricComparisonList);
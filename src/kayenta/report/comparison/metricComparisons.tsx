@@ -0,0 +1,31 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+
+import ListDetail from 'kayenta/layout/listDetail';
+import { ICanaryState } from 'kayenta/reducers';
+import { runComparisonSelector } from 'kayenta/selectors';
+import { IMetricResultComparison } from 'kayenta/service/runComparison.service';
+import MetricComparisonList from './metricComparisonList';
+import MetricComparisonDetail from './metricComparisonDetail';
+
+interface IMetricComparisonsStateProps {
+  metrics: IMetricResultComparison[];
+}
+
+const MetricComparisons = ({ metrics }: IMetricComparisonsStateProps) => (
+  <ListDetail
+    list={<MetricComparisonList metrics={metrics}/>}
+    listClass="vertical"
+    listWidth={5}
+    detail={<MetricComparisonDetail/>}
+    detailClass="vertical"
+    detailWidth={9}
+    className="metric-results flex-1"
+  />
+);
+
+const mapStateToProps = (state: ICanaryState): IMetricComparisonsStateProps => ({
+  metrics: runComparisonSelector(state).metrics,
+});
+
+export default connect(mapStateToProps)(MetricComparisons);
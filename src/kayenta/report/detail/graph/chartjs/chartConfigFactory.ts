@@ -1,81 +1,248 @@
-import { ChartConfiguration, ChartPoint } from 'chart.js';
+import { ChartConfiguration, ChartDataSets, ChartOptions, ChartPoint, ChartTooltipItem, ChartXAxe } from 'chart.js';
+import { round } from 'lodash';
 import * as moment from 'moment-timezone';
 
 import { SETTINGS } from '@spinnaker/core';
 import { IMetricSetPair, IMetricSetScope } from 'kayenta/domain/IMetricSetPair';
 import { GraphType } from '../metricSetPairGraph.service';
+import { buildDifferenceSeries, buildEmpiricalCdf } from 'kayenta/service/metricSetPairSeries.service';
 
 const { defaultTimeZone } = SETTINGS;
 
+const BASELINE_COLOR = '#983f00';
+const CANARY_COLOR = '#0175dc';
+const COMPARED_BORDER_DASH = [4, 2];
+const CROSSHAIR_COLOR = 'rgba(0, 0, 0, 0.3)';
+
+// Chart.js 2.7 supports these, but its typings don't.
+interface IChartPlugin {
+  afterDatasetsDraw(chart: Chart): void;
+}
+
+interface IPluginChartConfiguration extends ChartConfiguration {
+  plugins?: IChartPlugin[];
+}
+
+interface ITimeChartXAxe extends ChartXAxe {
+  distribution?: 'linear' | 'series';
+}
+
+export interface IAmplitudeChartOptions {
+  // Plots both series against time since the start of their scopes instead of absolute time.
+  alignByOffset?: boolean;
+  logScale?: boolean;
+  // Zoomed range of the x axis, in milliseconds, or in minutes when aligned by offset.
+  xMin?: number;
+  xMax?: number;
+}
+
 // TODO(dpeach): remove this after https://github.com/chartjs/Chart.js/pull/4843
 // has been merged and released.
 moment.tz.setDefault(defaultTimeZone);
 
+// Missing values are kept as gaps so that the nth point of every series is the same step,
+// which is what the shared tooltip lines up.
 const buildChartPoints = (values: number[], scope: IMetricSetScope): ChartPoint[] => {
   if (!values) {
     return [];
   }
 
-  return values.map((y, i) => {
-    if (typeof y !== 'number') {
-      return null;
+  return values.map((y, i) => ({
+    x: scope.startTimeMillis + (scope.stepMillis * i),
+    y: typeof y === 'number' ? y : null,
+  }));
+};
+
+// Minutes since the start of the scope, so that series from runs at different times line up.
+const buildOffsetChartPoints = (values: number[], scope: IMetricSetScope): ChartPoint[] =>
+  buildChartPoints(values, scope).map(point => ({
+    x: ((point.x as number) - scope.startTimeMillis) / 60000,
+    y: point.y,
+  }));
+
+const buildDataset = (data: ChartPoint[], label: string, borderColor: string, borderDash: number[] = []): ChartDataSets => ({
+  borderColor,
+  borderDash,
+  borderWidth: 1,
+  pointRadius: 0,
+  backgroundColor: 'transparent',
+  data,
+  label,
+  spanGaps: true,
+  steppedLine: true,
+});
+
+// Baseline and canary are always the first two datasets.
+const buildDeltaFooter = (items: ChartTooltipItem[]): string => {
+  const value = (datasetIndex: number) => {
+    const item = items.find(i => i.datasetIndex === datasetIndex);
+    return item ? parseFloat(item.yLabel as string) : NaN;
+  };
+  const delta = value(1) - value(0);
+  return isNaN(delta) ? '' : `Canary - Baseline: ${round(delta, 4)}`;
+};
+
+// Draws a vertical line through the points in the shared tooltip.
+const crosshairPlugin: IChartPlugin = {
+  afterDatasetsDraw: chart => {
+    const active = (chart as any).tooltip._active; // bad typings.
+    if (!active || !active.length) {
+      return;
     }
 
-    const dataPointMillis = scope.startTimeMillis + (scope.stepMillis * i);
-    return {
-      x: dataPointMillis,
-      y,
-    };
-  }).filter(point => !!point);
+    const x = active[0].tooltipPosition().x;
+    const { top, bottom } = chart.chartArea;
+    const context = chart.ctx;
+    context.save();
+    context.beginPath();
+    context.moveTo(x, top);
+    context.lineTo(x, bottom);
+    context.lineWidth = 1;
+    context.strokeStyle = CROSSHAIR_COLOR;
+    context.stroke();
+    context.restore();
+  },
+};
+
+// Spaces the points evenly rather than by time, so that long gaps don't squash the rest.
+const TIME_X_AXIS: ITimeChartXAxe = {
+  type: 'time',
+  distribution: 'series',
+};
+
+const baseOptions: ChartOptions = {
+  animation: {
+    duration: 0,
+  },
+  legend: {
+    position: 'bottom',
+    labels: {
+      fontSize: 10,
+      padding: 5,
+    },
+  },
 };
 
-export const buildChartConfig = (metricSetPair: IMetricSetPair, type: GraphType): ChartConfiguration => {
-  if (type !== GraphType.AmplitudeVsTime) {
-    // only one type for now.
-    return null;
+// Another run's series can only line up with this run's by offset.
+const buildAmplitudeChartConfig = (metricSetPair: IMetricSetPair, comparedMetricSetPair: IMetricSetPair, options: IAmplitudeChartOptions): IPluginChartConfiguration => {
+  const { logScale, xMin, xMax } = options;
+  const alignByOffset = !!comparedMetricSetPair || options.alignByOffset;
+  // Chart.js only leaves a bound alone when it's undefined.
+  const zoomed = typeof xMin === 'number' && typeof xMax === 'number';
+  const xAxis: ITimeChartXAxe = alignByOffset
+    ? {
+        type: 'linear',
+        scaleLabel: { display: true, labelString: 'Minutes since start' },
+        ticks: zoomed ? { min: xMin, max: xMax } : {},
+      }
+    : {
+        ...TIME_X_AXIS,
+        time: zoomed ? { min: moment(xMin).toISOString(), max: moment(xMax).toISOString() } : {},
+      };
+  const buildPoints = alignByOffset ? buildOffsetChartPoints : buildChartPoints;
+  const datasets = [
+    buildDataset(buildPoints(metricSetPair.values.control, metricSetPair.scopes.control), 'Baseline', BASELINE_COLOR),
+    buildDataset(buildPoints(metricSetPair.values.experiment, metricSetPair.scopes.experiment), 'Canary', CANARY_COLOR),
+  ];
+  if (comparedMetricSetPair) {
+    datasets.push(
+      buildDataset(
+        buildPoints(comparedMetricSetPair.values.control, comparedMetricSetPair.scopes.control),
+        'Compared Baseline',
+        BASELINE_COLOR,
+        COMPARED_BORDER_DASH,
+      ),
+      buildDataset(
+        buildPoints(comparedMetricSetPair.values.experiment, comparedMetricSetPair.scopes.experiment),
+        'Compared Canary',
+        CANARY_COLOR,
+        COMPARED_BORDER_DASH,
+      ),
+    );
   }
 
   return {
     type: 'line',
     data: {
-      datasets: [
-        {
-          borderColor: '#983f00',
-          borderWidth: 1,
-          pointRadius: 0,
-          backgroundColor: 'transparent',
-          data: buildChartPoints(metricSetPair.values.control, metricSetPair.scopes.control),
-          label: 'Baseline',
-          steppedLine: true,
-        },
-        {
-          borderColor: '#0175dc',
-          borderWidth: 1,
-          pointRadius: 0,
-          backgroundColor: 'transparent',
-          data: buildChartPoints(metricSetPair.values.experiment, metricSetPair.scopes.experiment),
-          label: 'Canary',
-          steppedLine: true,
-        },
-      ],
+      datasets,
     },
     options: {
-      animation: {
-        duration: 0,
+      ...baseOptions,
+      hover: {
+        mode: 'index',
+        intersect: false,
       },
-      legend: {
-        position: 'bottom',
-        labels: {
-          fontSize: 10,
-          padding: 5,
+      tooltips: {
+        mode: 'index',
+        intersect: false,
+        callbacks: {
+          footer: buildDeltaFooter,
         },
       },
       scales: {
-        xAxes: [{
-          type: 'time',
-          distribution: 'series'
-        } as any], // bad typings.
+        xAxes: [xAxis],
+        yAxes: [{
+          type: logScale ? 'logarithmic' : 'linear',
+        }],
       },
     },
+    plugins: [crosshairPlugin],
   };
 };
+
+const buildEmpiricalCdfChartConfig = (metricSetPair: IMetricSetPair): ChartConfiguration => ({
+  type: 'line',
+  data: {
+    datasets: [
+      // The fraction holds until the next value, so step after each point.
+      { ...buildDataset(buildEmpiricalCdf(metricSetPair.values.control), 'Baseline', BASELINE_COLOR), steppedLine: 'after' },
+      { ...buildDataset(buildEmpiricalCdf(metricSetPair.values.experiment), 'Canary', CANARY_COLOR), steppedLine: 'after' },
+    ],
+  },
+  options: {
+    ...baseOptions,
+    scales: {
+      xAxes: [{
+        type: 'linear',
+        scaleLabel: { display: true, labelString: 'Value' },
+      }],
+      yAxes: [{
+        ticks: { min: 0, max: 1 },
+        scaleLabel: { display: true, labelString: 'Fraction of values' },
+      }],
+    },
+  },
+});
+
+const buildDifferenceChartConfig = (metricSetPair: IMetricSetPair): ChartConfiguration => ({
+  type: 'line',
+  data: {
+    datasets: [
+      buildDataset(buildDifferenceSeries(metricSetPair), 'Canary - Baseline', CANARY_COLOR),
+    ],
+  },
+  options: {
+    ...baseOptions,
+    scales: {
+      xAxes: [TIME_X_AXIS],
+    },
+  },
+});
+
+export const buildChartConfig = (
+  metricSetPair: IMetricSetPair,
+  type: GraphType,
+  comparedMetricSetPair?: IMetricSetPair,
+  amplitudeOptions: IAmplitudeChartOptions = {},
+): ChartConfiguration => {
+  switch (type) {
+    case GraphType.AmplitudeVsTime:
+      return buildAmplitudeChartConfig(metricSetPair, comparedMetricSetPair, amplitudeOptions);
+    case GraphType.EmpiricalCdf:
+      return buildEmpiricalCdfChartConfig(metricSetPair);
+    case GraphType.Difference:
+      return buildDifferenceChartConfig(metricSetPair);
+    default:
+      return null;
+  }
+};
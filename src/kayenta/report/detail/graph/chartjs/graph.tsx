@@ -1,20 +1,173 @@
 import * as React from 'react';
 import { Chart } from 'chart.js';
+import autoBindMethods from 'class-autobind-decorator';
 
-import { IMetricSetPairGraphProps } from '../metricSetPairGraph.service';
-import { buildChartConfig } from './chartConfigFactory';
+import { GraphType, IMetricSetPairGraphProps } from '../metricSetPairGraph.service';
+import { buildChartConfig, IAmplitudeChartOptions } from './chartConfigFactory';
+
+import './graph.less';
+
+interface IChartJSGraphState extends IAmplitudeChartOptions {
+  // Pixel offsets of the range being dragged out to zoom to.
+  brushStart: number;
+  brushEnd: number;
+}
+
+// Shorter drags are treated as clicks.
+const MIN_BRUSH_PIXELS = 5;
+
+@autoBindMethods
+export default class ChartJSGraph extends React.Component<IMetricSetPairGraphProps, IChartJSGraphState> {
+  public state: IChartJSGraphState = {
+    alignByOffset: false,
+    logScale: false,
+    xMin: null,
+    xMax: null,
+    brushStart: null,
+    brushEnd: null,
+  };
 
-export default class ChartJSGraph extends React.Component<IMetricSetPairGraphProps> {
   private canvas: HTMLCanvasElement;
   public chart: Chart;
 
   public componentDidMount(): void {
-    const context = this.canvas.getContext('2d');
-    const { metricSetPair, type } = this.props;
-    this.chart = new Chart.Chart(context, buildChartConfig(metricSetPair, type));
+    this.drawChart();
+  }
+
+  public componentDidUpdate(_prevProps: IMetricSetPairGraphProps, prevState: IChartJSGraphState): void {
+    const { alignByOffset, logScale, xMin, xMax } = this.state;
+    if (alignByOffset !== prevState.alignByOffset
+        || logScale !== prevState.logScale
+        || xMin !== prevState.xMin
+        || xMax !== prevState.xMax) {
+      this.drawChart();
+    }
+  }
+
+  public componentWillUnmount(): void {
+    this.chart.destroy();
+  }
+
+  public toggleAlignByOffset(): void {
+    // The x axis changes units, so the zoomed range no longer applies.
+    this.setState({ alignByOffset: !this.state.alignByOffset, xMin: null, xMax: null });
+  }
+
+  public toggleLogScale(): void {
+    this.setState({ logScale: !this.state.logScale });
+  }
+
+  public resetZoom(): void {
+    this.setState({ xMin: null, xMax: null });
+  }
+
+  public startBrush(event: React.MouseEvent<HTMLCanvasElement>): void {
+    const x = this.getChartAreaOffset(event);
+    this.setState({ brushStart: x, brushEnd: x });
+  }
+
+  public moveBrush(event: React.MouseEvent<HTMLCanvasElement>): void {
+    if (this.state.brushStart !== null) {
+      this.setState({ brushEnd: this.getChartAreaOffset(event) });
+    }
+  }
+
+  public endBrush(): void {
+    const { brushStart, brushEnd } = this.state;
+    if (brushStart === null || Math.abs(brushEnd - brushStart) < MIN_BRUSH_PIXELS) {
+      this.cancelBrush();
+      return;
+    }
+
+    const xAxis = (this.chart as any).scales['x-axis-0']; // bad typings.
+    this.setState({
+      xMin: Number(xAxis.getValueForPixel(Math.min(brushStart, brushEnd))),
+      xMax: Number(xAxis.getValueForPixel(Math.max(brushStart, brushEnd))),
+      brushStart: null,
+      brushEnd: null,
+    });
+  }
+
+  public cancelBrush(): void {
+    this.setState({ brushStart: null, brushEnd: null });
   }
 
   public render() {
-    return <canvas ref={canvas => this.canvas = canvas}/>;
+    const { type, comparedMetricSetPair } = this.props;
+    const { alignByOffset, logScale, xMin, brushStart, brushEnd } = this.state;
+    const isAmplitude = type === GraphType.AmplitudeVsTime;
+    const chartArea = this.chart && (this.chart as any).chartArea; // bad typings.
+
+    return (
+      <div className="chartjs-graph">
+        {isAmplitude && (
+          <ul className="list-inline chartjs-graph-options">
+            <li>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={alignByOffset || !!comparedMetricSetPair}
+                  disabled={!!comparedMetricSetPair}
+                  onChange={this.toggleAlignByOffset}
+                />
+                {' '}Align by offset
+              </label>
+            </li>
+            <li>
+              <label>
+                <input type="checkbox" checked={logScale} onChange={this.toggleLogScale}/>
+                {' '}Log scale
+              </label>
+            </li>
+            <li>
+              {xMin !== null
+                ? <button className="btn btn-link btn-sm" onClick={this.resetZoom}>Reset zoom</button>
+                : <span className="text-muted">Drag across the graph to zoom</span>}
+            </li>
+          </ul>
+        )}
+        <div className="chartjs-graph-canvas">
+          <canvas
+            ref={canvas => this.canvas = canvas}
+            onMouseDown={isAmplitude ? this.startBrush : null}
+            onMouseMove={isAmplitude ? this.moveBrush : null}
+            onMouseUp={isAmplitude ? this.endBrush : null}
+            onMouseLeave={isAmplitude ? this.cancelBrush : null}
+          />
+          {brushStart !== null && chartArea && (
+            <div
+              className="chartjs-graph-brush"
+              style={{
+                left: Math.min(brushStart, brushEnd),
+                width: Math.abs(brushEnd - brushStart),
+                top: chartArea.top,
+                height: chartArea.bottom - chartArea.top,
+              }}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  private drawChart(): void {
+    if (this.chart) {
+      this.chart.destroy();
+    }
+
+    const { metricSetPair, type, comparedMetricSetPair } = this.props;
+    const { alignByOffset, logScale, xMin, xMax } = this.state;
+    const context = this.canvas.getContext('2d');
+    this.chart = new Chart.Chart(
+      context,
+      buildChartConfig(metricSetPair, type, comparedMetricSetPair, { alignByOffset, logScale, xMin, xMax }),
+    );
+  }
+
+  // Horizontal offset of the pointer from the canvas, kept within the plotted area.
+  private getChartAreaOffset(event: React.MouseEvent<HTMLCanvasElement>): number {
+    const { left, right } = (this.chart as any).chartArea; // bad typings.
+    const x = event.clientX - this.canvas.getBoundingClientRect().left;
+    return Math.min(Math.max(x, left), right);
   }
 }
@@ -6,6 +6,7 @@ import ChartJSGraph from './graph';
 
 metricSetPairGraphService.register({
   name: 'chartjs',
-  handlesGraphType: type => [GraphType.AmplitudeVsTime].includes(type),
+  handlesGraphType: type => [GraphType.AmplitudeVsTime, GraphType.EmpiricalCdf, GraphType.Difference].includes(type),
+  handlesComparison: type => [GraphType.AmplitudeVsTime].includes(type),
   getGraph: () => ChartJSGraph,
 });
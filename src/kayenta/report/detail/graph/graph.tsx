@@ -1,32 +1,50 @@
 import * as React from 'react';
 import { connect } from 'react-redux';
 
-import { GraphType, metricSetPairGraphService } from './metricSetPairGraph.service';
+import { GraphType, IMetricSetPairGraph, metricSetPairGraphService } from './metricSetPairGraph.service';
 import { ICanaryState } from 'kayenta/reducers';
 import { IMetricSetPair } from 'kayenta/domain/IMetricSetPair';
 import { ICanaryAnalysisResult } from 'kayenta/domain/ICanaryJudgeResult';
 import { metricResultsSelector } from 'kayenta/selectors';
+import { CanarySettings } from 'kayenta/canary.settings';
 
 interface IMetricSetPairGraphStateProps {
   pair: IMetricSetPair;
   result: ICanaryAnalysisResult;
   graphType: GraphType;
+  comparedPair?: IMetricSetPair;
 }
 
-const GRAPH_IMPLEMENTATIONS = ['chartjs', 'plotly'];
+// The first implementation that handles a graph type draws it.
+const GRAPH_IMPLEMENTATIONS = CanarySettings.graphImplementations || ['chartjs', 'plotly'];
 
-const MetricSetPairGraph = ({ pair, result, graphType }: IMetricSetPairGraphStateProps) => {
-  const delegates = GRAPH_IMPLEMENTATIONS
+const getGraphDelegates = (): IMetricSetPairGraph[] =>
+  GRAPH_IMPLEMENTATIONS
     .map(name => metricSetPairGraphService.getDelegate(name))
     .filter(d => !!d);
 
-  const delegate = delegates.find(candidate => candidate.handlesGraphType(graphType));
+// Graph types that at least one registered graph implementation can render.
+export const getSupportedGraphTypes = (): GraphType[] =>
+  Object.values(GraphType).filter((type: GraphType) =>
+    getGraphDelegates().some(candidate => candidate.handlesGraphType(type)));
+
+// The graph implementation that can overlay two runs' series for a graph type, if any.
+export const getComparisonGraphDelegate = (graphType: GraphType): IMetricSetPairGraph =>
+  getGraphDelegates().find(candidate =>
+    candidate.handlesGraphType(graphType) && !!candidate.handlesComparison && candidate.handlesComparison(graphType));
+
+// Unconnected so that series from outside a canary run, e.g., a metric preview, can be graphed too.
+export const MetricSetPairGraph = ({ pair, result, graphType, comparedPair }: IMetricSetPairGraphStateProps) => {
+  const delegate = comparedPair
+    ? getComparisonGraphDelegate(graphType)
+    : getGraphDelegates().find(candidate => candidate.handlesGraphType(graphType));
   if (!delegate) {
     return <h3 className="heading-3">Could not load graph.</h3>;
   }
 
+  // Graphs are drawn on mount, so switching between types that share an implementation needs a new instance.
   const Graph = delegate.getGraph();
-  return <Graph metricSetPair={pair} result={result} type={graphType}/>;
+  return <Graph key={graphType} metricSetPair={pair} result={result} type={graphType} comparedMetricSetPair={comparedPair}/>;
 };
 
 const mapStateToProps = (state: ICanaryState): IMetricSetPairGraphStateProps => {
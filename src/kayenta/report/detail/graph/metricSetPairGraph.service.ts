@@ -7,13 +7,18 @@ import { buildDelegateService } from 'kayenta/service/delegateFactory';
 // e.g., amplitude vs. time, histogram, etc.
 export enum GraphType {
   AmplitudeVsTime = 'Amplitude vs. Time',
-  Histogram = 'Histogram'
+  Histogram = 'Histogram',
+  BoxPlot = 'Box Plot',
+  EmpiricalCdf = 'Empirical CDF',
+  Difference = 'Canary - Baseline',
 }
 
 export interface IMetricSetPairGraphProps {
   type: GraphType;
   metricSetPair: IMetricSetPair;
   result: ICanaryAnalysisResult;
+  // Series from another run to graph alongside, aligned by time since the start of each scope.
+  comparedMetricSetPair?: IMetricSetPair;
 }
 
 export interface IMetricSetPairGraph {
@@ -31,6 +36,11 @@ export interface IMetricSetPairGraph {
   * Returns true if the graph implementation supports a given graph type.
   * */
   handlesGraphType(type: GraphType): boolean;
+
+  /*
+  * Returns true if the graph implementation can overlay another run's series for a given graph type.
+  * */
+  handlesComparison?(type: GraphType): boolean;
 }
 
 export const metricSetPairGraphService = buildDelegateService<IMetricSetPairGraph>();
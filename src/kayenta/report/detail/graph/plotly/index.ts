@@ -3,6 +3,11 @@ import PlotlyGraph from './plotly-graph';
 
 metricSetPairGraphService.register({
   name: 'plotly',
-  handlesGraphType: type => [GraphType.Histogram].includes(type),
+  handlesGraphType: type => [
+    GraphType.Histogram,
+    GraphType.BoxPlot,
+    GraphType.EmpiricalCdf,
+    GraphType.Difference,
+  ].includes(type),
   getGraph: () => PlotlyGraph,
 });
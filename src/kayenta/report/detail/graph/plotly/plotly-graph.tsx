@@ -3,11 +3,27 @@ import * as Plotly from 'plotly.js';
 import autoBindMethods from 'class-autobind-decorator';
 
 import { IMetricSetPair } from 'kayenta/domain/IMetricSetPair';
+import { buildDifferenceSeries, buildEmpiricalCdf, numericValues } from 'kayenta/service/metricSetPairSeries.service';
 import { GraphType, IMetricSetPairGraphProps } from '../metricSetPairGraph.service';
 
 const BASELINE_COLOR = '#0075dc';
 const CANARY_COLOR = '#993f00';
 
+const LAYOUT = {
+  autosize: false,
+  width: 830,
+  height: 415,
+  margin: {
+    l: 40,
+    r: 40,
+    b: 40,
+    t: 40,
+    pad: 4,
+  },
+  plot_bgcolor: '#f5f5f5',
+  paper_bgcolor: '#f5f5f5'
+};
+
 function renderHistogram(container: HTMLElement, metricSetPair: IMetricSetPair) {
 
   const noNan = (n: any) => n !== null && n !== 'NaN';
@@ -41,20 +57,9 @@ function renderHistogram(container: HTMLElement, metricSetPair: IMetricSetPair)
   };
 
   const layout = {
-    autosize: false,
-    width: 830,
-    height: 415,
-    margin: {
-      l: 40,
-      r: 40,
-      b: 40,
-      t: 40,
-      pad: 4,
-    },
+    ...LAYOUT,
     barmode: 'overlay',
     bargroupgap: 0.01,
-    plot_bgcolor: '#f5f5f5',
-    paper_bgcolor: '#f5f5f5'
   };
 
   const promise = Plotly.newPlot(container, [ canaryHisto as any, baselineHisto as any], layout);
@@ -79,6 +84,70 @@ function renderHistogram(container: HTMLElement, metricSetPair: IMetricSetPair)
 
 }
 
+function renderBoxPlot(container: HTMLElement, metricSetPair: IMetricSetPair) {
+  const buildBox = (name: string, values: number[], color: string) => ({
+    name,
+    y: numericValues(values),
+    type: 'box',
+    boxpoints: 'outliers',
+    boxmean: true,
+    marker: {
+      color,
+    },
+  });
+
+  Plotly.newPlot(container, [
+    buildBox('Baseline', metricSetPair.values.control, BASELINE_COLOR) as any,
+    buildBox('Canary', metricSetPair.values.experiment, CANARY_COLOR) as any,
+  ], LAYOUT as any);
+}
+
+function renderEmpiricalCdf(container: HTMLElement, metricSetPair: IMetricSetPair) {
+  const buildCdf = (name: string, values: number[], color: string) => {
+    const points = buildEmpiricalCdf(values);
+    return {
+      name,
+      x: points.map(point => point.x),
+      y: points.map(point => point.y),
+      type: 'scatter',
+      mode: 'lines',
+      line: {
+        shape: 'hv',
+        color,
+      },
+    };
+  };
+
+  const layout = {
+    ...LAYOUT,
+    xaxis: { title: 'Value' },
+    yaxis: { title: 'Fraction of values', range: [0, 1] },
+  };
+
+  Plotly.newPlot(container, [
+    buildCdf('Baseline', metricSetPair.values.control, BASELINE_COLOR) as any,
+    buildCdf('Canary', metricSetPair.values.experiment, CANARY_COLOR) as any,
+  ], layout as any);
+}
+
+function renderDifference(container: HTMLElement, metricSetPair: IMetricSetPair) {
+  const points = buildDifferenceSeries(metricSetPair);
+  const difference = {
+    name: 'Canary - Baseline',
+    showlegend: true,
+    x: points.map(point => new Date(point.x)),
+    y: points.map(point => point.y),
+    type: 'scatter',
+    mode: 'lines',
+    fill: 'tozeroy',
+    line: {
+      shape: 'hv',
+      color: CANARY_COLOR,
+    },
+  };
+
+  Plotly.newPlot(container, [difference as any], LAYOUT as any);
+}
 
 @autoBindMethods
 export default class PlotlyGraph extends React.Component<IMetricSetPairGraphProps> {
@@ -97,8 +166,19 @@ export default class PlotlyGraph extends React.Component<IMetricSetPairGraphProp
     this.container = container;
 
     const { metricSetPair, type } = this.props;
-    if (type === GraphType.Histogram) {
-      renderHistogram(container, metricSetPair);
+    switch (type) {
+      case GraphType.Histogram:
+        renderHistogram(container, metricSetPair);
+        break;
+      case GraphType.BoxPlot:
+        renderBoxPlot(container, metricSetPair);
+        break;
+      case GraphType.EmpiricalCdf:
+        renderEmpiricalCdf(container, metricSetPair);
+        break;
+      case GraphType.Difference:
+        renderDifference(container, metricSetPair);
+        break;
     }
   }
 
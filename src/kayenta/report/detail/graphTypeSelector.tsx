@@ -4,6 +4,7 @@ import { connect, Dispatch } from 'react-redux';
 import { ICanaryState } from 'kayenta/reducers';
 import * as Creators from 'kayenta/actions/creators';
 import { GraphType } from './graph/metricSetPairGraph.service';
+import { getSupportedGraphTypes } from './graph/graph';
 
 interface IGraphTypeSelectorStateProps {
   selected: GraphType;
@@ -25,7 +26,7 @@ const GraphTypeSelector = ({ selected, selectGraphType }: IGraphTypeSelectorStat
         </label>
       </li>
       {
-        Object.values(GraphType).map((type) => (
+        getSupportedGraphTypes().map((type) => (
           <li
             style={selected === type ? { textDecoration: 'underline' } : null}
             key={type}
@@ -8,7 +8,7 @@ import { ICanaryMetricConfig } from 'kayenta/domain/ICanaryConfig';
 import { IMetricSetPair } from 'kayenta/domain/IMetricSetPair';
 import { runSelector, selectedMetricConfigSelector } from 'kayenta/selectors';
 import { ICanaryState } from 'kayenta/reducers';
-import metricStoreConfigStore from 'kayenta/metricStore/metricStoreConfig.service';
+import { getMetricStoreConfig } from 'kayenta/metricStore/metricStoreConfig.service';
 import FormattedDate from 'kayenta/layout/formattedDate';
 
 import './metricResultStats.less';
@@ -127,11 +127,15 @@ const MetricResultStats = ({ metricConfig, metricSetPair, run }: IMetricResultSt
       label: 'name',
       getContent: () => <p>{metricConfig.name}</p>,
     },
+    {
+      label: 'metric store',
+      getContent: () => <p>{metricConfig.query.type}</p>,
+    },
     {
       label: 'query',
       getContent: () => (
         <p>
-          {metricStoreConfigStore.getDelegate(metricConfig.query.type).queryFinder(metricConfig)}
+          {getMetricStoreConfig(metricConfig.query.type).queryFinder(metricConfig)}
         </p>
       ),
     },
@@ -6,7 +6,7 @@ import { ICanaryState } from 'kayenta/reducers';
 import { ICanaryAnalysisResult } from 'kayenta/domain/ICanaryJudgeResult';
 import MetricResultsList from './metricResultsList';
 import MetricResultDetail from './metricResultDetail';
-import { judgeResultSelector } from 'kayenta/selectors';
+import { judgeResultSelector, metricScopeNamesSelector } from 'kayenta/selectors';
 
 interface IMetricResultsStateProps {
   metricResults: ICanaryAnalysisResult[];
@@ -34,10 +34,12 @@ const mapStateToProps = (state: ICanaryState): IMetricResultsStateProps => {
   const {
     selectedRun: {
       selectedGroup,
+      selectedScope,
       selectedMetric,
     },
   } = state;
   const result = judgeResultSelector(state);
+  const metricScopeNames = metricScopeNamesSelector(state);
 
   // Build list of metric results to render.
   let filter: (r: ICanaryAnalysisResult) => boolean;
@@ -47,8 +49,10 @@ const mapStateToProps = (state: ICanaryState): IMetricResultsStateProps => {
     filter = r => r.groups.includes(selectedGroup);
   }
 
+  const scopeFilter = (r: ICanaryAnalysisResult) => !selectedScope || metricScopeNames[r.name] === selectedScope;
+
   return {
-    metricResults: Object.values(result.results).filter(filter),
+    metricResults: Object.values(result.results).filter(filter).filter(scopeFilter),
     selectedMetricResult: Object.values(result.results).find(r => r.id === selectedMetric),
   };
 };
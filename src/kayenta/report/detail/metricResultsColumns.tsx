@@ -22,3 +22,9 @@ export const metricResultsColumns: ITableColumn<IMetricResultsTableRow>[] = [
   }
 ];
 
+
+export const metricScopeColumn: ITableColumn<IMetricResultsTableRow> = {
+  label: 'scope',
+  getContent: ({ scopeName }) => (<section className="text-muted">{scopeName}</section>),
+  width: 2,
+};
@@ -6,7 +6,8 @@ import { ICanaryAnalysisResult } from 'kayenta/domain/ICanaryJudgeResult';
 import { ICanaryState } from 'kayenta/reducers';
 import * as Creators from 'kayenta/actions/creators';
 import { Table } from 'kayenta/layout/table';
-import { metricResultsColumns } from './metricResultsColumns';
+import { metricScopeNamesSelector, scopeNamesSelector } from 'kayenta/selectors';
+import { metricResultsColumns, metricScopeColumn } from './metricResultsColumns';
 import MultipleResultsTable from './multipleResultsTable';
 
 import './metricResultsList.less';
@@ -17,23 +18,29 @@ export interface IResultsListOwnProps {
 
 interface IResultsListDispatchProps {
   select: (metric: string) => void;
+  selectScope: (event: React.ChangeEvent<HTMLSelectElement>) => void;
 }
 
 interface IResultsListStateProps {
   selectedMetric: string;
+  // Only set when the run has more than one scope.
+  scopeNames: string[];
+  selectedScope: string;
+  metricScopeNames: {[metricName: string]: string};
 }
 
 export interface IMetricResultsTableRow {
   metricName: string;
+  scopeName: string;
   results: ICanaryAnalysisResult[];
 }
 
-const buildTableRows = (results: ICanaryAnalysisResult[]): IMetricResultsTableRow[] => {
+const buildTableRows = (results: ICanaryAnalysisResult[], metricScopeNames: {[metricName: string]: string}): IMetricResultsTableRow[] => {
   const tableRowsByMetricName = results.reduce(
     (map, result) =>
       map.has(result.name)
-        ? map.set(result.name, { metricName: result.name, results: map.get(result.name).results.concat(result) })
-        : map.set(result.name, { metricName: result.name, results: [result] }),
+        ? map.set(result.name, { ...map.get(result.name), results: map.get(result.name).results.concat(result) })
+        : map.set(result.name, { metricName: result.name, scopeName: metricScopeNames[result.name], results: [result] }),
     new Map<string, IMetricResultsTableRow>()
   );
 
@@ -57,16 +64,27 @@ const buildRowForMetricWithMultipleResults = (row: IMetricResultsTableRow) => {
   );
 };
 
-const ResultsList = ({ results, select, selectedMetric }: IResultsListOwnProps & IResultsListDispatchProps & IResultsListStateProps) => {
-  const rows = buildTableRows(results);
+const ResultsList = ({ results, select, selectedMetric, scopeNames, selectedScope, metricScopeNames, selectScope }: IResultsListOwnProps & IResultsListDispatchProps & IResultsListStateProps) => {
+  const rows = buildTableRows(results, metricScopeNames);
+  const columns = scopeNames
+    ? [metricResultsColumns[0], metricScopeColumn].concat(metricResultsColumns.slice(1))
+    : metricResultsColumns;
   return (
     <section className="vertical metric-results-list flex-1">
+      {scopeNames && (
+        <div className="metric-results-scope-filter">
+          <select className="form-control input-sm" value={selectedScope || ''} onChange={selectScope}>
+            <option value="">All scopes</option>
+            {scopeNames.map(scopeName => <option key={scopeName} value={scopeName}>{scopeName}</option>)}
+          </select>
+        </div>
+      )}
       <Table
         rowKey={r => r.metricName}
         tableBodyClassName="list-unstyled tabs-vertical flex-1"
         rowClassName={r => classNames('horizontal', { selected: r.results[0].id === selectedMetric })}
         rows={rows}
-        columns={metricResultsColumns}
+        columns={columns}
         onRowClick={r => select(r.results[0].id)}
         className="flex-1 vertical"
         customRow={buildRowForMetricWithMultipleResults}
@@ -75,9 +93,15 @@ const ResultsList = ({ results, select, selectedMetric }: IResultsListOwnProps &
   );
 };
 
-const mapStateToProps = (state: ICanaryState): IResultsListStateProps => ({
-  selectedMetric: state.selectedRun.selectedMetric,
-});
+const mapStateToProps = (state: ICanaryState): IResultsListStateProps => {
+  const scopeNames = scopeNamesSelector(state);
+  return {
+    selectedMetric: state.selectedRun.selectedMetric,
+    scopeNames: scopeNames.length > 1 ? scopeNames : null,
+    selectedScope: state.selectedRun.selectedScope,
+    metricScopeNames: metricScopeNamesSelector(state),
+  };
+};
 
 const mapDispatchToProps = (
   dispatch: Dispatch<ICanaryState>,
@@ -85,6 +109,8 @@ const mapDispatchToProps = (
 ): IResultsListOwnProps & IResultsListDispatchProps => ({
   select: (metricId: string) =>
     dispatch(Creators.selectReportMetric({ metricId })),
+  selectScope: (event: React.ChangeEvent<HTMLSelectElement>) =>
+    dispatch(Creators.selectReportScope({ scope: event.target.value || null })),
   ...ownProps,
 });
 
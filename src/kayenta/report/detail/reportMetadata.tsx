@@ -2,7 +2,10 @@ import * as React from 'react';
 import { connect } from 'react-redux';
 
 import { ICanaryState } from 'kayenta/reducers';
-import { ICanaryExecutionStatusResult } from 'kayenta/domain/ICanaryExecutionStatusResult';
+import {
+  ICanaryExecutionRequestScope,
+  ICanaryExecutionStatusResult,
+} from 'kayenta/domain/ICanaryExecutionStatusResult';
 import FormattedDate from 'kayenta/layout/formattedDate';
 import SourceLinks from './sourceLinks';
 
@@ -26,14 +29,8 @@ const Label = ({ label, extraClass }: { label: string, extraClass?: string }) =>
   </label>
 );
 
-// TODO(dpeach): this only supports canary runs with a single scope.
-const buildScopeMetadataEntries = (run: ICanaryExecutionStatusResult): IMetadataGroup[] => {
-  const request = run.canaryExecutionRequest || run.result.canaryExecutionRequest;
-  const scopes = Object.values(request.scopes);
-  if (scopes.length > 1) {
-    return null;
-  }
-
+// With more than one scope, each scope's groups lead with its name.
+const buildScopeMetadataEntries = (scopeName: string, scope: ICanaryExecutionRequestScope, showScopeName: boolean): IMetadataGroup[] => {
   const {
     controlScope: {
       // If the canary ran through Orca, it's not possible
@@ -48,9 +45,9 @@ const buildScopeMetadataEntries = (run: ICanaryExecutionStatusResult): IMetadata
       location: experimentLocation,
       scope: experimentScope,
     },
-  } = scopes[0];
+  } = scope;
 
-  return [
+  const groups: IMetadataGroup[] = [
     {
       label: 'baseline',
       entries: [
@@ -98,18 +95,51 @@ const buildScopeMetadataEntries = (run: ICanaryExecutionStatusResult): IMetadata
       ]
     },
   ];
+
+  if (!showScopeName) {
+    return groups;
+  }
+
+  const scopeNameGroup: IMetadataGroup = {
+    label: 'scope',
+    entries: [
+      {
+        label: 'name',
+        getContent: () => <p>{scopeName}</p>,
+      },
+    ],
+  };
+  return [scopeNameGroup, ...groups];
 };
 
+const renderMetadataGroups = (groups: IMetadataGroup[]) =>
+  groups.map((group, index) => (
+    <div key={group.label || index}>
+      <Label label={group.label || ''} extraClass="label-lg"/>
+      <ul className="list-unstyled list-inline">
+        {
+          group.entries.map(e => (
+            <li key={e.label || index}>
+              <Label label={e.label}/>
+              {e.getContent()}
+            </li>
+          ))
+        }
+      </ul>
+    </div>
+  ));
+
 const ReportMetadata = ({ run }: IReportMetadata) => {
+  const request = run.canaryExecutionRequest || run.result.canaryExecutionRequest;
   const {
     thresholds: {
       marginal,
       pass
     },
-  } = run.canaryExecutionRequest || run.result.canaryExecutionRequest;
+  } = request;
 
-  const metadataGroups = (buildScopeMetadataEntries(run) || []);
-  metadataGroups.push({
+  const scopeNames = Object.keys(request.scopes);
+  const thresholdGroup: IMetadataGroup = {
     label: 'threshold',
     entries: [
       {
@@ -121,32 +151,23 @@ const ReportMetadata = ({ run }: IReportMetadata) => {
         getContent: () => <p>{pass}</p>,
       }
     ]
-  });
+  };
 
   return (
-    <section className="report-metadata">
-      <div className="horizontal space-between bottom">
+    <section className="report-metadata horizontal space-between bottom">
+      <div className="vertical flex-1 report-metadata-scopes">
         {
-          metadataGroups.map((group, index) => (
-            <div key={group.label || index}>
-              <Label label={group.label || ''} extraClass="label-lg"/>
-              <ul className="list-unstyled list-inline">
-                {
-                  group.entries.map(e => (
-                    <li key={e.label || index}>
-                      <Label label={e.label}/>
-                      {e.getContent()}
-                    </li>
-                  ))
-                }
-              </ul>
+          scopeNames.map(scopeName => (
+            <div key={scopeName} className="horizontal space-between bottom report-metadata-scope">
+              {renderMetadataGroups(buildScopeMetadataEntries(scopeName, request.scopes[scopeName], scopeNames.length > 1))}
             </div>
           ))
         }
-        <div key="source">
-          <Label label="Source" extraClass="label-lgf"/>
-          <SourceLinks/>
-        </div>
+      </div>
+      {renderMetadataGroups([thresholdGroup])}
+      <div key="source">
+        <Label label="Source" extraClass="label-lgf"/>
+        <SourceLinks/>
       </div>
     </section>
   );
@@ -0,0 +1,73 @@
+import * as React from 'react';
+import { connect } from 'react-redux';
+import { ICanaryState } from 'kayenta/reducers';
+import { ScoreClassificationLabel } from 'kayenta/domain/ScoreClassificationLabel';
+import { EXECUTION_STATUSES, IExecutionListParams } from 'kayenta/service/executionList.service';
+import { goToExecutionListParams } from './listParams';
+
+interface IExecutionListFiltersStateProps {
+  params: IExecutionListParams;
+}
+
+type ExecutionListFilter = 'configName' | 'pipeline' | 'classification' | 'status' | 'startDate' | 'endDate';
+
+// Empty inputs clear their param so it drops out of the URL.
+const update = (filter: ExecutionListFilter) =>
+  (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const params: Partial<IExecutionListParams> = {};
+    params[filter] = event.target.value || null;
+    goToExecutionListParams(params);
+  };
+
+/*
+ * Filters for the execution list. The status filter is applied by the server;
+ * the rest are applied to the executions loaded so far.
+ */
+export const ExecutionListFilters = ({ params }: IExecutionListFiltersStateProps) => (
+  <div className="horizontal execution-list-filters">
+    <input
+      type="search"
+      className="form-control input-sm"
+      placeholder="Config name"
+      value={params.configName || ''}
+      onChange={update('configName')}
+    />
+    <input
+      type="search"
+      className="form-control input-sm"
+      placeholder="Pipeline execution ID"
+      value={params.pipeline || ''}
+      onChange={update('pipeline')}
+    />
+    <select className="form-control input-sm" value={params.classification || ''} onChange={update('classification')}>
+      <option value="">Any classification</option>
+      {Object.values(ScoreClassificationLabel).map(label => <option key={label} value={label}>{label}</option>)}
+    </select>
+    <select className="form-control input-sm" value={params.status || ''} onChange={update('status')}>
+      <option value="">Any status</option>
+      {EXECUTION_STATUSES.map(status => <option key={status} value={status}>{status.toLowerCase()}</option>)}
+    </select>
+    <input
+      type="date"
+      className="form-control input-sm"
+      title="Started on or after"
+      value={params.startDate || ''}
+      max={params.endDate || undefined}
+      onChange={update('startDate')}
+    />
+    <input
+      type="date"
+      className="form-control input-sm"
+      title="Started on or before"
+      value={params.endDate || ''}
+      min={params.startDate || undefined}
+      onChange={update('endDate')}
+    />
+  </div>
+);
+
+const mapStateToProps = (state: ICanaryState): IExecutionListFiltersStateProps => ({
+  params: state.executionList.params,
+});
+
+export default connect(mapStateToProps)(ExecutionListFilters);
@@ -0,0 +1,49 @@
+import * as React from 'react';
+import { connect, Dispatch } from 'react-redux';
+import { Observable } from 'rxjs/Observable';
+import { Subscription } from 'rxjs/Subscription';
+import { pick } from 'lodash';
+
+import * as Creators from 'kayenta/actions/creators';
+import { ICanaryState } from 'kayenta/reducers';
+import { DEFAULT_EXECUTION_LIST_PARAMS, IExecutionListParams } from 'kayenta/service/executionList.service';
+import ExecutionListLoadStates from './loadStates';
+
+interface IExecutionListLoaderStateParamsProps {
+  executionListParamsStream: Observable<Partial<IExecutionListParams>>;
+}
+
+interface IExecutionListLoaderDispatchProps {
+  updateParams: (stateParams: Partial<IExecutionListParams>) => void;
+}
+
+/*
+ * Top-level .reportDefault state component.
+ * Copies the list's filter, sort and page size params into the store on changes to /report?..., renders load states.
+ */
+class ExecutionListLoader extends React.Component<IExecutionListLoaderDispatchProps & IExecutionListLoaderStateParamsProps> {
+  private subscription: Subscription;
+
+  constructor(props: IExecutionListLoaderDispatchProps & IExecutionListLoaderStateParamsProps) {
+    super(props);
+    const { executionListParamsStream, updateParams } = props;
+    this.subscription = executionListParamsStream.subscribe(updateParams);
+  }
+
+  public componentWillUnmount(): void {
+    this.subscription.unsubscribe();
+  }
+
+  public render() {
+    return <ExecutionListLoadStates/>;
+  }
+}
+
+const mapDispatchToProps = (dispatch: Dispatch<ICanaryState>): IExecutionListLoaderDispatchProps => ({
+  updateParams: (stateParams: Partial<IExecutionListParams>) =>
+    dispatch(Creators.updateExecutionListParams({
+      params: pick(stateParams, Object.keys(DEFAULT_EXECUTION_LIST_PARAMS)),
+    })),
+});
+
+export default connect(null, mapDispatchToProps)(ExecutionListLoader);
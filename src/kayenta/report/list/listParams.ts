@@ -0,0 +1,7 @@
+import { ReactInjector } from '@spinnaker/core';
+import { IExecutionListParams } from 'kayenta/service/executionList.service';
+
+// The URL is the source of truth for the list's filters, sort and page size;
+// the .reportDefault state's params stream copies them into the store.
+export const goToExecutionListParams = (params: Partial<IExecutionListParams>) =>
+  ReactInjector.$state.go('.', params, { location: 'replace' });
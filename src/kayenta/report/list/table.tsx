@@ -1,23 +1,41 @@
 import * as React from 'react';
-import { connect } from 'react-redux';
+import { connect, Dispatch } from 'react-redux';
+import { sortBy } from 'lodash';
+import autoBindMethods from 'class-autobind-decorator';
+import { ReactInjector, Spinner } from '@spinnaker/core';
 import { ITableColumn, Table } from 'kayenta/layout/table';
 import { ICanaryState } from 'kayenta/reducers';
+import {
+  executionListQuerySelector,
+  filteredExecutionsSelector,
+  resolveConfigIdFromNameAndApplication,
+} from 'kayenta/selectors';
 import { ICanaryExecutionStatusResult } from 'kayenta/domain';
+import {
+  EXECUTION_LIST_PAGE_SIZES,
+  ExecutionListSortColumn,
+  getExecutionConfigName,
+  IExecutionListParams,
+} from 'kayenta/service/executionList.service';
+import * as Creators from 'kayenta/actions/creators';
 import FormattedDate from 'kayenta/layout/formattedDate';
 import CenteredDetail from 'kayenta/layout/centeredDetail';
 import Score from '../detail/score';
 import ReportLink from './reportLink';
 import ConfigLink from './configLink';
 import { PipelineLink } from './pipelineLink';
+import ExecutionListFilters from './filters';
+import { goToExecutionListParams } from './listParams';
 
 import './executionList.less';
 
 const columns: ITableColumn<ICanaryExecutionStatusResult>[] = [
   {
     label: 'Config',
+    sortKey: ExecutionListSortColumn.Config,
     getContent: execution => (
       <ConfigLink
-        configName={execution.config ? execution.config.name : execution.result.config.name}
+        configName={getExecutionConfigName(execution)}
         application={execution.application}
       />
     ),
@@ -25,17 +43,21 @@ const columns: ITableColumn<ICanaryExecutionStatusResult>[] = [
   },
   {
     label: 'Score',
-    getContent: execution => (
-      <Score
-        score={execution.result.judgeResult.score}
-        inverse={true}
-        showClassification={false}
-      />
-    ),
+    sortKey: ExecutionListSortColumn.Score,
+    getContent: execution => execution.result
+      ? (
+        <Score
+          score={execution.result.judgeResult.score}
+          inverse={true}
+          showClassification={false}
+        />
+      )
+      : <span className="text-muted">{(execution.status || '').toLowerCase()}</span>,
     width: 1,
   },
   {
     label: 'Started',
+    sortKey: ExecutionListSortColumn.Started,
     getContent: execution => <FormattedDate dateIso={execution.startTimeIso}/>,
     width: 1,
   },
@@ -49,9 +71,9 @@ const columns: ITableColumn<ICanaryExecutionStatusResult>[] = [
     width: 1,
   },
   {
-    getContent: execution => (
+    getContent: execution => execution.result && (
       <ReportLink
-        configName={execution.config ? execution.config.name : execution.result.config.name}
+        configName={getExecutionConfigName(execution)}
         executionId={execution.pipelineId}
         application={execution.application}
       />
@@ -61,31 +83,168 @@ const columns: ITableColumn<ICanaryExecutionStatusResult>[] = [
 ];
 
 interface IExecutionListTableStateProps {
+  // Filtered and sorted.
   executions: ICanaryExecutionStatusResult[];
+  loadedExecutions: ICanaryExecutionStatusResult[];
+  // Keyed by pipeline ID.
+  configIds: {[pipelineId: string]: string};
+  params: IExecutionListParams;
+  // The last request filled its limit, so the server may have more.
+  hasMore: boolean;
+  loadingMore: boolean;
+}
+
+interface IExecutionListTableDispatchProps {
+  loadMore: () => void;
 }
 
-const ExecutionListTable = ({ executions }: IExecutionListTableStateProps) => {
-  if (!executions || !executions.length) {
+interface IExecutionListTableState {
+  // Pipeline IDs of the executions selected for comparison.
+  compared: string[];
+}
+
+const MAX_COMPARED = 2;
+
+@autoBindMethods
+class ExecutionListTable extends React.Component<IExecutionListTableStateProps & IExecutionListTableDispatchProps, IExecutionListTableState> {
+
+  public state: IExecutionListTableState = { compared: [] };
+
+  public toggleCompared(event: React.ChangeEvent<HTMLInputElement>) {
+    const { pipelineId } = event.target.dataset;
+    const { compared } = this.state;
+    this.setState({
+      compared: compared.includes(pipelineId)
+        ? compared.filter(id => id !== pipelineId)
+        : compared.concat([pipelineId]).slice(-MAX_COMPARED),
+    });
+  }
+
+  // The earlier run goes on the left. Selections stay put while the filters change.
+  public compare() {
+    const { loadedExecutions, configIds } = this.props;
+    const [left, right] = sortBy(
+      loadedExecutions.filter(e => this.state.compared.includes(e.pipelineId)),
+      'startTimeIso',
+    );
+    ReactInjector.$state.go('^.reportComparison', {
+      configId: configIds[left.pipelineId],
+      runId: left.pipelineId,
+      otherConfigId: configIds[right.pipelineId],
+      otherRunId: right.pipelineId,
+    });
+  }
+
+  public sort(sortKey: string) {
+    const { params } = this.props;
+    goToExecutionListParams({
+      sortBy: sortKey as ExecutionListSortColumn,
+      sortDirection: sortKey === params.sortBy
+        ? (params.sortDirection === 'asc' ? 'desc' : 'asc')
+        : (sortKey === ExecutionListSortColumn.Config ? 'asc' : 'desc'),
+    });
+  }
+
+  public changePageSize(event: React.ChangeEvent<HTMLSelectElement>) {
+    goToExecutionListParams({ pageSize: Number(event.target.value) });
+  }
+
+  public render() {
+    const { executions, loadedExecutions, params, hasMore, loadingMore, loadMore } = this.props;
+    const { compared } = this.state;
+
+    const compareColumn: ITableColumn<ICanaryExecutionStatusResult> = {
+      getContent: execution => (
+        <input
+          type="checkbox"
+          title={execution.result ? 'Select two reports to compare' : 'This run has no report to compare'}
+          disabled={!execution.result}
+          checked={compared.includes(execution.pipelineId)}
+          data-pipeline-id={execution.pipelineId}
+          onChange={this.toggleCompared}
+        />
+      ),
+      width: 1,
+    };
+
+    let list: JSX.Element;
+    if (!loadedExecutions.length && !params.status) {
+      list = (
+        <CenteredDetail>
+          <h3 className="heading-3">No canary execution history for this application.</h3>
+        </CenteredDetail>
+      );
+    } else if (!executions.length) {
+      list = (
+        <CenteredDetail>
+          <h3 className="heading-3">No canary executions match these filters.</h3>
+        </CenteredDetail>
+      );
+    } else {
+      list = (
+        <Table
+          rows={executions}
+          className="vertical flex-1 execution-list-table"
+          columns={[compareColumn].concat(columns)}
+          rowKey={execution => execution.pipelineId}
+          tableBodyClassName="flex-1"
+          sortKey={params.sortBy}
+          sortDirection={params.sortDirection}
+          onSort={this.sort}
+        />
+      );
+    }
+
     return (
-      <CenteredDetail>
-        <h3 className="heading-3">No canary execution history for this application.</h3>
-      </CenteredDetail>
+      <div className="vertical flex-1">
+        <div className="horizontal execution-list-actions">
+          <ExecutionListFilters/>
+          <button className="passive" disabled={compared.length !== MAX_COMPARED} onClick={this.compare}>
+            Compare Selected
+          </button>
+        </div>
+        {list}
+        <div className="horizontal middle execution-list-footer">
+          <span className="text-muted flex-1">
+            Showing {executions.length} of {loadedExecutions.length} loaded executions
+          </span>
+          <label>
+            Page size{' '}
+            <select className="form-control input-sm" value={params.pageSize} onChange={this.changePageSize}>
+              {EXECUTION_LIST_PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+          </label>
+          {loadingMore && <Spinner size="small"/>}
+          {!loadingMore && hasMore && (
+            <button className="passive" onClick={loadMore}>Load More</button>
+          )}
+        </div>
+      </div>
     );
   }
+}
 
-  return (
-    <Table
-      rows={executions}
-      className="vertical flex-1 execution-list-table"
-      columns={columns}
-      rowKey={execution => execution.pipelineId}
-      tableBodyClassName="flex-1"
-    />
-  );
+const mapStateToProps = (state: ICanaryState): IExecutionListTableStateProps => {
+  const loadedExecutions = state.data.executions.data;
+  return {
+    executions: filteredExecutionsSelector(state),
+    loadedExecutions,
+    configIds: loadedExecutions.reduce((ids, execution) => ({
+      ...ids,
+      [execution.pipelineId]: resolveConfigIdFromNameAndApplication(
+        state,
+        getExecutionConfigName(execution),
+        execution.application,
+      ),
+    }), {} as {[pipelineId: string]: string}),
+    params: state.executionList.params,
+    hasMore: loadedExecutions.length >= executionListQuerySelector(state).limit,
+    loadingMore: state.executionList.loadingMore,
+  };
 };
 
-const mapStateToProps = (state: ICanaryState) => ({
-  executions: Object.values(state.data.executions.data).filter(e => e.result),
+const mapDispatchToProps = (dispatch: Dispatch<ICanaryState>): IExecutionListTableDispatchProps => ({
+  loadMore: () => dispatch(Creators.loadMoreExecutions()),
 });
 
-export default connect(mapStateToProps)(ExecutionListTable);
+export default connect(mapStateToProps, mapDispatchToProps)(ExecutionListTable);
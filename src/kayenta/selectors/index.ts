@@ -1,8 +1,11 @@
 import { createSelector } from 'reselect';
+import { chain } from 'lodash';
 
 import { ICanaryState } from '../reducers/index';
-import { ICanaryConfig } from 'kayenta/domain/index';
+import { ICanaryConfig, KayentaAccountType } from 'kayenta/domain/index';
 import { ICanaryExecutionStatusResult } from '../domain/ICanaryExecutionStatusResult';
+import { compareRuns } from '../service/runComparison.service';
+import { filterExecutions, sortExecutions } from '../service/executionList.service';
 
 export const runSelector = (state: ICanaryState): ICanaryExecutionStatusResult => state.selectedRun.run;
 
@@ -54,6 +57,28 @@ export const configTemplatesSelector = createSelector(
   config => config ? config.templates : null,
 );
 
+// Names of the metric stores that have at least one configured account.
+export const metricStoresSelector = createSelector(
+  (state: ICanaryState) => state.data.kayentaAccounts.data,
+  accounts => chain(accounts)
+    .filter(account => account.supportedTypes.includes(KayentaAccountType.MetricsStore))
+    .map(account => account.metricsStoreType || account.type)
+    .uniq()
+    .sort()
+    .valueOf(),
+);
+
+// Names of the accounts that can query the metric being edited.
+export const editingMetricAccountsSelector = createSelector(
+  (state: ICanaryState) => state.data.kayentaAccounts.data,
+  (state: ICanaryState) => state.selectedConfig.editingMetric ? state.selectedConfig.editingMetric.query.type : null,
+  (accounts, metricStore) => accounts
+    .filter(account =>
+      account.supportedTypes.includes(KayentaAccountType.MetricsStore) &&
+      (account.metricsStoreType || account.type) === metricStore)
+    .map(account => account.name),
+);
+
 export const editingTemplateSelector = (state: ICanaryState) => state.selectedConfig.editingTemplate;
 
 // TODO(dpeach): temporary workaround because a config doesn't return with its own ID.
@@ -62,3 +87,43 @@ export const resolveConfigIdFromNameAndApplication = (state: ICanaryState, confi
     summary.name === configName && summary.applications.includes(application));
   return config && config.id;
 };
+
+export const runComparisonSelector = createSelector(
+  (state: ICanaryState) => state.runComparison.left,
+  (state: ICanaryState) => state.runComparison.right,
+  (left, right) => left && right ? compareRuns(left, right) : null,
+);
+
+export const selectedMetricComparisonSelector = createSelector(
+  runComparisonSelector,
+  (state: ICanaryState) => state.runComparison.selectedMetric,
+  (comparison, key) => comparison ? comparison.metrics.find(metric => metric.key === key) || null : null,
+);
+
+// The server-side part of the execution list query.
+export const executionListQuerySelector = createSelector(
+  (state: ICanaryState) => state.executionList.params.pageSize,
+  (state: ICanaryState) => state.executionList.params.status,
+  (state: ICanaryState) => state.executionList.pageCount,
+  (pageSize, status, pageCount) => ({ limit: pageSize * pageCount, statuses: status || undefined }),
+);
+
+export const filteredExecutionsSelector = createSelector(
+  (state: ICanaryState) => state.data.executions.data,
+  (state: ICanaryState) => state.executionList.params,
+  (executions, params) => sortExecutions(filterExecutions(executions, params), params.sortBy, params.sortDirection),
+);
+
+export const scopeNamesSelector = createSelector(
+  runSelector,
+  run => Object.keys((run.canaryExecutionRequest || run.result.canaryExecutionRequest).scopes),
+);
+
+// Keyed by metric name. Metrics without a scope name run in the default scope.
+export const metricScopeNamesSelector = createSelector(
+  serializedCanaryConfigSelector,
+  config => config.metrics.reduce((scopeNames, metric) => ({
+    ...scopeNames,
+    [metric.name]: metric.scopeName || 'default',
+  }), {} as {[metricName: string]: string}),
+);
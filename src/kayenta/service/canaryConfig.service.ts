@@ -2,6 +2,7 @@ import { omit } from 'lodash';
 import { ReactInjector } from '@spinnaker/core';
 
 import { CanarySettings } from 'kayenta/canary.settings';
+import { attachMetricLibraryLinks, saveMetricLibraryLinks, withoutMetricLibraryLinks } from './metricLibrary.service';
 import { ICanaryState } from 'kayenta/reducers';
 import {
   ICanaryMetricConfig,
@@ -14,7 +15,7 @@ import {
 
 export function getCanaryConfigById(id: string): Promise<ICanaryConfig> {
   return ReactInjector.API.one('v2/canaryConfig').one(id).get()
-    .then((config: ICanaryConfig) => ({
+    .then((config: ICanaryConfig) => attachMetricLibraryLinks({
       ...config,
       id,
     }));
@@ -24,16 +25,25 @@ export function getCanaryConfigSummaries(...application: string[]): Promise<ICan
   return ReactInjector.API.one('v2/canaryConfig').withParams({ application }).get();
 }
 
+// The config is saved even if its links to the metric library can't be.
+const saveLinksAfter = (config: ICanaryConfig) => (response: ICanaryConfigUpdateResponse): Promise<ICanaryConfigUpdateResponse> =>
+  saveMetricLibraryLinks(response.canaryConfigId, config.metrics)
+    .catch((): void => null)
+    .then(() => response);
+
 export function updateCanaryConfig(config: ICanaryConfig): Promise<ICanaryConfigUpdateResponse> {
-  return ReactInjector.API.one('v2/canaryConfig').one(config.id).put(config);
+  return ReactInjector.API.one('v2/canaryConfig').one(config.id).put(withoutMetricLibraryLinks(config))
+    .then(saveLinksAfter(config));
 }
 
 export function createCanaryConfig(config: ICanaryConfig): Promise<ICanaryConfigUpdateResponse> {
-  return ReactInjector.API.one('v2/canaryConfig').post(config);
+  return ReactInjector.API.one('v2/canaryConfig').post(withoutMetricLibraryLinks(config))
+    .then(saveLinksAfter(config));
 }
 
 export function deleteCanaryConfig(id: string): Promise<void> {
-  return ReactInjector.API.one('v2/canaryConfig').one(id).remove();
+  return ReactInjector.API.one('v2/canaryConfig').one(id).remove()
+    .then(() => saveMetricLibraryLinks(id, []).catch((): void => null));
 }
 
 export function listJudges(): Promise<IJudge[]> {
@@ -0,0 +1,48 @@
+import { buildCanaryExecutionRequest, IRunAnalysisParams, IRunAnalysisScopeParams } from './canaryRun.service';
+
+describe('Service: canaryRun', () => {
+
+  const createScope = (overrides: Partial<IRunAnalysisScopeParams> = {}): IRunAnalysisScopeParams => ({
+    controlScope: 'app-v001',
+    controlLocation: 'us-east-1',
+    experimentScope: 'app-v002',
+    experimentLocation: 'us-east-1',
+    ...overrides,
+  });
+
+  const createParams = (overrides: Partial<IRunAnalysisParams> = {}): IRunAnalysisParams => ({
+    scopes: { default: createScope() },
+    startTimeIso: '2018-03-01T12:00:00Z',
+    endTimeIso: '2018-03-01T13:00:00Z',
+    step: 60,
+    thresholds: { pass: 75, marginal: 50 },
+    metricsAccountName: 'account',
+    ...overrides,
+  });
+
+  it('builds a control and experiment scope over the interval for each scope name', () => {
+    const interval = { start: '2018-03-01T12:00:00Z', end: '2018-03-01T13:00:00Z', step: 60 };
+    expect(buildCanaryExecutionRequest(createParams({
+      scopes: {
+        default: createScope(),
+        regional: createScope({ controlLocation: 'us-west-2', experimentLocation: 'eu-west-1' }),
+      },
+    }))).toEqual({
+      thresholds: { pass: 75, marginal: 50 },
+      scopes: {
+        default: {
+          controlScope: { scope: 'app-v001', location: 'us-east-1', ...interval },
+          experimentScope: { scope: 'app-v002', location: 'us-east-1', ...interval },
+        },
+        regional: {
+          controlScope: { scope: 'app-v001', location: 'us-west-2', ...interval },
+          experimentScope: { scope: 'app-v002', location: 'eu-west-1', ...interval },
+        },
+      },
+    });
+  });
+
+  it('leaves the metrics account out of the request', () => {
+    expect(Object.keys(buildCanaryExecutionRequest(createParams())).sort()).toEqual(['scopes', 'thresholds']);
+  });
+});
@@ -1,23 +1,42 @@
 import { sortBy } from 'lodash';
 import { ReactInjector } from '@spinnaker/core';
 import { CanarySettings } from 'kayenta/canary.settings';
-import { IMetricSetPair, ICanaryExecutionStatusResult } from 'kayenta/domain';
+import {
+  IMetricSetPair,
+  ICanaryClassifierThresholdsConfig,
+  ICanaryExecutionRequest,
+  ICanaryExecutionStatusResult,
+} from 'kayenta/domain';
 
-export const getCanaryRun = (configId: string, canaryExecutionId: string): Promise<ICanaryExecutionStatusResult> =>
-  ReactInjector.API
+// Runs are only cached once complete; a run that's still in progress has to be fetched again to see any change.
+const completedRuns: {[key: string]: Promise<ICanaryExecutionStatusResult>} = {};
+
+export const getCanaryRun = (configId: string, canaryExecutionId: string): Promise<ICanaryExecutionStatusResult> => {
+  const key = `${configId}/${canaryExecutionId}`;
+  if (completedRuns[key]) {
+    return completedRuns[key];
+  }
+  return ReactInjector.API
     .one('v2/canaries/canary')
     .one(configId)
     .one(canaryExecutionId)
     .withParams({ storageAccountName: CanarySettings.storageAccountName })
-    .useCache()
     .get()
     .then((run: ICanaryExecutionStatusResult) => {
+      run.id = canaryExecutionId;
+      if (run.complete) {
+        completedRuns[key] = Promise.resolve(run);
+      }
+      // Unfinished and failed runs don't have a result.
+      if (!run.result) {
+        return run;
+      }
       const config = run.config || run.result.config;
       config.id = configId;
-      run.id = canaryExecutionId;
       run.result.judgeResult.results = sortBy(run.result.judgeResult.results, 'name');
       return run;
     });
+};
 
 export const getMetricSetPair = (metricSetPairListId: string, metricSetPairId: string): Promise<IMetricSetPair> =>
   ReactInjector.API
@@ -39,6 +58,54 @@ export const listCanaryExecutions = (application: string, limit: number, statuse
     .withParams({ limit, statuses, storageAccountName })
     .get();
 
+export interface IRunAnalysisScopeParams {
+  controlScope: string;
+  controlLocation: string;
+  experimentScope: string;
+  experimentLocation: string;
+}
+
+// What the user enters to run a config outside of a pipeline.
+export interface IRunAnalysisParams {
+  scopes: {[scopeName: string]: IRunAnalysisScopeParams};
+  startTimeIso: string;
+  endTimeIso: string;
+  // Seconds.
+  step: number;
+  thresholds: ICanaryClassifierThresholdsConfig;
+  metricsAccountName: string;
+}
+
+export interface ICanaryExecutionResponse {
+  canaryExecutionId: string;
+}
+
+export const buildCanaryExecutionRequest = (params: IRunAnalysisParams): ICanaryExecutionRequest => ({
+  thresholds: params.thresholds,
+  scopes: Object.keys(params.scopes).reduce((scopes, scopeName) => {
+    const { controlScope, controlLocation, experimentScope, experimentLocation } = params.scopes[scopeName];
+    const interval = { start: params.startTimeIso, end: params.endTimeIso, step: params.step };
+    return {
+      ...scopes,
+      [scopeName]: {
+        controlScope: { scope: controlScope, location: controlLocation, ...interval },
+        experimentScope: { scope: experimentScope, location: experimentLocation, ...interval },
+      },
+    };
+  }, {} as ICanaryExecutionRequest['scopes']),
+});
+
+export const startCanaryRun = (configId: string, application: string, params: IRunAnalysisParams): Promise<ICanaryExecutionResponse> =>
+  ReactInjector.API
+    .one('v2/canaries/canary')
+    .one(configId)
+    .withParams({
+      application,
+      metricsAccountName: params.metricsAccountName,
+      storageAccountName: CanarySettings.storageAccountName,
+    })
+    .post(buildCanaryExecutionRequest(params));
+
 export const getHealthLabel = (health: string, result: string): string => {
   const healthLC = (health || '').toLowerCase();
   const resultLC = (result || '').toLowerCase();
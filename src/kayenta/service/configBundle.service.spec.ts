@@ -0,0 +1,46 @@
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { parseConfigBundle, serializeConfigBundle } from './configBundle.service';
+import { ConfigFormat } from './configFormat.service';
+
+describe('Service: configBundle', () => {
+
+  const metric: any = { name: 'cpu', query: { type: 'atlas', q: 'name,cpu,:eq' }, groups: ['system'] };
+
+  const configs = [
+    createCanaryConfig({ name: 'first', metrics: [metric], classifier: { groupWeights: { system: 100 }, scoreThresholds: { pass: 75, marginal: 50 } } }),
+    createCanaryConfig({ name: 'second' }),
+  ];
+
+  it('round-trips configs through either format, without instance fields', () => {
+    const saved = configs.map((config, i) => ({
+      ...config,
+      id: `id-${i}`,
+      updatedTimestamp: 1000,
+      updatedTimestampIso: '1970-01-01T00:00:01.000Z',
+    }));
+
+    [ConfigFormat.Json, ConfigFormat.Yaml].forEach(format =>
+      expect(parseConfigBundle(serializeConfigBundle(saved, format))).toEqual(configs)
+    );
+  });
+
+  it('accepts a single config', () => {
+    expect(parseConfigBundle(JSON.stringify(configs[0]))).toEqual([configs[0]]);
+  });
+
+  it('rejects contents that are not valid JSON or YAML', () => {
+    expect(() => parseConfigBundle('[{"name": "first",')).toThrowError(/^line \d+, column \d+: /);
+    expect(() => parseConfigBundle('name: first\n  metrics: []')).toThrowError(/^line \d+, column \d+: /);
+  });
+
+  it('rejects anything that is not a canary config', () => {
+    expect(() => parseConfigBundle('[{"name": "first", "metrics": []}, "second"]'))
+      .toThrowError('config #2 is not a canary config');
+  });
+
+  it('rejects metrics without groups, naming the config', () => {
+    const bundle = [configs[1], { ...configs[0], metrics: [{ ...metric, groups: [] }] }];
+    expect(() => parseConfigBundle(JSON.stringify(bundle)))
+      .toThrowError(`config #2, metric #1: 'groups' is a required field`);
+  });
+});
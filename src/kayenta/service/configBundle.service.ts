@@ -0,0 +1,43 @@
+import { omit } from 'lodash';
+
+import { ICanaryConfig } from 'kayenta/domain';
+import { ConfigFormat, parseYaml, toYaml, validateDeserializedConfig } from './configFormat.service';
+
+// Fields that only make sense for a config stored in this particular Kayenta instance.
+const INSTANCE_FIELDS = ['id', 'isNew', 'createdTimestamp', 'createdTimestampIso', 'updatedTimestamp', 'updatedTimestampIso'];
+
+export function serializeConfigBundle(configs: ICanaryConfig[], format: ConfigFormat): string {
+  const bundle = configs.map(config => omit(config, INSTANCE_FIELDS));
+  return format === ConfigFormat.Yaml
+    ? toYaml(bundle)
+    : JSON.stringify(bundle, null, 2);
+}
+
+// Accepts a list of configs or a single config, as either JSON or YAML.
+export function parseConfigBundle(contents: string): ICanaryConfig[] {
+  const parsed = parseYaml(contents);
+  const configs: ICanaryConfig[] = Array.isArray(parsed) ? parsed : [parsed];
+  configs.forEach((config, index) => {
+    if (!config || typeof config !== 'object' || !Array.isArray(config.metrics)) {
+      throw new Error(`config #${index + 1} is not a canary config`);
+    }
+    try {
+      validateDeserializedConfig(config);
+    } catch (e) {
+      throw new Error(`config #${index + 1}, ${e.message}`);
+    }
+  });
+  return configs.map(config => omit(config, INSTANCE_FIELDS) as ICanaryConfig);
+}
+
+export function downloadConfigBundle(contents: string, fileName: string, format: ConfigFormat): void {
+  const type = format === ConfigFormat.Yaml ? 'application/x-yaml' : 'application/json';
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format === ConfigFormat.Yaml ? 'yml' : 'json'}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,42 @@
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { deleteConfigDraft, getConfigDraft, isDraftNewerThan, saveConfigDraft } from './configDraft.service';
+
+describe('Service: configDraft', () => {
+
+  const config = createCanaryConfig({ id: 'config-id', name: 'config', updatedTimestamp: 1000 });
+
+  beforeEach(() => {
+    spyOn(Date, 'now').and.returnValue(2000);
+  });
+
+  afterEach(() => {
+    deleteConfigDraft('app', 'config-id');
+  });
+
+  it('saves, restores and discards a draft per application and config', () => {
+    saveConfigDraft('app', config);
+    expect(getConfigDraft('app', 'config-id')).toEqual({ config, savedTimestamp: 2000 });
+    expect(getConfigDraft('other-app', 'config-id')).toBeNull();
+
+    deleteConfigDraft('app', 'config-id');
+    expect(getConfigDraft('app', 'config-id')).toBeNull();
+  });
+
+  it('does not save configs that have not been saved to the server', () => {
+    saveConfigDraft('app', { ...config, id: undefined });
+    expect(getConfigDraft('app', 'undefined')).toBeNull();
+  });
+
+  it('only offers a draft saved after the server copy that differs from it', () => {
+    const edited = { ...config, description: 'edited' };
+    expect(isDraftNewerThan({ config: edited, savedTimestamp: 2000 }, config)).toEqual(true);
+    expect(isDraftNewerThan({ config: edited, savedTimestamp: 500 }, config)).toEqual(false);
+    expect(isDraftNewerThan({ config, savedTimestamp: 2000 }, config)).toEqual(false);
+    expect(isDraftNewerThan(null, config)).toEqual(false);
+  });
+
+  it('treats a config without an update timestamp as older than any draft', () => {
+    const edited = { ...config, description: 'edited' };
+    expect(isDraftNewerThan({ config: edited, savedTimestamp: 1 }, { ...config, updatedTimestamp: undefined })).toEqual(true);
+  });
+});
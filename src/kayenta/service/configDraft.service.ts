@@ -0,0 +1,50 @@
+import { isEqual } from 'lodash';
+
+import { ICanaryConfig } from 'kayenta/domain';
+
+export interface IConfigDraft {
+  config: ICanaryConfig;
+  savedTimestamp: number;
+}
+
+const buildKey = (application: string, id: string): string =>
+  `kayenta.configDraft.${application}.${id}`;
+
+// localStorage can be unavailable (e.g., disabled by the browser) or full,
+// in which case drafts are silently not persisted.
+export function saveConfigDraft(application: string, config: ICanaryConfig): void {
+  if (!config || !config.id) {
+    return;
+  }
+
+  const draft: IConfigDraft = {
+    config,
+    savedTimestamp: Date.now(),
+  };
+  try {
+    window.localStorage.setItem(buildKey(application, config.id), JSON.stringify(draft));
+  } catch (e) {}
+}
+
+export function getConfigDraft(application: string, id: string): IConfigDraft {
+  try {
+    const serialized = window.localStorage.getItem(buildKey(application, id));
+    return serialized ? JSON.parse(serialized) : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function deleteConfigDraft(application: string, id: string): void {
+  try {
+    window.localStorage.removeItem(buildKey(application, id));
+  } catch (e) {}
+}
+
+// A draft is only worth offering if it was saved after the server copy was last
+// updated and actually differs from it.
+export function isDraftNewerThan(draft: IConfigDraft, config: ICanaryConfig): boolean {
+  return !!draft
+    && draft.savedTimestamp > (config.updatedTimestamp || 0)
+    && !isEqual(draft.config, config);
+}
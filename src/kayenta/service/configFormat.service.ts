@@ -0,0 +1,52 @@
+import { safeDump, safeLoad } from 'js-yaml';
+
+import { ICanaryConfig } from 'kayenta/domain';
+
+export enum ConfigFormat {
+  Json = 'json',
+  Yaml = 'yaml',
+}
+
+const PREFERRED_FORMAT_KEY = 'kayenta.preferredConfigFormat';
+
+export function getPreferredConfigFormat(): ConfigFormat {
+  try {
+    return window.localStorage.getItem(PREFERRED_FORMAT_KEY) === ConfigFormat.Yaml
+      ? ConfigFormat.Yaml
+      : ConfigFormat.Json;
+  } catch (e) {
+    return ConfigFormat.Json;
+  }
+}
+
+export function setPreferredConfigFormat(format: ConfigFormat): void {
+  try {
+    window.localStorage.setItem(PREFERRED_FORMAT_KEY, format);
+  } catch (e) {}
+}
+
+export function toYaml(value: any): string {
+  return safeDump(value);
+}
+
+// js-yaml's own messages include a code excerpt; a short line/column
+// reference is more useful next to the editor.
+export function parseYaml(yaml: string): any {
+  try {
+    return safeLoad(yaml);
+  } catch (e) {
+    if (e.mark) {
+      throw new Error(`line ${e.mark.line + 1}, column ${e.mark.column + 1}: ${e.reason}`);
+    }
+    throw e;
+  }
+}
+
+// Checks that the JSON/YAML syntax alone doesn't catch.
+export const validateDeserializedConfig = (parsed: ICanaryConfig): void => {
+  parsed.metrics.forEach((m, index) => {
+    if (!m.groups || !m.groups.length) {
+      throw new Error(`metric #${index + 1}: 'groups' is a required field`);
+    }
+  });
+};
@@ -0,0 +1,68 @@
+import { ICanaryConfig, ICanaryMetricConfig, IGroupWeights } from 'kayenta/domain';
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { findMergeConflicts, mergeConfigs, MergeItemKind, MergeSide } from './configMerge.service';
+
+describe('Service: configMerge', () => {
+
+  const createConfig = (metrics: ICanaryMetricConfig[],
+                        groupWeights: IGroupWeights = {},
+                        templates: {[key: string]: string} = {},
+                        updatedTimestamp = 1): ICanaryConfig =>
+    createCanaryConfig({
+      metrics,
+      templates,
+      classifier: { groupWeights, scoreThresholds: { pass: 75, marginal: 50 } },
+      updatedTimestamp,
+    });
+
+  const metric = (name: string, q: string): ICanaryMetricConfig => ({
+    id: name,
+    name,
+    query: { type: 'atlas', serviceType: 'atlas', q },
+    groups: ['a'],
+    analysisConfigurations: {},
+    scopeName: 'default',
+  });
+
+  it('keeps changes made on only one side', () => {
+    const base = createConfig([metric('cpu', 'q1'), metric('mem', 'q2')], { a: 50 });
+    const theirs = createConfig([metric('cpu', 'q1-theirs'), metric('mem', 'q2')], { a: 50 }, {}, 2);
+    const mine = createConfig([metric('cpu', 'q1'), metric('mem', 'q2'), metric('disk', 'q3')], { a: 100 });
+
+    expect(findMergeConflicts(base, theirs, mine)).toEqual([]);
+
+    const merged = mergeConfigs(base, theirs, mine, {});
+    expect(merged.metrics.map(m => m.query.q)).toEqual(['q1-theirs', 'q2', 'q3']);
+    expect(merged.classifier.groupWeights).toEqual({ a: 100 });
+    expect(merged.updatedTimestamp).toEqual(2);
+  });
+
+  it('drops items deleted on one side and unchanged on the other', () => {
+    const base = createConfig([metric('cpu', 'q1')], {}, { t: 'x' });
+    const theirs = createConfig([metric('cpu', 'q1')], {}, {});
+    const mine = createConfig([], {}, { t: 'x' });
+
+    const merged = mergeConfigs(base, theirs, mine, {});
+    expect(merged.metrics).toEqual([]);
+    expect(merged.templates).toEqual({});
+  });
+
+  it('settles conflicting changes with the chosen side', () => {
+    const base = createConfig([metric('cpu', 'q1')], {}, { t: 'x' });
+    const theirs = createConfig([metric('cpu', 'q1-theirs')], {}, { t: 'theirs' });
+    const mine = createConfig([metric('cpu', 'q1-mine')], {}, { t: 'mine' });
+
+    const conflicts = findMergeConflicts(base, theirs, mine);
+    expect(conflicts.map(c => [c.kind, c.name])).toEqual([
+      [MergeItemKind.Metric, 'cpu'],
+      [MergeItemKind.Template, 't'],
+    ]);
+
+    const merged = mergeConfigs(base, theirs, mine, {
+      [conflicts[0].key]: MergeSide.Theirs,
+      [conflicts[1].key]: MergeSide.Mine,
+    });
+    expect(merged.metrics[0].query.q).toEqual('q1-theirs');
+    expect(merged.templates).toEqual({ t: 'mine' });
+  });
+});
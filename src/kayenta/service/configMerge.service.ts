@@ -0,0 +1,130 @@
+import { flatMap, isEqual, uniq } from 'lodash';
+
+import { ICanaryConfig, ICanaryMetricConfig, IGroupWeights } from 'kayenta/domain';
+
+export enum MergeItemKind {
+  Metric = 'metric',
+  GroupWeight = 'group weight',
+  Template = 'template',
+}
+
+export enum MergeSide {
+  Theirs = 'theirs',
+  Mine = 'mine',
+}
+
+// A single item both the user and someone else changed since the config was loaded.
+// `undefined` means the item doesn't exist in that version of the config.
+export interface IMergeConflict {
+  key: string;
+  kind: MergeItemKind;
+  name: string;
+  base: any;
+  theirs: any;
+  mine: any;
+}
+
+export interface IMergeResolutions {
+  [key: string]: MergeSide;
+}
+
+interface IMergeableItems {
+  [key: string]: any;
+}
+
+interface IMergeableItemSet {
+  kind: MergeItemKind;
+  get: (config: ICanaryConfig) => IMergeableItems;
+}
+
+// Metric names should be unique, but aren't enforced to be; repeated names
+// are numbered so that no metric is dropped from the merge.
+const metricsByName = (config: ICanaryConfig): IMergeableItems => {
+  const metrics: IMergeableItems = {};
+  (config.metrics || []).forEach(metric => {
+    let name = metric.name, i = 2;
+    while (metrics[name]) {
+      name = `${metric.name} (${i})`;
+      i++;
+    }
+    metrics[name] = metric;
+  });
+  return metrics;
+};
+
+const ITEM_SETS: IMergeableItemSet[] = [
+  { kind: MergeItemKind.Metric, get: metricsByName },
+  { kind: MergeItemKind.GroupWeight, get: config => (config.classifier && config.classifier.groupWeights) || {} },
+  { kind: MergeItemKind.Template, get: config => config.templates || {} },
+];
+
+const buildKey = (kind: MergeItemKind, name: string): string => `${kind}:${name}`;
+
+const eachItem = (base: ICanaryConfig,
+                  theirs: ICanaryConfig,
+                  mine: ICanaryConfig,
+                  visit: (kind: MergeItemKind, name: string, baseItem: any, theirItem: any, myItem: any) => void): void => {
+  ITEM_SETS.forEach(({ kind, get }) => {
+    const [baseItems, theirItems, myItems] = [base, theirs, mine].map(get);
+    const names = uniq(flatMap([baseItems, theirItems, myItems], Object.keys));
+    names.forEach(name => visit(kind, name, baseItems[name], theirItems[name], myItems[name]));
+  });
+};
+
+const isConflict = (base: any, theirs: any, mine: any): boolean =>
+  !isEqual(theirs, mine) && !isEqual(base, theirs) && !isEqual(base, mine);
+
+export function findMergeConflicts(base: ICanaryConfig, theirs: ICanaryConfig, mine: ICanaryConfig): IMergeConflict[] {
+  const conflicts: IMergeConflict[] = [];
+  eachItem(base, theirs, mine, (kind, name, baseItem, theirItem, myItem) => {
+    if (isConflict(baseItem, theirItem, myItem)) {
+      conflicts.push({ key: buildKey(kind, name), kind, name, base: baseItem, theirs: theirItem, mine: myItem });
+    }
+  });
+  return conflicts;
+}
+
+// Three-way merge: changes made on only one side are kept; conflicting changes
+// are settled by the user's resolutions. Everything that isn't a metric, group weight
+// or template comes from the user's copy.
+export function mergeConfigs(base: ICanaryConfig,
+                             theirs: ICanaryConfig,
+                             mine: ICanaryConfig,
+                             resolutions: IMergeResolutions): ICanaryConfig {
+  const merged: {[kind: string]: Array<[string, any]>} = {};
+  eachItem(base, theirs, mine, (kind, name, baseItem, theirItem, myItem) => {
+    let value: any;
+    if (isConflict(baseItem, theirItem, myItem)) {
+      value = resolutions[buildKey(kind, name)] === MergeSide.Theirs ? theirItem : myItem;
+    } else {
+      value = isEqual(baseItem, myItem) ? theirItem : myItem;
+    }
+    merged[kind] = (merged[kind] || []).concat([[name, value]]);
+  });
+
+  // Items deleted in the merged version are left out.
+  const mergedItems = <T>(kind: MergeItemKind): {[name: string]: T} => {
+    const items: {[name: string]: T} = {};
+    (merged[kind] || []).forEach(([name, value]) => {
+      if (value !== undefined) {
+        items[name] = value;
+      }
+    });
+    return items;
+  };
+  const metrics = mergedItems<ICanaryMetricConfig>(MergeItemKind.Metric);
+  const templates = mergedItems<string>(MergeItemKind.Template);
+  const groupWeights: IGroupWeights = mergedItems<number>(MergeItemKind.GroupWeight);
+  return {
+    ...mine,
+    // Keep the server's timestamps so the next save is compared against their version.
+    updatedTimestamp: theirs.updatedTimestamp,
+    updatedTimestampIso: theirs.updatedTimestampIso,
+    metrics: Object.keys(metrics).map(name => metrics[name]),
+    templates,
+    classifier: {
+      ...mine.classifier,
+      groupWeights,
+    },
+  };
+}
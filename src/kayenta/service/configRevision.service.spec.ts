@@ -0,0 +1,81 @@
+import { ICanaryConfig } from 'kayenta/domain';
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import { listConfigRevisions, MAX_REVISIONS, recordConfigRevision } from './configRevision.service';
+
+describe('Service: configRevision', () => {
+
+  const createConfig = (id: string, seconds: number, overrides: Partial<ICanaryConfig> = {}): ICanaryConfig =>
+    createCanaryConfig({ id, updatedTimestampIso: new Date(seconds * 1000).toISOString(), ...overrides });
+
+  const recordAll = (configs: ICanaryConfig[]): Promise<void> =>
+    configs.reduce((recorded, config) => recorded.then(() => recordConfigRevision(config)), Promise.resolve());
+
+  afterEach(() => {
+    ['ordered', 'deduped', 'capped', 'unsaved'].forEach(id =>
+      window.localStorage.removeItem(`kayenta.configRevisions.${id}`)
+    );
+  });
+
+  it('lists revisions newest first', done => {
+    recordAll([createConfig('ordered', 2), createConfig('ordered', 3), createConfig('ordered', 1)])
+      .then(() => listConfigRevisions('ordered'))
+      .then(revisions => {
+        expect(revisions.map(r => r.updatedTimestampIso)).toEqual([
+          new Date(3000).toISOString(),
+          new Date(2000).toISOString(),
+          new Date(1000).toISOString(),
+        ]);
+        done();
+      });
+  });
+
+  it('records a saved version once, keeping the first copy', done => {
+    recordAll([
+      createConfig('deduped', 1, { description: 'first' }),
+      createConfig('deduped', 1, { description: 'reloaded' }),
+    ]).then(() => listConfigRevisions('deduped'))
+      .then(revisions => {
+        expect(revisions.length).toEqual(1);
+        expect(revisions[0].config.description).toEqual('first');
+        done();
+      });
+  });
+
+  it(`keeps the newest ${MAX_REVISIONS} revisions`, done => {
+    const configs = Array.from({ length: MAX_REVISIONS + 2 }, (_, i) => createConfig('capped', i + 1));
+    recordAll(configs)
+      .then(() => listConfigRevisions('capped'))
+      .then(revisions => {
+        expect(revisions.length).toEqual(MAX_REVISIONS);
+        expect(revisions[0].updatedTimestampIso).toEqual(configs[configs.length - 1].updatedTimestampIso);
+        expect(revisions[MAX_REVISIONS - 1].updatedTimestampIso).toEqual(configs[2].updatedTimestampIso);
+        done();
+      });
+  });
+
+  it('ignores configs that have not been saved', done => {
+    recordAll([
+      createConfig(undefined, 1),
+      createConfig('unsaved', 1, { updatedTimestampIso: undefined }),
+    ]).then(() => listConfigRevisions('unsaved'))
+      .then(revisions => {
+        expect(revisions).toEqual([]);
+        done();
+      });
+  });
+
+  it('keeps revisions in memory when localStorage is unavailable', done => {
+    spyOn(Storage.prototype, 'getItem').and.throwError('unavailable');
+    spyOn(Storage.prototype, 'setItem').and.throwError('unavailable');
+
+    recordAll([createConfig('in-memory', 1), createConfig('in-memory', 2)])
+      .then(() => listConfigRevisions('in-memory'))
+      .then(revisions => {
+        expect(revisions.map(r => r.config.updatedTimestampIso)).toEqual([
+          new Date(2000).toISOString(),
+          new Date(1000).toISOString(),
+        ]);
+        done();
+      });
+  });
+});
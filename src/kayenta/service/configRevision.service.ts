@@ -0,0 +1,81 @@
+import { ICanaryConfig } from 'kayenta/domain';
+
+export interface IConfigRevision {
+  updatedTimestampIso: string;
+  config: ICanaryConfig;
+}
+
+// Where config revisions are kept. The default store only lives in the browser;
+// a shared backend can be plugged in with `setConfigRevisionStore`.
+export interface IConfigRevisionStore {
+  list(configId: string): Promise<IConfigRevision[]>;
+  add(configId: string, revision: IConfigRevision): Promise<void>;
+}
+
+export const MAX_REVISIONS = 50;
+
+// Uses localStorage when it's available, otherwise keeps revisions in memory
+// for the lifetime of the page.
+class LocalConfigRevisionStore implements IConfigRevisionStore {
+  private inMemory: {[configId: string]: IConfigRevision[]} = {};
+
+  public list(configId: string): Promise<IConfigRevision[]> {
+    return Promise.resolve(this.read(configId));
+  }
+
+  public add(configId: string, revision: IConfigRevision): Promise<void> {
+    const revisions = this.read(configId)
+      .filter(r => r.updatedTimestampIso !== revision.updatedTimestampIso)
+      .concat([revision])
+      .slice(-MAX_REVISIONS);
+    this.write(configId, revisions);
+    return Promise.resolve();
+  }
+
+  private read(configId: string): IConfigRevision[] {
+    try {
+      const serialized = window.localStorage.getItem(this.buildKey(configId));
+      return serialized ? JSON.parse(serialized) : [];
+    } catch (e) {
+      return this.inMemory[configId] || [];
+    }
+  }
+
+  private write(configId: string, revisions: IConfigRevision[]): void {
+    try {
+      window.localStorage.setItem(this.buildKey(configId), JSON.stringify(revisions));
+    } catch (e) {
+      this.inMemory[configId] = revisions;
+    }
+  }
+
+  private buildKey(configId: string): string {
+    return `kayenta.configRevisions.${configId}`;
+  }
+}
+
+let revisionStore: IConfigRevisionStore = new LocalConfigRevisionStore();
+
+export function setConfigRevisionStore(store: IConfigRevisionStore): void {
+  revisionStore = store;
+}
+
+// Newest revision first.
+export function listConfigRevisions(configId: string): Promise<IConfigRevision[]> {
+  return revisionStore.list(configId).then(revisions =>
+    revisions.slice().sort((a, b) => b.updatedTimestampIso.localeCompare(a.updatedTimestampIso))
+  );
+}
+
+export function recordConfigRevision(config: ICanaryConfig): Promise<void> {
+  if (!config || !config.id || !config.updatedTimestampIso) {
+    return Promise.resolve();
+  }
+
+  return revisionStore.list(config.id).then(revisions => {
+    if (!revisions.some(r => r.updatedTimestampIso === config.updatedTimestampIso)) {
+      return revisionStore.add(config.id, { updatedTimestampIso: config.updatedTimestampIso, config });
+    }
+    return undefined;
+  });
+}
@@ -0,0 +1,113 @@
+import metricStoreConfigService from 'kayenta/metricStore/metricStoreConfig.service';
+import { ICanaryConfig } from 'kayenta/domain';
+import { IJsonSchema, ISchemaValidationError, validateJsonSchema } from './jsonSchema';
+
+// Schemas mirror the interfaces in domain/ICanaryConfig.ts.
+
+const nullableString: IJsonSchema = { type: ['string', 'null'] };
+
+const thresholdSchema: IJsonSchema = { type: 'number', minimum: 0, maximum: 100 };
+
+const classifierSchema: IJsonSchema = {
+  type: 'object',
+  required: ['groupWeights', 'scoreThresholds'],
+  properties: {
+    groupWeights: {
+      type: 'object',
+      additionalProperties: { type: 'number', minimum: 0 },
+    },
+    scoreThresholds: {
+      type: 'object',
+      required: ['pass', 'marginal'],
+      properties: {
+        pass: thresholdSchema,
+        marginal: thresholdSchema,
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const judgeSchema: IJsonSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string' },
+    judgeConfigurations: { type: 'object' },
+  },
+  additionalProperties: false,
+};
+
+const libraryEntrySchema: IJsonSchema = {
+  type: 'object',
+  required: ['id', 'updatedTimestampIso'],
+  properties: {
+    id: { type: 'string' },
+    updatedTimestampIso: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+const buildQuerySchema = (): IJsonSchema => {
+  const stores = metricStoreConfigService.getDelegates();
+  return {
+    type: 'object',
+    required: ['type'],
+    properties: {
+      type: { type: 'string' },
+      serviceType: { type: 'string' },
+      customFilter: nullableString,
+      customFilterTemplate: nullableString,
+    },
+    // Each store's own fields are checked once the query's type is known.
+    allOf: stores
+      .filter(store => !!store.querySchema)
+      .map(store => ({
+        if: { required: ['type'], properties: { type: { enum: [store.name] } } },
+        then: store.querySchema,
+      })),
+  };
+};
+
+const buildMetricSchema = (): IJsonSchema => ({
+  type: 'object',
+  required: ['name', 'query', 'groups'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    query: buildQuerySchema(),
+    groups: { type: 'array', items: { type: 'string' } },
+    analysisConfigurations: { type: 'object' },
+    scopeName: nullableString,
+    libraryEntry: libraryEntrySchema,
+  },
+  additionalProperties: false,
+});
+
+// Built on demand, since metric stores register their query schemas at load time.
+export const buildConfigSchema = (): IJsonSchema => ({
+  type: 'object',
+  required: ['name', 'metrics', 'classifier'],
+  properties: {
+    applications: { type: 'array', items: { type: 'string' } },
+    id: { type: 'string' },
+    createdTimestamp: { type: 'number' },
+    updatedTimestamp: { type: 'number' },
+    createdTimestampIso: { type: 'string' },
+    updatedTimestampIso: { type: 'string' },
+    isNew: { type: 'boolean' },
+    name: { type: 'string' },
+    description: nullableString,
+    configVersion: nullableString,
+    metrics: { type: 'array', items: buildMetricSchema() },
+    templates: { type: 'object', additionalProperties: { type: 'string' } },
+    classifier: classifierSchema,
+    judge: judgeSchema,
+  },
+  additionalProperties: false,
+});
+
+export function validateConfigSchema(config: ICanaryConfig): ISchemaValidationError[] {
+  return validateJsonSchema(config, buildConfigSchema());
+}
@@ -0,0 +1,9 @@
+import { buildDelegateService } from 'kayenta/service/delegateFactory';
+import { IConfigValidator } from 'kayenta/reducers/validators';
+
+export interface IConfigValidatorConfig {
+  name: string;
+  validate: IConfigValidator;
+}
+
+export default buildDelegateService<IConfigValidatorConfig>();
@@ -13,6 +13,10 @@ export const buildDelegateService = <T extends IDelegate>() => {
     public getDelegate(name: string): T {
       return this.delegates.find(d => d.name === name);
     }
+
+    public getDelegates(): T[] {
+      return this.delegates;
+    }
   }
 
   return new DelegateService();
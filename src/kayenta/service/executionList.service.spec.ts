@@ -0,0 +1,53 @@
+import { ICanaryExecutionStatusResult } from 'kayenta/domain';
+import { ScoreClassificationLabel } from 'kayenta/domain/ScoreClassificationLabel';
+import { createCanaryConfig, createCanaryExecution, createJudgeResult } from 'kayenta/testing/fixtures';
+import {
+  DEFAULT_EXECUTION_LIST_PARAMS,
+  ExecutionListSortColumn,
+  filterExecutions,
+  sortExecutions,
+} from './executionList.service';
+
+describe('Service: executionList', () => {
+
+  const createExecution = (pipelineId: string,
+                           configName: string,
+                           startTimeIso: string,
+                           score: number = null,
+                           classification: ScoreClassificationLabel = null): ICanaryExecutionStatusResult =>
+    createCanaryExecution(
+      {
+        pipelineId,
+        parentPipelineExecutionId: `parent-${pipelineId}`,
+        startTimeIso,
+        config: createCanaryConfig({ name: configName }),
+      },
+      score === null ? null : createJudgeResult(score, classification),
+    );
+
+  const executions = [
+    createExecution('a', 'checkout-latency', '2018-03-01T12:00:00Z', 95, ScoreClassificationLabel.Pass),
+    createExecution('b', 'Checkout-errors', '2018-03-05T12:00:00Z', 40, ScoreClassificationLabel.Fail),
+    createExecution('c', 'search', '2018-03-10T12:00:00Z'),
+  ];
+
+  const ids = (list: ICanaryExecutionStatusResult[]) => list.map(e => e.pipelineId);
+
+  it('filters by config name, pipeline and classification', () => {
+    expect(ids(filterExecutions(executions, { ...DEFAULT_EXECUTION_LIST_PARAMS, configName: 'checkout' }))).toEqual(['a', 'b']);
+    expect(ids(filterExecutions(executions, { ...DEFAULT_EXECUTION_LIST_PARAMS, pipeline: 'parent-c' }))).toEqual(['c']);
+    expect(ids(filterExecutions(executions, { ...DEFAULT_EXECUTION_LIST_PARAMS, classification: ScoreClassificationLabel.Fail }))).toEqual(['b']);
+  });
+
+  it('filters by an inclusive date range', () => {
+    expect(ids(filterExecutions(executions, { ...DEFAULT_EXECUTION_LIST_PARAMS, startDate: '2018-03-02', endDate: '2018-03-10' })))
+      .toEqual(['b', 'c']);
+  });
+
+  it('sorts by start time, config name or score', () => {
+    expect(ids(sortExecutions(executions, ExecutionListSortColumn.Started, 'desc'))).toEqual(['c', 'b', 'a']);
+    expect(ids(sortExecutions(executions, ExecutionListSortColumn.Config, 'asc'))).toEqual(['b', 'a', 'c']);
+    expect(ids(sortExecutions(executions, ExecutionListSortColumn.Score, 'asc'))).toEqual(['b', 'a', 'c']);
+    expect(ids(sortExecutions(executions, ExecutionListSortColumn.Score, 'desc'))).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,84 @@
+import { orderBy } from 'lodash';
+import { ICanaryExecutionStatusResult } from 'kayenta/domain';
+
+export enum ExecutionListSortColumn {
+  Config = 'config',
+  Score = 'score',
+  Started = 'started',
+}
+
+export type ExecutionListSortDirection = 'asc' | 'desc';
+
+// Mirrors the query params of the .reportDefault state.
+export interface IExecutionListParams {
+  configName: string;
+  // Matched against the parent pipeline execution ID.
+  pipeline: string;
+  classification: string;
+  // Execution status, e.g. SUCCEEDED; passed to the server as `statuses`.
+  status: string;
+  // Inclusive, as YYYY-MM-DD.
+  startDate: string;
+  endDate: string;
+  sortBy: ExecutionListSortColumn;
+  sortDirection: ExecutionListSortDirection;
+  pageSize: number;
+}
+
+export const EXECUTION_LIST_PAGE_SIZES = [20, 50, 100];
+
+export const EXECUTION_STATUSES = ['SUCCEEDED', 'RUNNING', 'TERMINAL', 'CANCELED'];
+
+export const DEFAULT_EXECUTION_LIST_PARAMS: IExecutionListParams = {
+  configName: null,
+  pipeline: null,
+  classification: null,
+  status: null,
+  startDate: null,
+  endDate: null,
+  sortBy: ExecutionListSortColumn.Started,
+  sortDirection: 'desc',
+  pageSize: EXECUTION_LIST_PAGE_SIZES[0],
+};
+
+export const getExecutionConfigName = (execution: ICanaryExecutionStatusResult): string =>
+  execution.config
+    ? execution.config.name
+    : execution.result ? execution.result.config.name : null;
+
+const getScore = (execution: ICanaryExecutionStatusResult): number =>
+  execution.result ? execution.result.judgeResult.score.score : null;
+
+const includesText = (value: string, text: string): boolean =>
+  !text || (value || '').toLowerCase().includes(text.toLowerCase());
+
+// Date inputs are local dates, so compare against the start and end of the local day.
+const isWithinDates = (dateIso: string, startDate: string, endDate: string): boolean => {
+  const time = new Date(dateIso).getTime();
+  return (!startDate || time >= new Date(`${startDate}T00:00:00`).getTime())
+    && (!endDate || time <= new Date(`${endDate}T23:59:59.999`).getTime());
+};
+
+// Applies the filters the server doesn't support to a page of executions.
+export function filterExecutions(executions: ICanaryExecutionStatusResult[], params: IExecutionListParams): ICanaryExecutionStatusResult[] {
+  const { configName, pipeline, classification, startDate, endDate } = params;
+  return executions.filter(execution =>
+    includesText(getExecutionConfigName(execution), configName)
+      && includesText(execution.parentPipelineExecutionId, pipeline)
+      && (!classification
+          || (execution.result && execution.result.judgeResult.score.classification === classification))
+      && isWithinDates(execution.startTimeIso, startDate, endDate)
+  );
+}
+
+// Executions without a score sort last in either direction.
+export function sortExecutions(executions: ICanaryExecutionStatusResult[], sortBy: ExecutionListSortColumn, direction: ExecutionListSortDirection): ICanaryExecutionStatusResult[] {
+  switch (sortBy) {
+    case ExecutionListSortColumn.Config:
+      return orderBy(executions, e => (getExecutionConfigName(e) || '').toLowerCase(), direction);
+    case ExecutionListSortColumn.Score:
+      return orderBy(executions, [e => getScore(e) === null, getScore], ['asc', direction]);
+    default:
+      return orderBy(executions, e => new Date(e.startTimeIso).getTime(), direction);
+  }
+}
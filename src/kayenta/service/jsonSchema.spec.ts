@@ -0,0 +1,60 @@
+import { findLineOfPath, formatJsonPath, IJsonSchema, locateJsonPaths, validateJsonSchema } from './jsonSchema';
+
+describe('Service: jsonSchema', () => {
+
+  const schema: IJsonSchema = {
+    type: 'object',
+    required: ['metrics'],
+    properties: {
+      metrics: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'query'],
+          properties: {
+            name: { type: 'string' },
+            query: {
+              type: 'object',
+              allOf: [{
+                if: { required: ['type'], properties: { type: { enum: ['prometheus'] } } },
+                then: { required: ['metricName'] },
+              }],
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+    },
+  };
+
+  const validate = (value: any) =>
+    validateJsonSchema(value, schema).map(e => `${formatJsonPath(e.path)} ${e.message}`);
+
+  it('formats paths the way they would be written in JS', () => {
+    expect(formatJsonPath(['metrics', 3, 'query', 'metricName'])).toEqual('metrics[3].query.metricName');
+    expect(formatJsonPath(['classifier', 'groupWeights', 'Group 1'])).toEqual('classifier.groupWeights["Group 1"]');
+  });
+
+  it('reports missing, mistyped and unrecognized fields', () => {
+    expect(validate({})).toEqual(['metrics is required']);
+    expect(validate({ metrics: [{ name: 1, query: {}, analysisConfiguration: {} }] })).toEqual([
+      'metrics[0].name must be of type string',
+      'metrics[0].analysisConfiguration is not a recognized field',
+    ]);
+  });
+
+  it('applies conditional subschemas', () => {
+    const metrics = [
+      { name: 'a', query: { type: 'atlas' } },
+      { name: 'b', query: { type: 'prometheus' } },
+    ];
+    expect(validate({ metrics })).toEqual(['metrics[1].query.metricName is required']);
+  });
+
+  it('finds the line a path starts on, falling back to the closest ancestor', () => {
+    const json = JSON.stringify({ metrics: [{ name: 'a', query: { type: 'prometheus' } }] }, null, 2);
+    const lines = locateJsonPaths(json);
+    expect(findLineOfPath(lines, ['metrics', 0, 'name'])).toEqual(4);
+    expect(findLineOfPath(lines, ['metrics', 0, 'query', 'metricName'])).toEqual(5);
+  });
+});
@@ -0,0 +1,181 @@
+// A minimal JSON Schema (draft-07) validator covering the keywords used by the
+// canary config schema: type, enum, minimum/maximum, properties, required,
+// additionalProperties, items, allOf and if/then.
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface IJsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  properties?: {[name: string]: IJsonSchema};
+  required?: string[];
+  additionalProperties?: boolean | IJsonSchema;
+  items?: IJsonSchema;
+  allOf?: IJsonSchema[];
+  if?: IJsonSchema;
+  then?: IJsonSchema;
+}
+
+export type JsonPath = Array<string | number>;
+
+export interface ISchemaValidationError {
+  path: JsonPath;
+  message: string;
+}
+
+// Formats a path as it would be written in JS, e.g., `metrics[3].query.metricName`.
+export const formatJsonPath = (path: JsonPath): string =>
+  path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    } else if (/^[a-zA-Z_$][\w$]*$/.test(segment)) {
+      return formatted ? `${formatted}.${segment}` : segment;
+    } else {
+      return `${formatted}[${JSON.stringify(segment)}]`;
+    }
+  }, '');
+
+const typeOf = (value: any): JsonSchemaType => {
+  if (value === null) {
+    return 'null';
+  } else if (Array.isArray(value)) {
+    return 'array';
+  } else if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  } else {
+    return typeof value as JsonSchemaType;
+  }
+};
+
+const matchesType = (value: any, type: JsonSchemaType | JsonSchemaType[]): boolean => {
+  const actual = typeOf(value);
+  return [].concat(type).some(t => t === actual || (t === 'number' && actual === 'integer'));
+};
+
+export function validateJsonSchema(value: any, schema: IJsonSchema, path: JsonPath = []): ISchemaValidationError[] {
+  const error = (message: string, errorPath = path): ISchemaValidationError => ({ path: errorPath, message });
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [error(`must be of type ${[].concat(schema.type).join(' or ')}`)];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [error(`must be one of: ${schema.enum.join(', ')}`)];
+  }
+
+  const errors: ISchemaValidationError[] = [];
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(error(`must be at least ${schema.minimum}`));
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(error(`must be at most ${schema.maximum}`));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    (schema.required || [])
+      .filter(name => value[name] === undefined)
+      .forEach(name => errors.push(error('is required', path.concat(name))));
+
+    Object.keys(value).forEach(name => {
+      const propertyPath = path.concat(name);
+      if (schema.properties && schema.properties[name]) {
+        errors.push(...validateJsonSchema(value[name], schema.properties[name], propertyPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(error('is not a recognized field', propertyPath));
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(value[name], schema.additionalProperties, propertyPath));
+      }
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, path.concat(index))));
+  }
+
+  (schema.allOf || []).forEach(subschema => errors.push(...validateJsonSchema(value, subschema, path)));
+
+  if (schema.if && schema.then && !validateJsonSchema(value, schema.if, path).length) {
+    errors.push(...validateJsonSchema(value, schema.then, path));
+  }
+
+  return errors;
+}
+
+// Maps each formatted path in a (valid) JSON document to the line its value starts on.
+export function locateJsonPaths(json: string): {[path: string]: number} {
+  const lines: {[path: string]: number} = {};
+  let i = 0, line = 1;
+
+  const skipWhitespace = () => {
+    while (i < json.length && /\s/.test(json[i])) {
+      if (json[i] === '\n') {
+        line++;
+      }
+      i++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = i++;
+    while (json[i] !== '"') {
+      i += json[i] === '\\' ? 2 : 1;
+    }
+    i++;
+    return JSON.parse(json.slice(start, i));
+  };
+
+  const readValue = (path: JsonPath): void => {
+    skipWhitespace();
+    lines[formatJsonPath(path)] = line;
+    if (json[i] === '{' || json[i] === '[') {
+      const isObject = json[i] === '{';
+      i++;
+      skipWhitespace();
+      if (json[i] === (isObject ? '}' : ']')) {
+        i++;
+        return;
+      }
+      let index = 0;
+      do {
+        skipWhitespace();
+        if (isObject) {
+          const key = readString();
+          skipWhitespace();
+          i++; // Skip ':'.
+          readValue(path.concat(key));
+        } else {
+          readValue(path.concat(index++));
+        }
+        skipWhitespace();
+      } while (json[i++] === ',');
+    } else if (json[i] === '"') {
+      readString();
+    } else {
+      while (i < json.length && /[^,\]}\s]/.test(json[i])) {
+        i++;
+      }
+    }
+  };
+
+  try {
+    readValue([]);
+    return lines;
+  } catch (e) {
+    return {};
+  }
+}
+
+// The line of the closest existing ancestor is used for paths that don't
+// exist in the document, e.g., for missing required fields.
+export const findLineOfPath = (lines: {[path: string]: number}, path: JsonPath): number => {
+  for (let length = path.length; length >= 0; length--) {
+    const line = lines[formatJsonPath(path.slice(0, length))];
+    if (line) {
+      return line;
+    }
+  }
+  return null;
+};
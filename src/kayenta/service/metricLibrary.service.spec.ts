@@ -0,0 +1,134 @@
+import { ICanaryMetricConfig } from 'kayenta/domain';
+import { createCanaryConfig } from 'kayenta/testing/fixtures';
+import {
+  attachMetricLibraryLinks,
+  copyFromLibrary,
+  findLibraryUpdate,
+  IMetricLibraryEntry,
+  IMetricLibraryLinks,
+  IMetricLibraryStore,
+  listMetricLibraryEntries,
+  saveMetricLibraryEntry,
+  saveMetricLibraryLinks,
+  searchMetricLibrary,
+  setMetricLibraryStore,
+  withoutMetricLibraryLinks,
+} from './metricLibrary.service';
+
+describe('Service: metricLibrary', () => {
+
+  const createMetric = (overrides: Partial<ICanaryMetricConfig> = {}): ICanaryMetricConfig => ({
+    id: '#0',
+    name: 'cpu',
+    query: { type: 'atlas', serviceType: 'atlas', q: 'name,CpuRawUser,:eq' },
+    groups: ['system'],
+    analysisConfigurations: { canary: { direction: 'increase' } },
+    scopeName: 'default',
+    ...overrides,
+  });
+
+  const createEntry = (overrides: Partial<IMetricLibraryEntry> = {}): IMetricLibraryEntry => ({
+    id: 'cpu-entry',
+    application: null,
+    metric: createMetric({ id: undefined }),
+    updatedTimestampIso: '2018-03-01T12:00:00.000Z',
+    ...overrides,
+  });
+
+  const createStore = (entries: IMetricLibraryEntry[], links: {[configId: string]: IMetricLibraryLinks} = {}): IMetricLibraryStore => ({
+    list: () => Promise.resolve(entries),
+    save: (entry: IMetricLibraryEntry) => {
+      entries = entries.filter(e => e.id !== entry.id).concat([entry]);
+      return Promise.resolve();
+    },
+    remove: (id: string) => {
+      entries = entries.filter(e => e.id !== id);
+      return Promise.resolve();
+    },
+    listLinks: (configId: string) => Promise.resolve(links[configId] || {}),
+    saveLinks: (configId: string, configLinks: IMetricLibraryLinks) => {
+      links = { ...links, [configId]: configLinks };
+      return Promise.resolve();
+    },
+  });
+
+  it('lists the application\'s entries and the global ones, by name', done => {
+    setMetricLibraryStore(createStore([
+      createEntry({ id: 'a', application: 'app', metric: createMetric({ name: 'latency' }) }),
+      createEntry({ id: 'b', application: 'otherapp' }),
+      createEntry({ id: 'c', application: null, metric: createMetric({ name: 'errors' }) }),
+    ]));
+
+    listMetricLibraryEntries('app').then(entries => {
+      expect(entries.map(e => e.id)).toEqual(['c', 'a']);
+      done();
+    });
+  });
+
+  it('saves metrics without their config-specific fields', done => {
+    setMetricLibraryStore(createStore([]));
+
+    const metric = createMetric({ isNew: true, libraryEntry: { id: 'old', updatedTimestampIso: '2018-01-01T00:00:00.000Z' } });
+    saveMetricLibraryEntry(metric, 'app', 'old').then(entry => {
+      expect(entry.id).toEqual('old');
+      expect(entry.application).toEqual('app');
+      expect(Object.keys(entry.metric)).not.toContain('id');
+      expect(Object.keys(entry.metric)).not.toContain('isNew');
+      expect(Object.keys(entry.metric)).not.toContain('libraryEntry');
+      done();
+    });
+  });
+
+  it('searches by every term', () => {
+    const entries = [
+      createEntry({ id: 'cpu' }),
+      createEntry({ id: 'errors', metric: createMetric({ name: 'errors', groups: ['requests'], query: { type: 'prometheus', serviceType: 'prometheus' } }) }),
+    ];
+
+    expect(searchMetricLibrary(entries, '').length).toEqual(2);
+    expect(searchMetricLibrary(entries, 'CpuRawUser').map(e => e.id)).toEqual(['cpu']);
+    expect(searchMetricLibrary(entries, 'prometheus requests').map(e => e.id)).toEqual(['errors']);
+    expect(searchMetricLibrary(entries, 'prometheus system').length).toEqual(0);
+  });
+
+  it('remembers the entry a copy came from and offers newer versions of it', () => {
+    const entry = createEntry();
+    const copy = copyFromLibrary(entry);
+    expect(copy.libraryEntry).toEqual({ id: 'cpu-entry', updatedTimestampIso: '2018-03-01T12:00:00.000Z' });
+
+    expect(findLibraryUpdate(copy, [entry])).toBeNull();
+    const updated = createEntry({ updatedTimestampIso: '2018-03-02T12:00:00.000Z' });
+    expect(findLibraryUpdate(copy, [updated])).toBe(updated);
+    expect(findLibraryUpdate(createMetric(), [updated])).toBeNull();
+  });
+
+  it('keeps the entries metrics were copied from outside of the config Kayenta saves', done => {
+    setMetricLibraryStore(createStore([]));
+
+    const libraryEntry = { id: 'cpu-entry', updatedTimestampIso: '2018-03-01T12:00:00.000Z' };
+    const config = createCanaryConfig({
+      id: 'config-id',
+      metrics: [createMetric({ libraryEntry }), createMetric({ id: '#1', name: 'errors' })],
+    });
+
+    const saved = withoutMetricLibraryLinks(config);
+    expect(saved.metrics.some(metric => Object.keys(metric).includes('libraryEntry'))).toEqual(false);
+
+    saveMetricLibraryLinks(config.id, config.metrics)
+      .then(() => attachMetricLibraryLinks(saved))
+      .then(loaded => {
+        expect(loaded).toEqual(config);
+        done();
+      });
+  });
+
+  it('loads a config without its links when they are unavailable', done => {
+    setMetricLibraryStore({ ...createStore([]), listLinks: () => Promise.reject(new Error('unavailable')) });
+
+    const config = createCanaryConfig({ id: 'config-id', metrics: [createMetric()] });
+    attachMetricLibraryLinks(config).then(loaded => {
+      expect(loaded).toEqual(config);
+      done();
+    });
+  });
+});
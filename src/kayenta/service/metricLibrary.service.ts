@@ -0,0 +1,219 @@
+import { cloneDeep, omit } from 'lodash';
+import { ReactInjector } from '@spinnaker/core';
+import { CanarySettings } from 'kayenta/canary.settings';
+import { ICanaryConfig, ICanaryMetricConfig, ICanaryMetricLibraryReference } from 'kayenta/domain';
+
+// A metric definition saved for reuse across configs.
+export interface IMetricLibraryEntry {
+  id: string;
+  // Null for entries shared with every application.
+  application: string;
+  // Stored without the config-specific id, isNew and libraryEntry fields.
+  metric: ICanaryMetricConfig;
+  updatedTimestampIso: string;
+}
+
+// The library entry each metric of a config was copied from, by metric name.
+export type IMetricLibraryLinks = {[metricName: string]: ICanaryMetricLibraryReference};
+
+// Where the metric library is kept, along with the links between configs and its entries.
+// It's shared through Gate when `metricLibraryEndpoint` is set, and otherwise only lives
+// in the browser; another backend can be plugged in with `setMetricLibraryStore`.
+export interface IMetricLibraryStore {
+  list(): Promise<IMetricLibraryEntry[]>;
+  save(entry: IMetricLibraryEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+  listLinks(configId: string): Promise<IMetricLibraryLinks>;
+  saveLinks(configId: string, links: IMetricLibraryLinks): Promise<void>;
+}
+
+// Expects entries at `<endpoint>/entries/<id>` and a config's links at `<endpoint>/links/<configId>`.
+class GateMetricLibraryStore implements IMetricLibraryStore {
+  private endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+  }
+
+  public list(): Promise<IMetricLibraryEntry[]> {
+    return ReactInjector.API.one(this.endpoint).one('entries').get();
+  }
+
+  public save(entry: IMetricLibraryEntry): Promise<void> {
+    return ReactInjector.API.one(this.endpoint).one('entries').one(entry.id).put(entry);
+  }
+
+  public remove(id: string): Promise<void> {
+    return ReactInjector.API.one(this.endpoint).one('entries').one(id).remove();
+  }
+
+  public listLinks(configId: string): Promise<IMetricLibraryLinks> {
+    return ReactInjector.API.one(this.endpoint).one('links').one(configId).get();
+  }
+
+  public saveLinks(configId: string, links: IMetricLibraryLinks): Promise<void> {
+    return ReactInjector.API.one(this.endpoint).one('links').one(configId).put(links);
+  }
+}
+
+const ENTRIES_KEY = 'kayenta.metricLibrary';
+
+// Uses localStorage when it's available, otherwise keeps entries in memory
+// for the lifetime of the page.
+class LocalMetricLibraryStore implements IMetricLibraryStore {
+  private inMemory: {[key: string]: any} = {};
+
+  public list(): Promise<IMetricLibraryEntry[]> {
+    return Promise.resolve(this.read(ENTRIES_KEY, []));
+  }
+
+  public save(entry: IMetricLibraryEntry): Promise<void> {
+    this.write(ENTRIES_KEY, this.read<IMetricLibraryEntry[]>(ENTRIES_KEY, []).filter(e => e.id !== entry.id).concat([entry]));
+    return Promise.resolve();
+  }
+
+  public remove(id: string): Promise<void> {
+    this.write(ENTRIES_KEY, this.read<IMetricLibraryEntry[]>(ENTRIES_KEY, []).filter(e => e.id !== id));
+    return Promise.resolve();
+  }
+
+  public listLinks(configId: string): Promise<IMetricLibraryLinks> {
+    return Promise.resolve(this.read(this.buildLinksKey(configId), {}));
+  }
+
+  public saveLinks(configId: string, links: IMetricLibraryLinks): Promise<void> {
+    this.write(this.buildLinksKey(configId), links);
+    return Promise.resolve();
+  }
+
+  private read<T>(key: string, empty: T): T {
+    try {
+      const serialized = window.localStorage.getItem(key);
+      return serialized ? JSON.parse(serialized) : empty;
+    } catch (e) {
+      return this.inMemory[key] || empty;
+    }
+  }
+
+  private write(key: string, value: any): void {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+      this.inMemory[key] = value;
+    }
+  }
+
+  private buildLinksKey(configId: string): string {
+    return `kayenta.metricLibraryLinks.${configId}`;
+  }
+}
+
+let libraryStore: IMetricLibraryStore = CanarySettings.metricLibraryEndpoint
+  ? new GateMetricLibraryStore(CanarySettings.metricLibraryEndpoint)
+  : new LocalMetricLibraryStore();
+
+export function setMetricLibraryStore(store: IMetricLibraryStore): void {
+  libraryStore = store;
+}
+
+// The metric without the fields that only make sense within a config.
+export const toLibraryMetric = (metric: ICanaryMetricConfig): ICanaryMetricConfig =>
+  omit(cloneDeep(metric), ['id', 'isNew', 'libraryEntry']) as ICanaryMetricConfig;
+
+const generateEntryId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// The application's entries and the global ones, sorted by metric name.
+export function listMetricLibraryEntries(application: string): Promise<IMetricLibraryEntry[]> {
+  return libraryStore.list().then(entries =>
+    entries
+      .filter(entry => entry.application === null || entry.application === application)
+      .sort((a, b) => (a.metric.name || '').localeCompare(b.metric.name || ''))
+  );
+}
+
+// Saves the metric as a new entry, or over the entry with the given id.
+export function saveMetricLibraryEntry(metric: ICanaryMetricConfig,
+                                       application: string,
+                                       entryId: string = null): Promise<IMetricLibraryEntry> {
+  const entry: IMetricLibraryEntry = {
+    id: entryId || generateEntryId(),
+    application,
+    metric: toLibraryMetric(metric),
+    updatedTimestampIso: new Date().toISOString(),
+  };
+  return libraryStore.save(entry).then(() => entry);
+}
+
+export function deleteMetricLibraryEntry(id: string): Promise<void> {
+  return libraryStore.remove(id);
+}
+
+// Matches every whitespace-separated term against the metric's name, store,
+// groups and query.
+export function searchMetricLibrary(entries: IMetricLibraryEntry[], text: string): IMetricLibraryEntry[] {
+  const terms = (text || '').toLowerCase().split(/\s+/).filter(term => !!term);
+  if (!terms.length) {
+    return entries;
+  }
+
+  return entries.filter(({ metric }) => {
+    const searchable = [
+      metric.name,
+      metric.query.type,
+      ...metric.groups,
+      JSON.stringify(metric.query),
+    ].join(' ').toLowerCase();
+    return terms.every(term => searchable.includes(term));
+  });
+}
+
+// A copy of the entry's metric that remembers which version of the entry it came from.
+export function copyFromLibrary(entry: IMetricLibraryEntry, id: string = null): ICanaryMetricConfig {
+  return {
+    ...toLibraryMetric(entry.metric),
+    id,
+    libraryEntry: { id: entry.id, updatedTimestampIso: entry.updatedTimestampIso },
+  };
+}
+
+// The library entry a metric was copied from, if it has changed since.
+export function findLibraryUpdate(metric: ICanaryMetricConfig, entries: IMetricLibraryEntry[]): IMetricLibraryEntry {
+  if (!metric.libraryEntry) {
+    return null;
+  }
+
+  const entry = entries.find(e => e.id === metric.libraryEntry.id);
+  return entry && entry.updatedTimestampIso > metric.libraryEntry.updatedTimestampIso
+    ? entry
+    : null;
+}
+
+
+// Kayenta drops the fields it doesn't know about when it saves a config, so the library
+// entries metrics were copied from are kept in the library store instead.
+export function attachMetricLibraryLinks(config: ICanaryConfig): Promise<ICanaryConfig> {
+  return libraryStore.listLinks(config.id).then(
+    links => ({
+      ...config,
+      metrics: config.metrics.map(metric =>
+        links && links[metric.name] ? { ...metric, libraryEntry: links[metric.name] } : metric
+      ),
+    }),
+    // The config is still usable without its links.
+    () => config,
+  );
+}
+
+export function saveMetricLibraryLinks(configId: string, metrics: ICanaryMetricConfig[]): Promise<void> {
+  const links: IMetricLibraryLinks = {};
+  metrics
+    .filter(metric => !!metric.libraryEntry)
+    .forEach(metric => links[metric.name] = metric.libraryEntry);
+  return libraryStore.saveLinks(configId, links);
+}
+
+export const withoutMetricLibraryLinks = (config: ICanaryConfig): ICanaryConfig => ({
+  ...config,
+  metrics: config.metrics.map(metric => omit(metric, 'libraryEntry') as ICanaryMetricConfig),
+});
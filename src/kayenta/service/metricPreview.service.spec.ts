@@ -0,0 +1,93 @@
+import {
+  buildPreviewScope,
+  IMetricPreviewParams,
+  IMetricPreviewRequest,
+  IMetricSet,
+  previewMetric,
+  setMetricPreviewFetcher,
+} from './metricPreview.service';
+
+describe('Service: metricPreview', () => {
+
+  const createParams = (overrides: Partial<IMetricPreviewParams> = {}): IMetricPreviewParams => ({
+    metricsAccountName: 'account',
+    controlScope: 'app-v001',
+    experimentScope: null,
+    location: 'us-east-1',
+    startTimeIso: '2018-03-01T12:00:00Z',
+    endTimeIso: '2018-03-01T13:00:00Z',
+    step: null,
+    ...overrides,
+  });
+
+  const metricSet = (values: number[]): IMetricSet => ({
+    name: 'cpu',
+    tags: {},
+    values,
+    startTimeMillis: 0,
+    startTimeIso: '1970-01-01T00:00:00Z',
+    stepMillis: 60000,
+  });
+
+  const metric: any = { name: 'cpu', query: { type: 'atlas', q: 'name,cpu,:eq' } };
+
+  it('builds a scope with a default step', () => {
+    expect(buildPreviewScope(createParams(), 'app-v001')).toEqual({
+      scope: 'app-v001',
+      location: 'us-east-1',
+      start: '2018-03-01T12:00:00.000Z',
+      end: '2018-03-01T13:00:00.000Z',
+      step: 60,
+    });
+  });
+
+  it('defaults to the hour before the end time', () => {
+    const scope = buildPreviewScope(createParams({ startTimeIso: null }), 'app-v001');
+    expect(scope.start).toEqual('2018-03-01T12:00:00.000Z');
+  });
+
+  it('rejects unparseable and backwards time ranges', () => {
+    expect(() => buildPreviewScope(createParams({ startTimeIso: 'yesterday' }), 'app-v001'))
+      .toThrowError(/start time must be an ISO 8601 timestamp/);
+    expect(() => buildPreviewScope(createParams({ endTimeIso: '2018-03-01T11:00:00Z' }), 'app-v001'))
+      .toThrowError('The start time must be before the end time.');
+  });
+
+  it('fetches each scope and graphs the first series of each', done => {
+    const requests: IMetricPreviewRequest[] = [];
+    setMetricPreviewFetcher({
+      fetch: request => {
+        requests.push(request);
+        return Promise.resolve(request.scope.scope === 'app-v001'
+          ? [metricSet([1, 2]), metricSet([3, 4])]
+          : [metricSet([5, 6])]);
+      },
+    });
+
+    previewMetric(metric, null, createParams({ experimentScope: 'app-v002' })).then(preview => {
+      expect(requests.map(r => r.scope.scope)).toEqual(['app-v001', 'app-v002']);
+      expect(requests[0].templates).toEqual({});
+      expect(preview.pair.values).toEqual({ control: [1, 2], experiment: [5, 6] });
+      expect(preview.seriesCount).toEqual(2);
+      done();
+    });
+  });
+
+  it('returns no pair when the query returns no data', done => {
+    setMetricPreviewFetcher({ fetch: () => Promise.resolve([metricSet([NaN, null])]) });
+
+    previewMetric(metric, {}, createParams()).then(preview => {
+      expect(preview.pair).toBeNull();
+      done();
+    });
+  });
+
+  it('reports scope errors as failures', done => {
+    setMetricPreviewFetcher({ fetch: () => Promise.resolve([]) });
+
+    previewMetric(metric, {}, createParams({ endTimeIso: 'now' })).catch((error: Error) => {
+      expect(error.message).toMatch(/end time/);
+      done();
+    });
+  });
+});
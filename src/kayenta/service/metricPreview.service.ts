@@ -0,0 +1,163 @@
+import { range } from 'lodash';
+import { ReactInjector } from '@spinnaker/core';
+import { CanarySettings } from 'kayenta/canary.settings';
+import { ICanaryMetricConfig, IMetricSetPair } from 'kayenta/domain';
+
+// What the user enters to preview a metric. Blank times default to the last hour.
+export interface IMetricPreviewParams {
+  metricsAccountName: string;
+  controlScope: string;
+  experimentScope: string;
+  location: string;
+  startTimeIso: string;
+  endTimeIso: string;
+  // Seconds.
+  step: number;
+}
+
+// Mirrors Kayenta's CanaryScope.
+export interface IMetricPreviewScope {
+  scope: string;
+  location: string;
+  start: string;
+  end: string;
+  step: number;
+}
+
+export interface IMetricPreviewRequest {
+  metricsAccountName: string;
+  metric: ICanaryMetricConfig;
+  templates: {[name: string]: string};
+  scope: IMetricPreviewScope;
+}
+
+// Mirrors Kayenta's MetricSet.
+export interface IMetricSet {
+  name: string;
+  tags: {[key: string]: string};
+  values: number[];
+  startTimeMillis: number;
+  startTimeIso: string;
+  stepMillis: number;
+}
+
+export interface IMetricPreview {
+  // Null if the query didn't return any data.
+  pair: IMetricSetPair;
+  // A query can return a series per tag combination; only the first of each is graphed.
+  seriesCount: number;
+}
+
+// Fetches the series a metric query returns for a scope. The default fetcher asks Kayenta
+// through Gate; another one can be plugged in with `setMetricPreviewFetcher`.
+export interface IMetricPreviewFetcher {
+  fetch(request: IMetricPreviewRequest): Promise<IMetricSet[]>;
+}
+
+export const DEFAULT_PREVIEW_STEP_SECONDS = 60;
+const DEFAULT_PREVIEW_DURATION_MILLIS = 60 * 60 * 1000;
+const MAX_STUB_POINTS = 1000;
+
+const gateMetricPreviewFetcher: IMetricPreviewFetcher = {
+  fetch: request => ReactInjector.API.one('v2/canaries/metrics/preview').post(request),
+};
+
+// Generates a noisy sine wave per scope, for working on the UI without a metric store.
+const stubMetricPreviewFetcher: IMetricPreviewFetcher = {
+  fetch: request => {
+    const startTimeMillis = new Date(request.scope.start).getTime();
+    const stepMillis = request.scope.step * 1000;
+    const count = Math.min(Math.floor((new Date(request.scope.end).getTime() - startTimeMillis) / stepMillis), MAX_STUB_POINTS);
+    const baseline = 100 + request.scope.scope.length;
+    return Promise.resolve([{
+      name: request.metric.name,
+      tags: {},
+      values: range(count).map(i => baseline + 20 * Math.sin(i / 10) + 10 * Math.random()),
+      startTimeMillis,
+      startTimeIso: request.scope.start,
+      stepMillis,
+    }]);
+  },
+};
+
+let metricPreviewFetcher: IMetricPreviewFetcher =
+  CanarySettings.stubMetricPreview ? stubMetricPreviewFetcher : gateMetricPreviewFetcher;
+
+export function setMetricPreviewFetcher(fetcher: IMetricPreviewFetcher): void {
+  metricPreviewFetcher = fetcher;
+}
+
+const parseTime = (iso: string, label: string): number => {
+  const millis = new Date(iso).getTime();
+  if (isNaN(millis)) {
+    throw new Error(`The ${label} time must be an ISO 8601 timestamp, e.g., 2018-03-01T12:00:00Z.`);
+  }
+  return millis;
+};
+
+export function buildPreviewScope(params: IMetricPreviewParams, scope: string): IMetricPreviewScope {
+  const end = params.endTimeIso ? parseTime(params.endTimeIso, 'end') : Date.now();
+  const start = params.startTimeIso ? parseTime(params.startTimeIso, 'start') : end - DEFAULT_PREVIEW_DURATION_MILLIS;
+  if (start >= end) {
+    throw new Error('The start time must be before the end time.');
+  }
+  return {
+    scope,
+    location: params.location,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    step: params.step || DEFAULT_PREVIEW_STEP_SECONDS,
+  };
+}
+
+const hasData = (metricSet: IMetricSet): boolean =>
+  !!metricSet && (metricSet.values || []).some(value => typeof value === 'number' && !isNaN(value));
+
+const toMetricSetScope = (metricSet: IMetricSet) => ({
+  startTimeIso: metricSet.startTimeIso,
+  startTimeMillis: metricSet.startTimeMillis,
+  stepMillis: metricSet.stepMillis,
+});
+
+// Shapes the preview like a canary run's metric set pair so that it can be graphed the same way.
+export function buildPreviewMetricSetPair(control: IMetricSet, experiment: IMetricSet): IMetricSetPair {
+  if (!hasData(control) && !hasData(experiment)) {
+    return null;
+  }
+  const scoped = control || experiment;
+  return {
+    name: scoped.name,
+    id: 'preview',
+    tags: scoped.tags,
+    values: {
+      control: control ? control.values : [],
+      experiment: experiment ? experiment.values : [],
+    },
+    scopes: {
+      control: toMetricSetScope(control || experiment),
+      experiment: toMetricSetScope(experiment || control),
+    },
+  };
+}
+
+export function previewMetric(metric: ICanaryMetricConfig,
+                              templates: {[name: string]: string},
+                              params: IMetricPreviewParams): Promise<IMetricPreview> {
+  const fetchScope = (scope: string): Promise<IMetricSet[]> =>
+    scope
+      ? metricPreviewFetcher.fetch({
+          metricsAccountName: params.metricsAccountName,
+          metric,
+          templates: templates || {},
+          scope: buildPreviewScope(params, scope),
+        })
+      : Promise.resolve([]);
+
+  // Scope errors are thrown synchronously; report them like failed requests.
+  return Promise.resolve()
+    .then(() => Promise.all([fetchScope(params.controlScope), fetchScope(params.experimentScope)]))
+    .then(([control, experiment]) => ({
+      pair: buildPreviewMetricSetPair(control[0], experiment[0]),
+      seriesCount: Math.max(control.length, experiment.length),
+    }));
+}
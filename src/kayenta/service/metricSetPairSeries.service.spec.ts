@@ -0,0 +1,35 @@
+import { IMetricSetPair } from 'kayenta/domain/IMetricSetPair';
+import { buildDifferenceSeries, buildEmpiricalCdf, numericValues } from './metricSetPairSeries.service';
+
+describe('Service: metricSetPairSeries', () => {
+
+  it('drops gaps from metric values', () => {
+    expect(numericValues([1, null, 'NaN' as any, NaN, 0])).toEqual([1, 0]);
+  });
+
+  it('builds an empirical CDF with one point per distinct value', () => {
+    expect(buildEmpiricalCdf([3, 1, null, 3, 2])).toEqual([
+      { x: 1, y: 0.25 },
+      { x: 2, y: 0.5 },
+      { x: 3, y: 1 },
+    ]);
+  });
+
+  it('subtracts the baseline from the canary by offset from the start of each scope', () => {
+    const pair = {
+      values: {
+        control: [1, 2, null, 4],
+        experiment: [2, 2, 5],
+      },
+      scopes: {
+        control: { startTimeMillis: 0, stepMillis: 60000 },
+        experiment: { startTimeMillis: 3600000, stepMillis: 60000 },
+      },
+    } as any as IMetricSetPair;
+
+    expect(buildDifferenceSeries(pair)).toEqual([
+      { x: 3600000, y: 1 },
+      { x: 3660000, y: 0 },
+    ]);
+  });
+});
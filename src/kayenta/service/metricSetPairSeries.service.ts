@@ -0,0 +1,38 @@
+import { IMetricSetPair } from 'kayenta/domain/IMetricSetPair';
+
+export interface ISeriesPoint {
+  x: number;
+  y: number;
+}
+
+// Metric stores report gaps as null or 'NaN'.
+export const numericValues = (values: number[]): number[] =>
+  (values || []).filter(value => typeof value === 'number' && !isNaN(value));
+
+// One point per distinct value: the fraction of values less than or equal to it.
+export function buildEmpiricalCdf(values: number[]): ISeriesPoint[] {
+  const sorted = numericValues(values).sort((a, b) => a - b);
+  return sorted.reduce((points, value, index) => {
+    const y = (index + 1) / sorted.length;
+    const last = points[points.length - 1];
+    if (last && last.x === value) {
+      last.y = y;
+      return points;
+    }
+    return points.concat([{ x: value, y }]);
+  }, [] as ISeriesPoint[]);
+}
+
+// Canary minus baseline at each step, aligned by offset from the start of each scope
+// and plotted on the canary's timeline. Steps missing from either series are skipped.
+export function buildDifferenceSeries(metricSetPair: IMetricSetPair): ISeriesPoint[] {
+  const { values: { control = [], experiment = [] }, scopes } = metricSetPair;
+  const { startTimeMillis, stepMillis } = scopes.experiment;
+  const points: ISeriesPoint[] = [];
+  for (let i = 0; i < Math.min(control.length, experiment.length); i++) {
+    if (numericValues([control[i], experiment[i]]).length === 2) {
+      points.push({ x: startTimeMillis + stepMillis * i, y: experiment[i] - control[i] });
+    }
+  }
+  return points;
+}
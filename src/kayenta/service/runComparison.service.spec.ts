@@ -0,0 +1,76 @@
+import { ICanaryAnalysisResult, ICanaryExecutionStatusResult, ICanaryJudgeGroupScore } from 'kayenta/domain';
+import { MetricClassificationLabel } from 'kayenta/domain/MetricClassificationLabel';
+import { ScoreClassificationLabel } from 'kayenta/domain/ScoreClassificationLabel';
+import { createCanaryExecution, createJudgeResult } from 'kayenta/testing/fixtures';
+import { compareRuns } from './runComparison.service';
+
+describe('Service: runComparison', () => {
+
+  const createResult = (name: string, classification: MetricClassificationLabel, tags: {[key: string]: string} = {}): ICanaryAnalysisResult => ({
+    name,
+    id: `${name}-${JSON.stringify(tags)}`,
+    tags,
+    classification,
+    classificationReason: null,
+    groups: ['system'],
+    experimentMetadata: null,
+    controlMetadata: null,
+    resultMetadata: null,
+  });
+
+  const createRun = (score: number, groupScores: ICanaryJudgeGroupScore[], results: ICanaryAnalysisResult[]): ICanaryExecutionStatusResult =>
+    createCanaryExecution({}, createJudgeResult(score, ScoreClassificationLabel.Pass, groupScores, results));
+
+  const group = (name: string, score: number): ICanaryJudgeGroupScore =>
+    ({ name, score, classification: null, classificationReason: null });
+
+  it('compares scores and group scores', () => {
+    const comparison = compareRuns(
+      createRun(100, [group('system', 100), group('requests', 50)], []),
+      createRun(75, [group('system', 50)], []),
+    );
+
+    expect(comparison.score.delta).toEqual(-25);
+    expect(comparison.groups.map(g => [g.name, g.delta])).toEqual([['requests', null], ['system', -50]]);
+    expect(comparison.groups[0].right).toBeNull();
+  });
+
+  it('aligns metric results by name', () => {
+    const comparison = compareRuns(
+      createRun(100, [], [
+        createResult('errors', MetricClassificationLabel.Pass),
+        createResult('cpu', MetricClassificationLabel.Pass),
+        createResult('latency', MetricClassificationLabel.Pass),
+      ]),
+      createRun(50, [], [
+        createResult('cpu', MetricClassificationLabel.Pass),
+        createResult('errors', MetricClassificationLabel.High),
+        createResult('memory', MetricClassificationLabel.Pass),
+      ]),
+    );
+
+    expect(comparison.metrics.map(m => [m.key, m.classificationChanged])).toEqual([
+      ['cpu', false],
+      ['errors', true],
+      ['latency', true],
+      ['memory', true],
+    ]);
+    expect(comparison.metrics[2].right).toBeNull();
+    expect(comparison.metrics[3].left).toBeNull();
+  });
+
+  it('tells apart results of the same metric by their tags', () => {
+    const comparison = compareRuns(
+      createRun(100, [], [
+        createResult('cpu', MetricClassificationLabel.Pass, { zone: 'a' }),
+        createResult('cpu', MetricClassificationLabel.Pass, { zone: 'b' }),
+      ]),
+      createRun(100, [], [
+        createResult('cpu', MetricClassificationLabel.Low, { zone: 'b' }),
+      ]),
+    );
+
+    expect(comparison.metrics.map(m => m.key)).toEqual(['cpu (zone:a)', 'cpu (zone:b)']);
+    expect(comparison.metrics[1].right.classification).toEqual(MetricClassificationLabel.Low);
+  });
+});
@@ -0,0 +1,107 @@
+import { sortBy, uniq } from 'lodash';
+import {
+  ICanaryAnalysisResult,
+  ICanaryExecutionStatusResult,
+  ICanaryJudgeGroupScore,
+  ICanaryJudgeScore,
+} from 'kayenta/domain';
+
+// Identifies the run on either side of a comparison.
+export interface IComparedRunParams {
+  configId: string;
+  runId: string;
+}
+
+export interface IScoreComparison {
+  left: ICanaryJudgeScore;
+  right: ICanaryJudgeScore;
+  // Right minus left; null unless both runs were scored.
+  delta: number;
+}
+
+export interface IGroupScoreComparison {
+  name: string;
+  // Null if the group isn't in that run.
+  left: ICanaryJudgeGroupScore;
+  right: ICanaryJudgeGroupScore;
+  delta: number;
+}
+
+export interface IMetricResultComparison {
+  // The metric name, qualified by tags when the metric has more than one result.
+  key: string;
+  name: string;
+  // Null if the metric isn't in that run.
+  left: ICanaryAnalysisResult;
+  right: ICanaryAnalysisResult;
+  classificationChanged: boolean;
+}
+
+export interface IRunComparison {
+  score: IScoreComparison;
+  groups: IGroupScoreComparison[];
+  metrics: IMetricResultComparison[];
+}
+
+const scoreDelta = (left: { score: number }, right: { score: number }): number =>
+  left && right && typeof left.score === 'number' && typeof right.score === 'number'
+    ? right.score - left.score
+    : null;
+
+export const buildMetricResultKey = (result: ICanaryAnalysisResult, qualify: boolean): string => {
+  const tags = Object.keys(result.tags || {}).sort().map(tag => `${tag}:${result.tags[tag]}`);
+  return qualify && tags.length ? `${result.name} (${tags.join(', ')})` : result.name;
+};
+
+const keyResults = (results: ICanaryAnalysisResult[], multipleResultNames: string[]): Map<string, ICanaryAnalysisResult> =>
+  new Map(results.map(result =>
+    [buildMetricResultKey(result, multipleResultNames.includes(result.name)), result] as [string, ICanaryAnalysisResult]
+  ));
+
+const namesWithMultipleResults = (results: ICanaryAnalysisResult[]): string[] =>
+  results
+    .map(result => result.name)
+    .filter((name, index, names) => names.indexOf(name) !== index);
+
+// Aligns the results of two runs by metric name, along with their scores.
+export function compareRuns(left: ICanaryExecutionStatusResult, right: ICanaryExecutionStatusResult): IRunComparison {
+  const leftJudgeResult = left.result.judgeResult;
+  const rightJudgeResult = right.result.judgeResult;
+
+  const groupNames = uniq(
+    leftJudgeResult.groupScores.concat(rightJudgeResult.groupScores).map(group => group.name)
+  ).sort();
+  const groups = groupNames.map(name => {
+    const leftGroup = leftJudgeResult.groupScores.find(group => group.name === name) || null;
+    const rightGroup = rightJudgeResult.groupScores.find(group => group.name === name) || null;
+    return { name, left: leftGroup, right: rightGroup, delta: scoreDelta(leftGroup, rightGroup) };
+  });
+
+  const multipleResultNames = uniq(
+    namesWithMultipleResults(leftJudgeResult.results).concat(namesWithMultipleResults(rightJudgeResult.results))
+  );
+  const leftResults = keyResults(leftJudgeResult.results, multipleResultNames);
+  const rightResults = keyResults(rightJudgeResult.results, multipleResultNames);
+  const keys = uniq(Array.from(leftResults.keys()).concat(Array.from(rightResults.keys())));
+  const metrics = sortBy(keys.map(key => {
+    const leftResult = leftResults.get(key) || null;
+    const rightResult = rightResults.get(key) || null;
+    return {
+      key,
+      name: (leftResult || rightResult).name,
+      left: leftResult,
+      right: rightResult,
+      classificationChanged: !leftResult || !rightResult || leftResult.classification !== rightResult.classification,
+    };
+  }), 'key');
+
+  return {
+    score: {
+      left: leftJudgeResult.score,
+      right: rightJudgeResult.score,
+      delta: scoreDelta(leftJudgeResult.score, rightJudgeResult.score),
+    },
+    groups,
+    metrics,
+  };
+}
@@ -32,7 +32,10 @@ interface IKayentaStageCanaryConfig {
   combinedCanaryResultStrategy: string;
   lifetimeHours?: string;
   lookbackMins?: string;
-  metricsAccountName: string;
+  // Used when every metric in the canary config queries the same metric store.
+  metricsAccountName?: string;
+  // Used instead of metricsAccountName when the config's metrics query more than one metric store.
+  metricsAccountNames?: {[metricStore: string]: string};
   scoreThresholds: {
     pass: string;
     marginal: string;
@@ -69,7 +72,7 @@ class CanaryStage implements IComponentController {
   public selectedCanaryConfigDetails: ICanaryConfig;
   public scopeNames: string[] = [];
   public kayentaAccounts = new Map<KayentaAccountType, IKayentaAccount[]>();
-  public metricStore: string;
+  public metricStores: string[] = [];
 
   constructor(private $scope: IScope, public stage: IKayentaStage) {
     'ngInject';
@@ -86,6 +89,11 @@ class CanaryStage implements IComponentController {
     this.loadCanaryConfigDetails().then(() => this.overrideScoreThresholds());
   }
 
+  public getMetricsAccounts(metricStore: string): IKayentaAccount[] {
+    return (this.kayentaAccounts.get(KayentaAccountType.MetricsStore) || [])
+      .filter(account => (account.metricsStoreType || account.type) === metricStore);
+  }
+
   public isExpression(val: number | string): boolean {
     return isString(val) && val.includes('${');
   }
@@ -115,8 +123,6 @@ class CanaryStage implements IComponentController {
     this.stage.canaryConfig = this.stage.canaryConfig || {} as IKayentaStageCanaryConfig;
     this.stage.canaryConfig.storageAccountName =
       this.stage.canaryConfig.storageAccountName || CanarySettings.storageAccountName;
-    this.stage.canaryConfig.metricsAccountName =
-      this.stage.canaryConfig.metricsAccountName || CanarySettings.metricsAccountName;
     this.stage.canaryConfig.combinedCanaryResultStrategy =
       this.stage.canaryConfig.combinedCanaryResultStrategy || 'LOWEST';
     this.stage.analysisType =
@@ -143,7 +149,8 @@ class CanaryStage implements IComponentController {
       this.state.detailsLoading = false;
       this.selectedCanaryConfigDetails = configDetails;
       this.populateScopeNameChoices(configDetails);
-      this.metricStore = get(configDetails, 'metrics[0].query.type');
+      this.metricStores = getMetricStores(configDetails);
+      this.populateMetricsAccountNames();
     }).catch(() => {
       this.state.detailsLoading = false;
     });
@@ -186,16 +193,47 @@ class CanaryStage implements IComponentController {
     }
   }
 
+  // Switches between a single metrics account and one per metric store, depending on
+  // how many stores the selected config queries.
+  private populateMetricsAccountNames(): void {
+    // Both the config and the accounts are needed; loadBackingData calls this again once they're loaded.
+    if (this.state.backingDataLoading) {
+      return;
+    }
+
+    const { canaryConfig } = this.stage;
+    if (this.metricStores.length < 2) {
+      delete canaryConfig.metricsAccountNames;
+      canaryConfig.metricsAccountName = canaryConfig.metricsAccountName || CanarySettings.metricsAccountName;
+      return;
+    }
+
+    const metricsAccountNames: {[metricStore: string]: string} = {};
+    this.metricStores.forEach(metricStore => {
+      const accountNames = this.getMetricsAccounts(metricStore).map(account => account.name);
+      metricsAccountNames[metricStore] = [
+        (canaryConfig.metricsAccountNames || {})[metricStore],
+        canaryConfig.metricsAccountName,
+        CanarySettings.metricsAccountName,
+      ].find(name => accountNames.includes(name)) || (accountNames.length === 1 ? accountNames[0] : undefined);
+    });
+    canaryConfig.metricsAccountNames = metricsAccountNames;
+    delete canaryConfig.metricsAccountName;
+  }
+
   private loadBackingData(): void {
     this.state.backingDataLoading = true;
     Promise.all([
       this.$scope.application.ready().then(() => {
         this.setCanaryConfigSummaries(this.$scope.application.getDataSource('canaryConfigs').data);
         this.deleteCanaryConfigIdIfMissing();
-        this.loadCanaryConfigDetails();
+        return this.loadCanaryConfigDetails();
       }),
       listKayentaAccounts().then(this.setKayentaAccounts).then(this.deleteConfigAccountsIfMissing),
-    ]).then(() => this.state.backingDataLoading = false)
+    ]).then(() => {
+      this.state.backingDataLoading = false;
+      this.populateMetricsAccountNames();
+    })
       .catch(() => this.state.backingDataLoading = false);
   }
 
@@ -220,6 +258,12 @@ class CanaryStage implements IComponentController {
           .every(account => account.name !== this.stage.canaryConfig.metricsAccountName)) {
       delete this.stage.canaryConfig.metricsAccountName;
     }
+    Object.keys(this.stage.canaryConfig.metricsAccountNames || {}).forEach(metricStore => {
+      if (this.getMetricsAccounts(metricStore)
+            .every(account => account.name !== this.stage.canaryConfig.metricsAccountNames[metricStore])) {
+        delete this.stage.canaryConfig.metricsAccountNames[metricStore];
+      }
+    });
   }
 
   private setCanaryConfigSummaries(summaries: ICanaryConfigSummary[]): void {
@@ -244,6 +288,9 @@ class CanaryStage implements IComponentController {
   }
 }
 
+const getMetricStores = (configDetails: ICanaryConfig): string[] =>
+  uniq(map(configDetails.metrics, metric => metric.query.type)).filter(metricStore => !!metricStore);
+
 const requiredForAnalysisType = (analysisType: KayentaAnalysisType, fieldName: string, fieldLabel?: string): (p: IPipeline, s: IKayentaStage) => string => {
   return (_pipeline: IPipeline, stage: IKayentaStage): string => {
     if (stage.analysisType === analysisType) {
@@ -255,6 +302,26 @@ const requiredForAnalysisType = (analysisType: KayentaAnalysisType, fieldName: s
   }
 };
 
+const metricsAccountsMustBeConfigured = (_pipeline: IPipeline, stage: IKayentaStage): Promise<string> => {
+  return getCanaryConfigById(get(stage, 'canaryConfig.canaryConfigId')).then(configDetails => {
+    const metricStores = getMetricStores(configDetails);
+    if (metricStores.length < 2) {
+      return get(stage, 'canaryConfig.metricsAccountName')
+        ? null
+        : '<strong>Metrics Account</strong> is a required field for Kayenta Canary stages.';
+    }
+
+    const missingMetricStores = metricStores.filter(metricStore => !get(stage, ['canaryConfig', 'metricsAccountNames', metricStore]));
+    if (missingMetricStores.length > 1) {
+      return `Metric stores <strong>${missingMetricStores.join()}</strong> do not have a metrics account.`;
+    } else if (missingMetricStores.length === 1) {
+      return `Metric store <strong>${missingMetricStores[0]}</strong> does not have a metrics account.`;
+    } else {
+      return null;
+    }
+  });
+};
+
 const allScopesMustBeConfigured = (_pipeline: IPipeline, stage: IKayentaStage): Promise<string> => {
   return getCanaryConfigById(get(stage, 'canaryConfig.canaryConfigId')).then(configDetails => {
     let definedScopeNames = uniq(map(configDetails.metrics, metric => metric.scopeName || 'default'));
@@ -314,11 +381,11 @@ module(KAYENTA_CANARY_STAGE, [
         { type: 'requiredField', fieldName: 'canaryConfig.canaryConfigId', fieldLabel: 'Config Name' },
         { type: 'requiredField', fieldName: 'canaryConfig.scopes[0].controlScope', fieldLabel: 'Baseline Scope' },
         { type: 'requiredField', fieldName: 'canaryConfig.scopes[0].experimentScope', fieldLabel: 'Canary Scope' },
-        { type: 'requiredField', fieldName: 'canaryConfig.metricsAccountName', fieldLabel: 'Metrics Account' },
         { type: 'requiredField', fieldName: 'canaryConfig.storageAccountName', fieldLabel: 'Storage Account' },
         { type: 'custom', validate: requiredForAnalysisType(KayentaAnalysisType.RealTime, 'canaryConfig.lifetimeHours', 'Lifetime') },
         { type: 'custom', validate: requiredForAnalysisType(KayentaAnalysisType.Retrospective, 'canaryConfig.scopes[0].startTimeIso', 'Start Time') },
         { type: 'custom', validate: requiredForAnalysisType(KayentaAnalysisType.Retrospective, 'canaryConfig.scopes[0].endTimeIso', 'End Time') },
+        { type: 'custom', validate: metricsAccountsMustBeConfigured },
         { type: 'custom', validate: allScopesMustBeConfigured },
         { type: 'custom', validate: allConfiguredScopesMustBeDefined },
       ]
@@ -0,0 +1,54 @@
+import {
+  ICanaryAnalysisResult,
+  ICanaryConfig,
+  ICanaryExecutionStatusResult,
+  ICanaryJudgeGroupScore,
+  ICanaryJudgeResult,
+} from 'kayenta/domain';
+import { ScoreClassificationLabel } from 'kayenta/domain/ScoreClassificationLabel';
+
+// Complete, typed fixtures for specs, which override only the fields they exercise.
+
+export const createCanaryConfig = (overrides: Partial<ICanaryConfig> = {}): ICanaryConfig => ({
+  applications: ['app'],
+  name: 'config',
+  description: '',
+  configVersion: '1',
+  metrics: [],
+  templates: {},
+  classifier: {
+    groupWeights: {},
+    scoreThresholds: { pass: 75, marginal: 50 },
+  },
+  judge: { name: 'judge', judgeConfigurations: {} },
+  ...overrides,
+});
+
+export const createJudgeResult = (score: number,
+                                  classification: ScoreClassificationLabel,
+                                  groupScores: ICanaryJudgeGroupScore[] = [],
+                                  results: ICanaryAnalysisResult[] = []): ICanaryJudgeResult => ({
+  judgeName: 'judge',
+  results,
+  groupScores,
+  score: { score, classification, classificationReason: null },
+});
+
+// An execution without a judge result is still running.
+export const createCanaryExecution = (overrides: Partial<ICanaryExecutionStatusResult> = {},
+                                      judgeResult: ICanaryJudgeResult = null): ICanaryExecutionStatusResult => ({
+  id: 'execution',
+  complete: !!judgeResult,
+  status: judgeResult ? 'SUCCEEDED' : 'RUNNING',
+  stageStatus: {},
+  application: 'app',
+  pipelineId: 'execution',
+  parentPipelineExecutionId: null,
+  metricSetPairListId: null,
+  startTimeIso: null,
+  config: createCanaryConfig(),
+  canaryExecutionRequest: null,
+  storageAccountName: null,
+  result: judgeResult && { judgeResult, config: null, canaryExecutionRequest: null, metricSetPairListId: null },
+  ...overrides,
+});